@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { execa } from 'execa';
+import { ExitCode } from './utils/output.js';
+
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), 'cli.ts');
+const TSX = path.join(path.dirname(CLI), '..', 'node_modules', '.bin', 'tsx');
+
+describe('kickoff --json', () => {
+  let dir: string;
+
+  // Run the CLI from source; stdout must be a single JSON document whatever the outcome
+  const kickoff = async (args: string[], env: Record<string, string> = {}) => {
+    const run = await execa(TSX, [CLI, '--json', ...args], {
+      cwd: dir,
+      env: { HOME: dir, NO_COLOR: '1', ...env },
+      reject: false,
+      timeout: 60_000,
+    });
+    return { exitCode: run.exitCode, output: JSON.parse(run.stdout) };
+  };
+
+  const create = (...args: string[]) =>
+    kickoff(['create', 'app', '--yes', '--preset', 'quick-cli', '--skip-install', '--skip-git', '--no-doctor', ...args]);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-cli-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should print only the result and exit 0 on success', async () => {
+    const { exitCode, output } = await create();
+
+    expect(exitCode).toBe(ExitCode.Success);
+    expect(output.success).toBe(true);
+    expect(output.result.filesCreated).toContain('package.json');
+  }, 60_000);
+
+  it('should exit 1 when rendering fails', async () => {
+    await fs.outputFile(path.join(dir, 'templates/shared/README.md.ejs'), '<%= missing.name %>\n');
+
+    const { exitCode, output } = await create('--template', path.join(dir, 'templates'));
+
+    expect(exitCode).toBe(ExitCode.Error);
+    expect(output).toMatchObject({ success: false, exitCode: ExitCode.Error });
+    expect(output.error).toContain('README.md');
+  }, 60_000);
+
+  it('should exit 2 on invalid input', async () => {
+    const { exitCode, output } = await create('--preset', 'nope');
+
+    expect(exitCode).toBe(ExitCode.InvalidInput);
+    expect(output).toEqual({ success: false, exitCode: ExitCode.InvalidInput, error: expect.stringContaining('Unknown preset: nope') });
+  }, 60_000);
+
+  it('should exit 3 when stack validation fails', async () => {
+    await fs.outputJson(path.join(dir, 'kickoff.json'), { name: 'app', type: 'nextjs', databaseProvider: 'd1', orm: 'prisma' });
+
+    const { exitCode, output } = await kickoff(['create', '--spec', 'kickoff.json', '--skip-install', '--skip-git', '--no-doctor']);
+
+    expect(exitCode).toBe(ExitCode.ValidationFailed);
+    expect(output).toMatchObject({ success: false, exitCode: ExitCode.ValidationFailed, error: 'Stack validation failed' });
+    expect(output.validation.rulesResult.errors.map((e: { id: string }) => e.id)).toEqual(['d1-requires-drizzle']);
+  }, 60_000);
+
+  it('should exit 4 when generated files collide with existing ones', async () => {
+    await fs.outputFile(path.join(dir, 'app/README.md'), '# mine\n');
+
+    const { exitCode, output } = await create();
+
+    expect(exitCode).toBe(ExitCode.Conflicts);
+    expect(output.result.collidingFiles).toEqual(['README.md']);
+    expect(await fs.readFile(path.join(dir, 'app/README.md'), 'utf-8')).toBe('# mine\n');
+  }, 60_000);
+
+  it('should exit 5 when required tools are missing', async () => {
+    // Only node is on the PATH, so the Go toolchain is missing
+    await fs.ensureSymlink(process.execPath, path.join(dir, 'bin/node'));
+    const { exitCode, output } = await kickoff(
+      ['create', 'app', '--yes', '--preset', 'go-microservice', '--skip-install', '--skip-git', '--require-tools'],
+      { PATH: path.join(dir, 'bin') }
+    );
+
+    expect(exitCode).toBe(ExitCode.MissingTools);
+    expect(output).toMatchObject({ success: false, exitCode: ExitCode.MissingTools, doctor: { ok: false } });
+    expect(await fs.pathExists(path.join(dir, 'app'))).toBe(false);
+  }, 60_000);
+});
@@ -2,22 +2,27 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
-import path from 'path';
-import fs from 'fs-extra';
-import { execa } from 'execa';
-import { fileURLToPath } from 'url';
 import { config as dotenvConfig } from 'dotenv';
-import { promptProjectConfig } from './lib/prompter.js';
-import { scaffoldProject } from './lib/scaffolder.js';
+import { listPresets } from './lib/presets.js';
+import { searchCatalog } from './lib/search.js';
 import { configManager } from './core/ConfigManager.js';
-import { logger } from './utils/Logger.js';
-import { validateStack, validateStackLocal, getLLMProviderInfo, type LLMProvider } from './core/validator.js';
+import { createCommand } from './commands/create.js';
+import { addCommand } from './commands/add.js';
+import { upgradeCommand } from './commands/upgrade.js';
+import { validateCommand } from './commands/validate.js';
+import { recommendCommand } from './commands/recommend.js';
+import { compareCommand } from './commands/compare.js';
+import { doctorCommand } from './commands/doctor.js';
+import { completionCommand } from './commands/completion.js';
+import { searchCommand } from './commands/search.js';
+import { docsCommand, docsBuildCommand } from './commands/docs.js';
+import { templatesTestCommand } from './commands/templates.js';
+import { ExitCode, emitJson, exitWithError, isJsonMode, setJsonMode } from './utils/output.js';
+import { VERSION } from './version.js';
 
 // Load environment variables from .env
-dotenvConfig();
+dotenvConfig({ quiet: true });
 
-const VERSION = '3.0.0';
 
 const BANNER = `
 ${chalk.blue('  ██╗  ██╗██╗ ██████╗██╗  ██╗ ██████╗ ███████╗███████╗')}
@@ -30,17 +35,44 @@ ${chalk.magenta('  ╚═╝  ╚═╝╚═╝ ╚═════╝╚═╝
   ${chalk.dim('Multi-language • AI/ML • 2025 Stacks')}
 `;
 
+// Requirement flags shared by `recommend` and `compare`
+function withRequirementOptions(command: Command): Command {
+  return command
+    .option('--type <type>', 'Project type (web-app, api, cli, library, ai-app, static-site, mcp-server, worker)', 'web-app')
+    .option('--runtime <runtime>', 'Runtime (node, bun, deno, python, go, rust)', 'node')
+    .option('--budget <level>', 'Budget (free, low, medium, high, unlimited)', 'low')
+    .option('--experience <level>', 'Experience (beginner, intermediate, advanced, expert)', 'intermediate')
+    .option('--scale <scale>', 'Expected scale (prototype, small, medium, large, enterprise)', 'small')
+    .option('--timeline <urgency>', 'Timeline (urgent, normal, flexible)', 'normal')
+    .option('--priorities <list>', 'Comma-separated priorities (e.g. dx,performance,type-safety)')
+    .option('--features <list>', 'Comma-separated must-have features (e.g. realtime,ai)')
+    .option('--nice-to-have <list>', 'Comma-separated nice-to-have features')
+    .option('--exclude <list>', 'Comma-separated option ids to rule out (e.g. firebase,prisma)')
+    .option('--prefer <list>', 'Comma-separated option ids to favour');
+}
+
 const program = new Command();
 
 program
   .name('kickoff')
   .description('CLI to scaffold production-ready projects with 2025 tech stacks')
   .version(VERSION)
+  .option('--json', 'Print machine-readable JSON instead of formatted output')
+  .hook('preAction', () => {
+    setJsonMode(Boolean(program.opts().json));
+  })
   .addHelpText('after', `
 ${chalk.bold('Quick Start:')}
   ${chalk.cyan('$')} kickoff create my-app          ${chalk.dim('# Interactive wizard')}
   ${chalk.cyan('$')} kickoff create my-app --preset saas-starter  ${chalk.dim('# Use preset')}
   ${chalk.cyan('$')} kickoff list                   ${chalk.dim('# See all presets')}
+  ${chalk.cyan('$')} kickoff search postgres        ${chalk.dim('# Search presets and stack options')}
+  ${chalk.cyan('$')} kickoff add docker             ${chalk.dim('# Add a fragment to a project')}
+  ${chalk.cyan('$')} kickoff upgrade                ${chalk.dim('# Merge template updates into a project')}
+  ${chalk.cyan('$')} kickoff validate kickoff.yaml  ${chalk.dim('# Check a stack without scaffolding')}
+  ${chalk.cyan('$')} kickoff recommend --type api   ${chalk.dim('# Get a stack recommendation')}
+  ${chalk.cyan('$')} kickoff compare drizzle prisma ${chalk.dim('# Compare options head-to-head')}
+  ${chalk.cyan('$')} kickoff doctor --preset ai-agent ${chalk.dim('# Check required toolchains')}
 
 ${chalk.bold('Examples:')}
   ${chalk.dim('# Create a SaaS app with Next.js + Supabase')}
@@ -68,118 +100,178 @@ ${chalk.bold('Documentation:')}
 
 program
   .command('create')
-  .argument('<name>', 'Name of the project to create')
+  .argument('[name]', 'Name of the project to create')
   .option('-p, --preset <name>', 'Use a preset configuration')
+  .option('-s, --spec <file>', 'Create non-interactively from a kickoff.yaml or kickoff.json spec')
   .option('-d, --directory <path>', 'Output directory', process.cwd())
-  .option('--dry-run', 'Show what would be created without creating files')
-  .option('--skip-install', 'Skip package installation')
+  .option('--dry-run', 'Preview the file tree, dependencies and env vars without writing files')
+  .option('--show <files...>', 'With --dry-run, print the rendered contents of these files')
+  .option('-t, --template <source>', 'Custom templates: a directory laid out like src/templates, or a git URL (url#ref)')
+  .option('--template-mode <mode>', 'overlay the bundled templates (default) or replace them')
+  .option('--skip-install', 'Skip dependency installation')
+  .option('--package-manager <name>', 'Package manager for JS dependencies (npm, pnpm, yarn, bun)')
   .option('--skip-git', 'Skip git initialization')
+  .option('--branch <name>', 'Initial git branch (default: git init.defaultBranch)')
+  .option('--commit-message <template>', 'Initial commit message, e.g. "chore: scaffold {{projectName}}"')
+  .option('--git-author <identity>', 'Author of the initial commit as "Name <email>"')
+  .option('--remote [url]', 'Add origin: the given URL, or github.com/<githubUsername>/<name> without one')
+  .option('--sign', 'GPG-sign the initial commit')
+  .option('--no-sign', 'Never sign the initial commit, whatever commit.gpgsign says')
+  .option('--git-hooks', 'Set up git hooks (husky, lefthook or pre-commit, by runtime)')
   .option('-y, --yes', 'Use default values for all prompts')
+  .option('-f, --force', 'Overwrite files that already exist in the project directory')
+  .option('--skip-existing', 'Keep files that already exist in the project directory and only add new ones')
   .option('-v, --verbose', 'Enable verbose logging')
   .option('--validate', 'Run AI-enhanced stack validation before scaffolding')
   .option('--provider <name>', 'LLM provider for validation (anthropic, openai, gemini, auto)', 'auto')
   .option('--no-rules', 'Skip rule-based validation (not recommended)')
+  .option('--no-doctor', 'Skip the toolchain check')
+  .option('--require-tools', 'Abort when a required toolchain is missing')
   .description('Create a new project')
   .action(async (name, options) => {
-    console.log(BANNER);
+    if (!isJsonMode()) {
+      console.log(BANNER);
+    }
 
-    if (options.verbose) {
-      logger.setVerbose(true);
+    try {
+      await createCommand(name, options);
+    } catch (error) {
+      exitWithError(error);
     }
+  });
 
+program
+  .command('add')
+  .argument('<fragment>', 'Fragment to add (e.g. docker, github-actions, worker)')
+  .option('-d, --directory <path>', 'Project directory', process.cwd())
+  .option('-f, --force', 'Add despite conflicts and overwrite existing files')
+  .description('Add a template fragment to an existing project')
+  .action(async (fragment, options) => {
     try {
-      const config = await promptProjectConfig({
-        name,
-        preset: options.preset,
-        useDefaults: options.yes
-      });
-
-      console.log('\n' + chalk.bold('Project Configuration:'));
-      console.log(chalk.gray('─'.repeat(40)));
-      console.log(`  ${chalk.cyan('Name:')} ${config.name}`);
-      console.log(`  ${chalk.cyan('Type:')} ${config.type}`);
-      console.log(`  ${chalk.cyan('Runtime:')} ${config.runtime}`);
-      console.log(`  ${chalk.cyan('Database:')} ${config.databaseProvider}${config.orm !== 'none' ? ` + ${config.orm}` : ''}`);
-      console.log(`  ${chalk.cyan('Auth:')} ${config.authProvider}`);
-      if (config.aiFramework !== 'none') {
-        console.log(`  ${chalk.cyan('AI:')} ${config.aiFramework}${config.vectorDB !== 'none' ? ` + ${config.vectorDB}` : ''}`);
-      }
-      console.log(chalk.gray('─'.repeat(40)));
-
-      // Stack validation (rules always run unless --no-rules, LLM when --validate)
-      if (options.rules !== false || options.validate) {
-        console.log('\n' + chalk.bold('Stack Validation:'));
-
-        const validationSpinner = ora('Validating stack configuration...').start();
-
-        try {
-          const validationResult = await validateStack(config, {
-            useLLM: options.validate,
-            provider: options.provider as LLMProvider,
-            verbose: options.verbose,
-          });
-
-          validationSpinner.stop();
-          console.log(validationResult.summary);
-
-          if (!validationResult.valid) {
-            console.log(chalk.red('\n⛔ Stack validation failed. Please fix the errors above before creating the project.'));
-            console.log(chalk.dim('Tip: Use different stack choices or review the compatibility issues.\n'));
-            process.exit(1);
-          }
-
-          // Show LLM provider info if using validation
-          if (options.validate && validationResult.llmResult?.provider) {
-            console.log(chalk.dim(`\nUsed ${validationResult.llmResult.provider} for AI-enhanced validation`));
-          }
-        } catch (validationError) {
-          validationSpinner.fail('Validation error');
-          console.error(chalk.yellow('Warning: Validation failed, proceeding with caution'));
-          if (options.verbose) {
-            console.error(validationError);
-          }
-        }
-      }
+      await addCommand(fragment, options);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
 
-      if (options.dryRun) {
-        console.log(chalk.yellow('\n[Dry Run] Would create project at:'));
-        console.log(`  ${path.join(options.directory, config.name)}`);
-        return;
-      }
+program
+  .command('upgrade')
+  .option('-d, --directory <path>', 'Project directory', process.cwd())
+  .option('--dry-run', 'Show what would change without writing files')
+  .option('-t, --template <source>', 'Custom templates to upgrade against, when they moved since the project was created')
+  .description('Merge template improvements into a generated project')
+  .action(async (options) => {
+    try {
+      await upgradeCommand(options);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
 
-      const projectPath = path.join(options.directory, config.name);
-      if (await fs.pathExists(projectPath)) {
-        console.log(chalk.red(`\nError: Directory ${config.name} already exists`));
-        process.exit(1);
-      }
+program
+  .command('validate')
+  .argument('[target]', 'Spec file or generated project directory (default: current project)')
+  .option('-s, --spec <file>', 'kickoff.yaml or kickoff.json spec to validate')
+  .option('-p, --preset <name>', 'Start from a preset')
+  .option('--type <type>', 'Project type (e.g. nextjs, hono-api, fastapi)')
+  .option('--runtime <runtime>', 'Runtime (node, bun, deno, python, go, rust)')
+  .option('--framework <name>', 'Server framework (e.g. hono, express, fastapi)')
+  .option('--db <provider>', 'Database provider (e.g. supabase, neon, d1)')
+  .option('--orm <orm>', 'ORM (e.g. drizzle, prisma)')
+  .option('--auth <provider>', 'Auth provider (e.g. clerk, better-auth)')
+  .option('--vector-db <provider>', 'Vector database (e.g. pgvector, qdrant)')
+  .option('--embedding <provider>', 'Embedding provider (e.g. openai, ollama)')
+  .option('--local-ai <provider>', 'Local AI provider (e.g. ollama, mlx)')
+  .option('--ai <framework>', 'AI framework (e.g. vercel-ai, langchain)')
+  .option('--web-server <server>', 'Web server (caddy, nginx, traefik)')
+  .option('--validate', 'Also run AI-enhanced validation')
+  .option('--provider <name>', 'LLM provider for validation (anthropic, openai, gemini, auto)', 'auto')
+  .option('-v, --verbose', 'Show detailed LLM output')
+  .description('Validate a stack from a spec, flags or a generated project without scaffolding')
+  .action(async (target, options) => {
+    try {
+      await validateCommand(target, options);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
 
-      const spinner = ora('Scaffolding project...').start();
-      await scaffoldProject(config, options.directory);
-      spinner.succeed('Project scaffolded');
-
-      if (!options.skipGit) {
-        spinner.start('Initializing git repository...');
-        try {
-          await execa('git', ['init'], { cwd: projectPath });
-          await execa('git', ['add', '.'], { cwd: projectPath });
-          await execa('git', ['commit', '-m', 'Initial commit from kickoff'], { cwd: projectPath });
-          spinner.succeed('Git repository initialized');
-        } catch {
-          spinner.warn('Git initialization skipped');
-        }
-      }
+program
+  .command('doctor')
+  .argument('[target]', 'Spec file or generated project directory (default: current project, else all tools)')
+  .option('-s, --spec <file>', 'kickoff.yaml or kickoff.json spec to check')
+  .option('-p, --preset <name>', 'Check the tools a preset needs')
+  .option('--skip-git', 'Do not require git')
+  .description('Check that the toolchains a project needs are installed')
+  .action(async (target, options) => {
+    try {
+      await doctorCommand(target, options);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+withRequirementOptions(program.command('recommend'))
+  .option('--create <name>', 'Scaffold the recommended stack as <name> without prompting')
+  .option('-d, --directory <path>', 'Output directory for --create', process.cwd())
+  .option('--skip-git', 'Skip git initialization when scaffolding')
+  .description('Recommend a stack from your requirements and optionally scaffold it')
+  .action(async (options) => {
+    try {
+      await recommendCommand(options);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+withRequirementOptions(program.command('compare'))
+  .argument('<options...>', 'Two or more option ids from the same category (e.g. drizzle prisma)')
+  .option('--with <list>', 'Comma-separated ids of the rest of your stack (e.g. neon,hono)')
+  .option('--aspects <list>', 'Comma-separated tradeoff aspects (default: --priorities or a standard set)')
+  .description('Compare stack options head-to-head against your requirements')
+  .action(async (ids, options) => {
+    try {
+      await compareCommand(ids, options);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
 
-      console.log('\n' + chalk.bold.green('Project created successfully!'));
-      console.log('\n' + chalk.bold('Next steps:'));
-      console.log(chalk.gray('─'.repeat(40)));
-      console.log(`  ${chalk.cyan('1.')} cd ${config.name}`);
-      console.log(`  ${chalk.cyan('2.')} npm install`);
-      console.log(`  ${chalk.cyan('3.')} npm run dev`);
-      console.log(chalk.gray('─'.repeat(40)));
-      console.log('\n' + chalk.blue('Happy coding!') + '\n');
+program
+  .command('completion')
+  .argument('<shell>', 'Shell to generate completions for (bash, zsh, fish)')
+  .description('Print a shell completion script')
+  .addHelpText('after', `
+Examples:
+  eval "$(kickoff completion bash)"      # ~/.bashrc
+  eval "$(kickoff completion zsh)"       # ~/.zshrc
+  kickoff completion fish | source       # ~/.config/fish/config.fish`)
+  .action(async (shell) => {
+    try {
+      await completionCommand(shell, program);
     } catch (error) {
-      console.error(chalk.red('\nError:'), error);
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+program
+  .command('search')
+  .argument('<term>', 'Words to look for in names, descriptions, pros, best-for notes and tags')
+  .option('-c, --category <category>', 'Only search one category (preset, database, orm, auth, frontend, backend, ai, vector-db, embedding, local-ai)')
+  .option('-r, --runtime <runtime>', 'Only show options that support a runtime (node, bun, deno, python, go, rust)')
+  .option('--free', 'Only show options (and presets) with a free tier')
+  .option('-n, --limit <count>', 'Maximum number of results', '20')
+  .description('Search presets and the stack knowledge base')
+  .addHelpText('after', `
+Examples:
+  kickoff search postgres
+  kickoff search "vector search" --free
+  kickoff search orm --category orm --runtime python`)
+  .action(async (term, options) => {
+    try {
+      await searchCommand(term, options);
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
@@ -187,61 +279,82 @@ program
   .command('list')
   .description('List all available presets')
   .action(() => {
+    if (isJsonMode()) {
+      emitJson({ presets: listPresets() });
+      return;
+    }
+
     console.log(BANNER);
 
+    const presets = searchCatalog('', { category: 'preset' });
+    const width = Math.max(...presets.map(preset => preset.id.length));
     console.log(chalk.bold('Available Presets:'));
     console.log(chalk.gray('─'.repeat(60)));
-    console.log(`  ${chalk.magenta('saas-starter')}     Next.js + Supabase + Drizzle`);
-    console.log(`  ${chalk.magenta('tanstack-hono')}    TanStack Start + Turso + Better Auth`);
-    console.log(`  ${chalk.magenta('edge-api')}         Hono + Turso + Bun`);
-    console.log(`  ${chalk.magenta('api-microservice')} Hono + Neon + Drizzle`);
-    console.log(chalk.dim('  AI/ML'));
-    console.log(`  ${chalk.magenta('ai-rag-app')}       Next.js + pgvector + Vercel AI`);
-    console.log(`  ${chalk.magenta('ai-agent')}         Hono + Ollama + LangChain`);
-    console.log(chalk.dim('  Multi-Language'));
-    console.log(`  ${chalk.magenta('fastapi-app')}      FastAPI + PostgreSQL + SQLAlchemy`);
-    console.log(`  ${chalk.magenta('go-api')}           Gin + PostgreSQL + GORM`);
-    console.log(`  ${chalk.magenta('rust-api')}         Axum + PostgreSQL + sqlx`);
-    console.log(chalk.dim('  Quick Start'));
-    console.log(`  ${chalk.magenta('quick-cli')}        CLI tool (quick)`);
-    console.log(`  ${chalk.magenta('landing-page')}     Static site (quick)`);
-    console.log(`  ${chalk.magenta('mcp-server')}       MCP server for AI tools`);
-    console.log(`  ${chalk.magenta('library')}          npm package with tsup + vitest`);
-    console.log(`  ${chalk.magenta('worker')}           BullMQ background worker`);
+    for (const preset of presets) {
+      console.log(`  ${chalk.magenta(preset.id.padEnd(width))}  ${preset.description}`);
+    }
     console.log(chalk.gray('─'.repeat(60)));
 
     console.log('\n' + chalk.dim('Usage: kickoff create <name> --preset <preset-name>'));
+    console.log(chalk.dim('Search presets and stack options: kickoff search <term>'));
   });
 
-program
-  .command('stacks')
+// Options shared by the commands that open a documentation page
+function withOpenOptions(command: Command): Command {
+  return command
+    .option('--serve', 'Serve the page over HTTP instead of opening a browser (for headless machines)')
+    .option('--port <port>', 'Port for --serve', '8765')
+    .option('--host <host>', 'Host for --serve (use 0.0.0.0 to allow remote access)', '127.0.0.1');
+}
+
+withOpenOptions(program.command('stacks'))
   .description('Open interactive stack explorer in browser')
-  .action(async () => {
-    const __dirname = path.dirname(fileURLToPath(import.meta.url));
-    const docsPath = path.join(__dirname, '..', 'docs', 'stacks.html');
-
-    if (await fs.pathExists(docsPath)) {
-      const { execa } = await import('execa');
-      await execa('open', [docsPath]);
-      console.log(chalk.green('Opened stack explorer in browser'));
-    } else {
-      console.log(chalk.yellow('stacks.html not found. Run `kickoff docs` for available documentation.'));
+  .action(async (options) => {
+    try {
+      await docsCommand('stacks', program, options);
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
-program
-  .command('docs')
+const docs = withOpenOptions(program.command('docs'))
   .description('Open usage guide in browser')
-  .action(async () => {
-    const __dirname = path.dirname(fileURLToPath(import.meta.url));
-    const docsPath = path.join(__dirname, '..', 'docs', 'USAGE.html');
-
-    if (await fs.pathExists(docsPath)) {
-      const { execa } = await import('execa');
-      await execa('open', [docsPath]);
-      console.log(chalk.green('Opened usage guide in browser'));
-    } else {
-      console.log(chalk.yellow('USAGE.html not found.'));
+  .action(async (options) => {
+    try {
+      await docsCommand('usage', program, options);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+docs
+  .command('build')
+  .option('-o, --out <dir>', 'Output directory', 'docs')
+  .description('Render stacks.html and USAGE.html from the knowledge base')
+  .action(async (options) => {
+    try {
+      await docsBuildCommand(program, options);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const templates = program
+  .command('templates')
+  .description('Work with the bundled templates');
+
+templates
+  .command('test')
+  .option('-p, --preset <names...>', 'Only render these presets')
+  .option('--sample <count>', 'Random stack combinations to render besides the presets (default: 24, 0 with --preset)')
+  .option('--seed <number>', 'Seed for the sampled combinations', '1')
+  .option('--keep <dir>', 'Keep the rendered projects in this directory')
+  .description('Render every preset and sampled stacks, and check the output parses')
+  .action(async (options) => {
+    try {
+      await templatesTestCommand(options);
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
@@ -255,12 +368,22 @@ program
 
     if (options.show) {
       const config = await configManager.getConfig();
+      if (isJsonMode()) {
+        emitJson({ config, path: configManager.getConfigPath() });
+        return;
+      }
       console.log(chalk.bold('Current Configuration:'));
       console.log(JSON.stringify(config, null, 2));
       console.log(chalk.dim(`\nConfig file: ${configManager.getConfigPath()}`));
     } else if (options.reset) {
       await configManager.resetConfig();
+      if (isJsonMode()) {
+        emitJson({ success: true, config: await configManager.getConfig() });
+        return;
+      }
       console.log(chalk.green('Configuration reset to defaults'));
+    } else if (isJsonMode()) {
+      exitWithError('Pass --show or --reset', ExitCode.InvalidInput);
     } else {
       console.log(chalk.dim('Options:'));
       console.log('  --show   Show current configuration');
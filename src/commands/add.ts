@@ -0,0 +1,76 @@
+import chalk from 'chalk';
+import path from 'path';
+import { addFragment, allFragments } from '../generator/index.js';
+import { ExitCode, emitJson, isJsonMode } from '../utils/output.js';
+
+export interface AddCommandOptions {
+  directory: string;
+  force?: boolean;
+}
+
+export async function addCommand(fragmentId: string, options: AddCommandOptions): Promise<void> {
+  const projectDir = path.resolve(options.directory);
+  const result = await addFragment(fragmentId, projectDir, { force: options.force });
+
+  if (isJsonMode()) {
+    const exitCode = !result.fragment || !result.success ? ExitCode.InvalidInput : ExitCode.Success;
+    const { fragment, ...rest } = result;
+    emitJson({
+      ...rest,
+      exitCode,
+      fragment: fragment?.id ?? fragmentId,
+      postInstallSteps: fragment?.postInstallSteps ?? [],
+      ...(!fragment && { availableFragments: allFragments.map(f => f.id) }),
+    });
+    process.exitCode = exitCode;
+    return;
+  }
+
+  if (!result.fragment) {
+    console.log(chalk.red(`\nUnknown fragment: ${fragmentId}`));
+    console.log('\n' + chalk.bold('Available fragments:'));
+    console.log(chalk.gray('─'.repeat(60)));
+    for (const fragment of allFragments) {
+      console.log(`  ${chalk.magenta(fragment.id.padEnd(16))} ${fragment.description}`);
+    }
+    console.log(chalk.gray('─'.repeat(60)));
+    process.exit(ExitCode.InvalidInput);
+  }
+
+  for (const warning of result.warnings) {
+    console.log(chalk.yellow(`⚠ ${warning}`));
+  }
+
+  if (!result.success) {
+    for (const error of result.errors) {
+      console.log(chalk.red(`✗ ${error}`));
+    }
+    if (!options.force) {
+      console.log(chalk.dim('\nTip: Use --force to add the fragment anyway.'));
+    }
+    process.exit(ExitCode.InvalidInput);
+  }
+
+  console.log('\n' + chalk.bold.green(`Added ${result.fragment.name} to ${path.basename(projectDir)}`));
+  console.log(chalk.gray('─'.repeat(40)));
+  for (const file of result.filesCreated) {
+    console.log(`  ${chalk.green('+')} ${file}`);
+  }
+  for (const file of result.filesSkipped) {
+    console.log(`  ${chalk.dim('=')} ${file} ${chalk.dim('(exists, skipped)')}`);
+  }
+  if (result.dependenciesAdded.length > 0) {
+    console.log(`  ${chalk.cyan('Dependencies:')} ${result.dependenciesAdded.join(', ')}`);
+  }
+  if (result.envVarsAdded.length > 0) {
+    console.log(`  ${chalk.cyan('Env vars:')} ${result.envVarsAdded.join(', ')}`);
+  }
+  console.log(chalk.gray('─'.repeat(40)));
+
+  if (result.fragment.postInstallSteps && result.fragment.postInstallSteps.length > 0) {
+    console.log('\n' + chalk.bold('Next steps:'));
+    result.fragment.postInstallSteps.forEach((step, i) => {
+      console.log(`  ${chalk.cyan(`${i + 1}.`)} ${step}`);
+    });
+  }
+}
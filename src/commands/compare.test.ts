@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import { compareCommand, type CompareCommandOptions } from './compare.js';
+import { ExitCode, setJsonMode } from '../utils/output.js';
+
+describe('compareCommand', () => {
+  let log: MockInstance<typeof console.log>;
+
+  const options = (overrides: Partial<CompareCommandOptions> = {}): CompareCommandOptions => ({
+    type: 'web-app',
+    runtime: 'node',
+    budget: 'low',
+    experience: 'intermediate',
+    scale: 'small',
+    timeline: 'normal',
+    ...overrides,
+  });
+  const printed = () => log.mock.calls.map(args => args.join(' ')).join('\n');
+
+  beforeEach(() => {
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`exit ${code}`);
+    }) as typeof process.exit);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setJsonMode(false);
+  });
+
+  it('should exit 2 for options from different categories', async () => {
+    setJsonMode(true);
+
+    await expect(compareCommand(['drizzle', 'neon'], options())).rejects.toThrow(`exit ${ExitCode.InvalidInput}`);
+    expect(JSON.parse(printed())).toEqual({
+      success: false,
+      exitCode: ExitCode.InvalidInput,
+      error: 'Options must belong to the same category: drizzle (orm), neon (database)',
+    });
+  });
+
+  it('should exit 2 without two known options', async () => {
+    setJsonMode(true);
+
+    await expect(compareCommand(['drizzle', 'drizzle'], options())).rejects.toThrow(`exit ${ExitCode.InvalidInput}`);
+    expect(JSON.parse(printed()).error).toBe('Pass at least two different options to compare');
+
+    log.mockClear();
+    await expect(compareCommand(['drizzle', 'prism'], options())).rejects.toThrow(`exit ${ExitCode.InvalidInput}`);
+    expect(JSON.parse(printed()).error).toMatch(/^Unknown option 'prism'\. Did you mean: .*prisma/);
+  });
+
+  it('should compare every option with the leader on the requested aspects', async () => {
+    setJsonMode(true);
+
+    await compareCommand(['drizzle', 'prisma', 'kysely'], options({ aspects: 'performance,types', with: 'neon' }));
+
+    const output = JSON.parse(printed());
+    expect(output.category).toBe('orm');
+    expect(output.requirements.existingStack).toEqual(['neon']);
+    const scores = output.ranking.map((option: { score: number }) => option.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+
+    const leader = output.ranking[0].id;
+    expect(output.comparisons.map((c: { optionA: string; optionB: string }) => [c.optionA, c.optionB])).toEqual(
+      output.ranking.slice(1).map((option: { id: string }) => [leader, option.id])
+    );
+    for (const comparison of output.comparisons) {
+      expect(comparison.tradeoffs.map((t: { aspect: string }) => t.aspect)).toEqual(['performance', 'types']);
+      expect(comparison.verdict).toEqual(expect.any(String));
+    }
+    expect(Object.keys(output.compatibility)).toEqual(['drizzle', 'prisma', 'kysely']);
+  });
+
+  it('should print the head-to-head with the priorities as tradeoff aspects', async () => {
+    await compareCommand(['drizzle', 'prisma'], options({ priorities: 'performance,dx' }));
+
+    const text = printed();
+    expect(text).toContain('Scores for your requirements:');
+    expect(text).toMatch(/(Drizzle ORM vs Prisma|Prisma vs Drizzle ORM)/);
+    expect(text).toContain('Verdict:');
+    expect(text).toMatch(/Tradeoffs:\n\s+performance\s+.*\(\d+ vs \d+\)\n\s+dx\s+/);
+    expect(text).toContain('Compatibility notes:');
+  });
+});
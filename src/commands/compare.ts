@@ -0,0 +1,185 @@
+import chalk from 'chalk';
+import {
+  compareOptions,
+  createScoringContext,
+  generateComparison,
+  generateTradeoffAnalysis,
+  scoreOption,
+} from '../recommender/index.js';
+import type { OptionComparison, ScoredOption, TradeoffAnalysis } from '../recommender/types.js';
+import { getCompatibilityNotes, getOptionById, searchOptions } from '../knowledge/index.js';
+import type { AnyStackOption, StackOption } from '../knowledge/types.js';
+import { renderComparisonTable } from '../questionnaire/index.js';
+import { buildRequirements, splitList, type RequirementOptions } from './recommend.js';
+import { ExitCode, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+
+export interface CompareCommandOptions extends RequirementOptions {
+  with?: string;
+  aspects?: string;
+}
+
+// Tradeoff aspects used when neither --aspects nor --priorities is given
+const DEFAULT_ASPECTS = ['performance', 'types', 'serverless', 'ecosystem'];
+
+interface HeadToHead {
+  verdict: string;
+  comparison: OptionComparison;
+  tradeoffs: TradeoffAnalysis[];
+}
+
+export async function compareCommand(ids: string[], options: CompareCommandOptions): Promise<void> {
+  const candidates = resolveOptions([...new Set(ids)]);
+  if (candidates.length < 2) {
+    exitWithError('Pass at least two different options to compare', ExitCode.InvalidInput);
+  }
+
+  const categories = new Set(candidates.map(option => option.category));
+  if (categories.size > 1) {
+    const listed = candidates.map(option => `${option.id} (${option.category})`).join(', ');
+    exitWithError(`Options must belong to the same category: ${listed}`, ExitCode.InvalidInput);
+  }
+
+  // The rest of the stack feeds compatibility scoring and the notes shown below
+  const stack = splitList(options.with);
+  const selections: Record<string, string> = {};
+  for (const option of resolveOptions(stack)) {
+    selections[option.category] = option.id;
+  }
+
+  const requirements = { ...buildRequirements(options), existingStack: stack };
+  const context = createScoringContext(requirements, selections);
+  const ranking = candidates
+    .map(option => scoreOption<StackOption>(option, context))
+    .sort((a, b) => b.score - a.score);
+
+  const aspects = splitList(options.aspects);
+  if (aspects.length === 0) {
+    aspects.push(...(requirements.priorities.length > 0 ? requirements.priorities : DEFAULT_ASPECTS));
+  }
+
+  // Every challenger is compared against the top-ranked option
+  const leader = ranking[0];
+  const headToHead: HeadToHead[] = ranking.slice(1).map(challenger => ({
+    verdict: compareOptions(leader.option, challenger.option, context).verdict,
+    comparison: generateComparison(leader.option, challenger.option, leader.score, challenger.score),
+    tradeoffs: aspects.map(aspect => generateTradeoffAnalysis(leader.option, challenger.option, aspect)),
+  }));
+
+  const compatibility = Object.fromEntries(
+    candidates.map(option => [option.id, getCompatibilityNotes(option.id, stack.length > 0 ? stack : undefined)])
+  );
+
+  if (isJsonMode()) {
+    emitJson({
+      category: candidates[0].category,
+      requirements,
+      ranking: ranking.map(scored => ({
+        id: scored.option.id,
+        name: scored.option.name,
+        score: scored.score,
+        warnings: scored.warnings,
+      })),
+      comparisons: headToHead.map(({ verdict, comparison, tradeoffs }) => ({
+        optionA: comparison.optionA.id,
+        optionB: comparison.optionB.id,
+        winner: comparison.winner,
+        verdict,
+        prosA: comparison.prosA,
+        prosB: comparison.prosB,
+        consA: comparison.consA,
+        consB: comparison.consB,
+        tradeoffs,
+      })),
+      compatibility,
+    });
+    return;
+  }
+
+  console.log();
+  renderComparisonTable(ranking.map(scored => scored.option), leader.option.id);
+  printRanking(ranking);
+
+  for (const match of headToHead) {
+    printHeadToHead(match);
+  }
+
+  printCompatibility(candidates, compatibility, stack);
+}
+
+// Look up knowledge base options, failing with suggestions for unknown ids
+function resolveOptions(ids: string[]): AnyStackOption[] {
+  return ids.map(id => {
+    const option = getOptionById(id);
+    if (!option) {
+      const suggestions = searchOptions(id).slice(0, 3).map(match => match.id);
+      const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+      exitWithError(`Unknown option '${id}'.${hint}`, ExitCode.InvalidInput);
+    }
+    return option;
+  });
+}
+
+function printRanking(ranking: ScoredOption[]): void {
+  console.log(chalk.bold('Scores for your requirements:'));
+  for (const [index, scored] of ranking.entries()) {
+    const label = `${index + 1}. ${scored.option.name}`.padEnd(24);
+    console.log(`  ${index === 0 ? chalk.green(label) : label} ${Math.round(scored.score)}/100`);
+    for (const warning of scored.warnings) {
+      console.log(chalk.yellow(`     ⚠ ${warning.message}`));
+    }
+  }
+  console.log();
+}
+
+function printHeadToHead({ verdict, comparison, tradeoffs }: HeadToHead): void {
+  const { optionA, optionB } = comparison;
+
+  console.log(chalk.bold(`${optionA.name} vs ${optionB.name}`));
+  console.log(chalk.gray('─'.repeat(50)));
+  console.log(`  ${chalk.cyan('Verdict:')} ${verdict}`);
+
+  const sides: Array<[StackOption, string[], string[]]> = [
+    [optionA, comparison.prosA, comparison.consA],
+    [optionB, comparison.prosB, comparison.consB],
+  ];
+  for (const [option, pros, cons] of sides) {
+    if (pros.length === 0 && cons.length === 0) continue;
+    console.log(`\n  ${chalk.bold(option.name)}`);
+    pros.forEach(pro => console.log(chalk.green(`    + ${pro}`)));
+    cons.forEach(con => console.log(chalk.red(`    - ${con}`)));
+  }
+
+  console.log(`\n  ${chalk.bold('Tradeoffs:')}`);
+  for (const tradeoff of tradeoffs) {
+    const scores = chalk.dim(`(${tradeoff.optionA.score} vs ${tradeoff.optionB.score})`);
+    console.log(`    ${chalk.cyan(tradeoff.aspect.padEnd(14))} ${tradeoff.recommendation} ${scores}`);
+  }
+  console.log();
+}
+
+function printCompatibility(
+  candidates: AnyStackOption[],
+  compatibility: Record<string, ReturnType<typeof getCompatibilityNotes>>,
+  stack: string[]
+): void {
+  const title = stack.length > 0 ? `Compatibility with ${stack.join(', ')}:` : 'Compatibility notes:';
+  console.log(chalk.bold(title));
+
+  let printed = false;
+  for (const option of candidates) {
+    const notes = compatibility[option.id];
+    if (notes.length === 0) continue;
+    printed = true;
+    console.log(`  ${chalk.bold(option.name)}`);
+    for (const { target, compatible, note } of notes) {
+      const icon = compatible ? chalk.green('✓') : chalk.red('✗');
+      const detail = note ?? (compatible ? 'compatible' : 'not compatible');
+      console.log(`    ${icon} ${target}: ${detail}`);
+    }
+  }
+
+  if (!printed) {
+    console.log(chalk.dim('  No known compatibility notes'));
+  }
+  console.log();
+}
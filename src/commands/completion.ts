@@ -0,0 +1,16 @@
+import type { Command } from 'commander';
+import { buildCompletionSpec, generateCompletion, SHELLS, type Shell } from '../lib/completion.js';
+import { ExitCode, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+
+export async function completionCommand(shell: string, program: Command): Promise<void> {
+  if (!Object.prototype.hasOwnProperty.call(SHELLS, shell)) {
+    exitWithError(`Unsupported shell '${shell}'. Use one of: ${Object.keys(SHELLS).join(', ')}`, ExitCode.InvalidInput);
+  }
+
+  const script = generateCompletion(shell as Shell, buildCompletionSpec(program));
+  if (isJsonMode()) {
+    emitJson({ shell, script });
+    return;
+  }
+  process.stdout.write(script);
+}
@@ -0,0 +1,520 @@
+import chalk from 'chalk';
+import path from 'path';
+import fs from 'fs-extra';
+import { promptProjectConfig, validateProjectName } from '../lib/prompter.js';
+import { reviewProjectConfig } from '../lib/review.js';
+import { getPreset } from '../lib/presets.js';
+import { readProjectSpec, validateProjectSpec } from '../lib/spec.js';
+import { ProjectScaffolder } from '../core/ProjectScaffolder.js';
+import { validateStack, type LLMProvider, type StackValidationResult } from '../core/validator.js';
+import { runDoctor, formatDoctorResult, type DoctorResult } from '../core/doctor.js';
+import { previewProject, formatFileTree, formatSize, type ProjectPreview } from '../core/preview.js';
+import {
+  PACKAGE_MANAGERS,
+  devCommand,
+  planInstall,
+  resolvePackageManager,
+  runInstall,
+  type InstallResult,
+  type InstallStep,
+  type PackageManager,
+} from '../core/installer.js';
+import { bootstrapGit, resolveGitOptions, writeHookFiles, type GitResult, type HookSetup } from '../core/git.js';
+import {
+  TEMPLATE_MODES,
+  TemplateSourceError,
+  loadTemplateSource,
+  templateSetFor,
+  type TemplateMode,
+  type TemplateSource,
+} from '../core/templateSource.js';
+import { configManager, type Config } from '../core/ConfigManager.js';
+import { describeCollision, promptCollision } from '../lib/collisions.js';
+import type { FileCollision } from '../generator/types.js';
+import { logger } from '../utils/Logger.js';
+import { ExitCode, createSpinner, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+import type { Preset, ProjectConfig } from '../lib/types.js';
+
+export interface CreateCommandOptions {
+  preset?: string;
+  spec?: string;
+  directory: string;
+  dryRun?: boolean;
+  // Files whose rendered contents --dry-run prints
+  show?: string[];
+  // Directory laid out like src/templates, or a git URL (url#ref for a branch or tag)
+  template?: string;
+  templateMode?: string;
+  skipInstall?: boolean;
+  packageManager?: string;
+  skipGit?: boolean;
+  branch?: string;
+  commitMessage?: string;
+  gitAuthor?: string;
+  // --remote alone adds the GitHub remote
+  remote?: string | boolean;
+  sign?: boolean;
+  gitHooks?: boolean;
+  yes?: boolean;
+  // What to do with files that already exist in the project directory; asked per file otherwise
+  force?: boolean;
+  skipExisting?: boolean;
+  verbose?: boolean;
+  validate?: boolean;
+  provider: string;
+  rules: boolean;
+  doctor?: boolean;
+  requireTools?: boolean;
+  // Already-resolved config (e.g. from `kickoff recommend`); skips the spec and wizard
+  config?: ProjectConfig;
+}
+
+export async function createCommand(name: string | undefined, options: CreateCommandOptions): Promise<void> {
+  const json = isJsonMode();
+
+  if (options.verbose && !json) {
+    logger.setVerbose(true);
+  }
+
+  if (options.packageManager && !Object.prototype.hasOwnProperty.call(PACKAGE_MANAGERS, options.packageManager)) {
+    const allowed = Object.keys(PACKAGE_MANAGERS).map(manager => `'${manager}'`).join(', ');
+    exitWithError(`--package-manager must be one of ${allowed} (got '${options.packageManager}')`, ExitCode.InvalidInput);
+  }
+
+  if (options.force && options.skipExisting) {
+    exitWithError('--force and --skip-existing cannot be combined', ExitCode.InvalidInput);
+  }
+
+  await configManager.initialize();
+  const userConfig = await configManager.getConfig();
+  // The template source is checked before any question is asked
+  const templateSource = await loadTemplates(options, userConfig, json);
+  const templates = templateSource && templateSetFor(templateSource);
+
+  const config = options.config ?? (await resolveConfig(name, options));
+
+  if (!json) {
+    console.log('\n' + chalk.bold('Project Configuration:'));
+    console.log(chalk.gray('─'.repeat(40)));
+    console.log(`  ${chalk.cyan('Name:')} ${config.name}`);
+    console.log(`  ${chalk.cyan('Type:')} ${config.type}`);
+    console.log(`  ${chalk.cyan('Runtime:')} ${config.runtime}`);
+    console.log(`  ${chalk.cyan('Database:')} ${config.databaseProvider}${config.orm !== 'none' ? ` + ${config.orm}` : ''}`);
+    console.log(`  ${chalk.cyan('Auth:')} ${config.authProvider}`);
+    if (config.aiFramework !== 'none') {
+      console.log(`  ${chalk.cyan('AI:')} ${config.aiFramework}${config.vectorDB !== 'none' ? ` + ${config.vectorDB}` : ''}`);
+    }
+    console.log(chalk.gray('─'.repeat(40)));
+  }
+
+  // Stack validation (rules always run unless --no-rules, LLM when --validate)
+  let validation: StackValidationResult | undefined;
+  if (options.rules !== false || options.validate) {
+    if (!json) {
+      console.log('\n' + chalk.bold('Stack Validation:'));
+    }
+
+    const validationSpinner = createSpinner('Validating stack configuration...').start();
+
+    try {
+      validation = await validateStack(config, {
+        useLLM: options.validate,
+        provider: options.provider as LLMProvider,
+        verbose: options.verbose,
+      });
+      validationSpinner.stop();
+    } catch (validationError) {
+      validationSpinner.fail('Validation error');
+      if (!json) {
+        console.error(chalk.yellow('Warning: Validation failed, proceeding with caution'));
+        if (options.verbose) {
+          console.error(validationError);
+        }
+      }
+    }
+
+    if (validation && !json) {
+      console.log(validation.summary);
+
+      // Show LLM provider info if using validation
+      if (validation.valid && options.validate && validation.llmResult?.provider) {
+        console.log(chalk.dim(`\nUsed ${validation.llmResult.provider} for AI-enhanced validation`));
+      }
+    }
+
+    if (validation && !validation.valid) {
+      if (json) {
+        emitJson({
+          success: false,
+          exitCode: ExitCode.ValidationFailed,
+          error: 'Stack validation failed',
+          config,
+          validation: serializeValidation(validation),
+        });
+      } else {
+        console.log(chalk.red('\n⛔ Stack validation failed. Please fix the errors above before creating the project.'));
+        console.log(chalk.dim('Tip: Use different stack choices or review the compatibility issues.\n'));
+      }
+      process.exit(ExitCode.ValidationFailed);
+    }
+  }
+
+  // Toolchain preflight (skipped with --no-doctor, blocking with --require-tools)
+  let doctor: DoctorResult | undefined;
+  if (options.doctor !== false) {
+    const doctorSpinner = createSpinner('Checking toolchains...').start();
+    doctor = await runDoctor(config, { skipGit: options.skipGit });
+    doctorSpinner.stop();
+
+    if (!json && (doctor.errors.length > 0 || doctor.warnings.length > 0)) {
+      console.log('\n' + chalk.bold('Toolchain Check:'));
+      console.log(formatDoctorResult(doctor));
+    }
+
+    if (!doctor.ok && options.requireTools) {
+      if (json) {
+        emitJson({
+          success: false,
+          exitCode: ExitCode.MissingTools,
+          error: 'Required tools are missing',
+          config,
+          validation: serializeValidation(validation),
+          doctor,
+        });
+      } else {
+        console.log(chalk.red('\n⛔ Required tools are missing. Install them or drop --require-tools to scaffold anyway.\n'));
+      }
+      process.exit(ExitCode.MissingTools);
+    }
+  }
+
+  const projectPath = path.join(options.directory, config.name);
+
+  if (options.dryRun) {
+    const preview = await previewProject(config, templates);
+    const shown = pickShownFiles(preview, options.show ?? []);
+
+    if (json) {
+      const { rendered: _rendered, ...rest } = preview;
+      emitJson({
+        success: true,
+        dryRun: true,
+        projectPath,
+        config,
+        validation: serializeValidation(validation),
+        doctor,
+        templateSource: templates?.source ?? null,
+        preview: { ...rest, shown },
+      });
+    } else {
+      printPreview(projectPath, preview, shown);
+    }
+    return;
+  }
+
+  const existing = await fs.stat(projectPath).catch(() => null);
+  if (existing && !existing.isDirectory()) {
+    exitWithError(`${projectPath} exists and is not a directory`, ExitCode.InvalidInput, { config });
+  }
+  // An existing repository keeps its history and branch; kickoff only adds files to it
+  const existingRepo = existing !== null && await fs.pathExists(path.join(projectPath, '.git'));
+
+  const skipGit = options.skipGit ?? userConfig.skipGitByDefault ?? false;
+  let gitOptions: ReturnType<typeof resolveGitOptions> = {};
+  if (!skipGit) {
+    try {
+      gitOptions = resolveGitOptions(config, options, userConfig);
+    } catch (error) {
+      exitWithError(error instanceof Error ? error.message : String(error), ExitCode.InvalidInput, { config });
+    }
+  }
+
+  const spinner = createSpinner('Scaffolding project...').start();
+  // Without --force or --skip-existing, an interactive run asks about each existing file
+  const interactive = !json && !options.yes && !options.spec && process.stdin.isTTY && process.stdout.isTTY;
+  const resolveCollision = interactive && !options.force && !options.skipExisting
+    ? async (collision: FileCollision) => {
+      spinner.stop();
+      const resolution = await promptCollision(collision);
+      spinner.start('Scaffolding project...');
+      return resolution;
+    }
+    : undefined;
+
+  const result = await new ProjectScaffolder(templates).create(config, options.directory, {
+    overwrite: options.force,
+    skipExisting: options.skipExisting,
+    resolveCollision,
+  });
+  if (!result.success) {
+    spinner.fail('Scaffolding failed');
+    exitWithError(result.errors.join(', '), result.collidingFiles ? ExitCode.Conflicts : ExitCode.Error, { config, result });
+  }
+  spinner.succeed(`Project scaffolded from ${result.fragments.join(', ')}`);
+  if (existingRepo && !skipGit) {
+    result.warnings.push(`${projectPath} is already a git repository; git setup was skipped`);
+  }
+  if (!json) {
+    for (const decision of result.collisions) {
+      console.log(chalk.dim(`  ${describeCollision(decision)}`));
+    }
+    // Plan conflicts are part of the warnings
+    for (const warning of result.warnings) {
+      console.log(chalk.yellow(`  Warning: ${warning}`));
+    }
+  }
+  const runGit = !skipGit && !existingRepo;
+
+  const installOptions = {
+    packageManager: options.packageManager as PackageManager | undefined,
+    defaultPackageManager: userConfig.defaultPackageManager,
+  };
+  const packageManager = resolvePackageManager(config, installOptions);
+  const installSteps = await planInstall(config, projectPath, installOptions);
+  const skipInstall = options.skipInstall ?? userConfig.skipInstallByDefault ?? false;
+
+  // Hook config goes in before the install so husky is part of package.json and the lockfile
+  let hooks: HookSetup | undefined;
+  if (runGit && (options.gitHooks ?? userConfig.gitHooks)) {
+    try {
+      hooks = await writeHookFiles(config, projectPath, packageManager);
+    } catch (error) {
+      if (!json) {
+        console.log(chalk.yellow(`  Warning: git hooks were not set up: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    }
+  }
+
+  let install: InstallResult | undefined;
+  if (!skipInstall && installSteps.length > 0) {
+    if (!json) {
+      console.log('\n' + chalk.bold('Installing Dependencies:'));
+    }
+    install = await runInstall(projectPath, installSteps, packageManager);
+  }
+
+  let git: GitResult | undefined;
+  if (runGit) {
+    spinner.start('Initializing git repository...');
+    git = await bootstrapGit(config, projectPath, { ...gitOptions, hooks });
+    reportGit(spinner, git, json);
+  }
+
+  if (json) {
+    emitJson({
+      success: true,
+      projectPath: result.projectPath,
+      config,
+      validation: serializeValidation(validation),
+      doctor,
+      templateSource: templates?.source ?? null,
+      result,
+      install: install ?? null,
+      git: git ?? null,
+    });
+    return;
+  }
+
+  console.log('\n' + chalk.bold.green('Project created successfully!'));
+  const dev = await devCommand(config, projectPath, packageManager);
+  printNextSteps(config.name, installSteps, install, skipInstall, dev);
+}
+
+// Clone (for git URLs) and validate the template source from --template or the user config
+async function loadTemplates(
+  options: CreateCommandOptions,
+  userConfig: Config,
+  json: boolean
+): Promise<TemplateSource | undefined> {
+  const source = options.template ?? userConfig.template;
+  if (!source) return undefined;
+
+  const mode = (options.templateMode ?? userConfig.templateMode ?? 'overlay') as TemplateMode;
+  if (!TEMPLATE_MODES.includes(mode)) {
+    exitWithError(`--template-mode must be one of ${TEMPLATE_MODES.join(', ')} (got '${mode}')`, ExitCode.InvalidInput);
+  }
+
+  const spinner = createSpinner(`Loading templates from ${source}...`).start();
+  try {
+    const templateSource = await loadTemplateSource(source, mode);
+    // Clones live in a temp directory until kickoff exits, whichever way it does
+    process.once('exit', () => templateSource.dispose());
+    spinner.succeed(`Using templates from ${source} (${mode}, ${templateSource.revision})`);
+    return templateSource;
+  } catch (error) {
+    spinner.fail('Template source rejected');
+    if (error instanceof TemplateSourceError) {
+      if (json) {
+        exitWithError(`Invalid template source ${source}`, ExitCode.InvalidInput, { issues: error.issues });
+      }
+      console.log(chalk.red(error.message));
+      process.exit(ExitCode.InvalidInput);
+    }
+    throw error;
+  }
+}
+
+// One line for the bootstrap, then the exact step that failed
+function reportGit(spinner: ReturnType<typeof createSpinner>, git: GitResult, json: boolean): void {
+  const failed = git.steps.filter(step => !step.success);
+  if (!git.success) {
+    const step = failed[failed.length - 1];
+    spinner.fail(`Git initialization failed at \`${step.command}\`: ${step.error}`);
+    return;
+  }
+
+  const details = [git.branch && `on ${git.branch}`, git.remote && `with origin ${git.remote}`, git.hooks && `${git.hooks} hooks`];
+  spinner.succeed(`Git repository initialized ${details.filter(Boolean).join(', ')}`.trimEnd());
+  if (!json) {
+    for (const step of failed) {
+      console.log(chalk.yellow(`  Warning: \`${step.command}\` failed: ${step.error}`));
+    }
+  }
+}
+
+function formatStep(step: InstallStep): string {
+  return [step.command, ...step.args].join(' ');
+}
+
+// Next steps for what actually happened: pending or failed installs first, then the dev command
+function printNextSteps(
+  name: string,
+  installSteps: InstallStep[],
+  install: InstallResult | undefined,
+  skipInstall: boolean,
+  dev: string | undefined
+): void {
+  const steps = [`cd ${name}`];
+  const notes: string[] = [];
+
+  if (installSteps.length > 0) {
+    if (skipInstall) {
+      steps.push(...installSteps.map(formatStep));
+      notes.push('Dependencies were not installed (--skip-install)');
+    } else if (install && !install.success) {
+      const failed = install.steps.findIndex(step => !step.success);
+      steps.push(...installSteps.slice(failed).map(formatStep));
+      notes.push(`Dependency installation failed: ${install.steps[failed].error}`);
+    }
+  }
+  if (dev) {
+    steps.push(dev);
+  }
+
+  console.log('\n' + chalk.bold('Next steps:'));
+  console.log(chalk.gray('─'.repeat(40)));
+  steps.forEach((step, index) => console.log(`  ${chalk.cyan(`${index + 1}.`)} ${step}`));
+  console.log(chalk.gray('─'.repeat(40)));
+  for (const note of notes) {
+    console.log(chalk.yellow(`  ${note}`));
+  }
+  console.log('\n' + chalk.blue('Happy coding!') + '\n');
+}
+
+// Build the project config from a spec file, --yes defaults or the interactive wizard
+async function resolveConfig(name: string | undefined, options: CreateCommandOptions): Promise<ProjectConfig> {
+  if (options.preset && options.preset !== 'none' && !getPreset(options.preset as Preset)) {
+    exitWithError(
+      `Unknown preset: ${options.preset}. Run 'kickoff list' to see available presets.`,
+      ExitCode.InvalidInput
+    );
+  }
+
+  if (options.spec) {
+    const spec = validateProjectSpec(await readProjectSpec(options.spec), {
+      name,
+      preset: options.preset as Preset | undefined,
+    });
+    if (!spec.config) {
+      if (isJsonMode()) {
+        exitWithError(`Invalid spec ${options.spec}`, ExitCode.InvalidInput, { issues: spec.errors });
+      }
+      console.log(chalk.red(`\nInvalid spec ${options.spec}:`));
+      for (const issue of spec.errors) {
+        console.log(chalk.red(`  ✗ ${issue.path}: ${issue.message}`));
+      }
+      process.exit(ExitCode.InvalidInput);
+    }
+    return spec.config;
+  }
+
+  if (!name) {
+    exitWithError('A project name is required (or use --spec <file>)', ExitCode.InvalidInput);
+  }
+  const nameCheck = validateProjectName(name);
+  if (typeof nameCheck === 'string') {
+    exitWithError(nameCheck, ExitCode.InvalidInput);
+  }
+  if (isJsonMode() && !options.yes) {
+    exitWithError('--json cannot prompt; pass --spec <file> or --yes', ExitCode.InvalidInput);
+  }
+
+  const config = await promptProjectConfig({
+    name,
+    preset: options.preset,
+    useDefaults: options.yes,
+  });
+  // Last chance to fix an answer before anything is validated or written
+  return options.yes ? config : reviewProjectConfig(config);
+}
+
+// Rendered contents for --show paths (null when the preview has no such file)
+function pickShownFiles(preview: ProjectPreview, show: string[]): Record<string, string | null> {
+  const shown: Record<string, string | null> = {};
+  for (const requested of show) {
+    const file = requested.replace(/\\/g, '/').replace(/^\.\//, '');
+    const content = preview.rendered.get(file);
+    shown[file] = content === undefined ? null : content.toString();
+  }
+  return shown;
+}
+
+function printPreview(projectPath: string, preview: ProjectPreview, shown: Record<string, string | null>): void {
+  const totalSize = preview.files.reduce((sum, file) => sum + file.size, 0);
+
+  console.log(chalk.yellow(`\n[Dry Run] Would create ${preview.files.length} files (${formatSize(totalSize)}) at:`));
+  console.log(`  ${projectPath}\n`);
+  console.log(formatFileTree(preview.files, preview.directories));
+  console.log(chalk.dim(`\nFragments: ${preview.fragments.join(', ')}`));
+  for (const [file, fragments] of Object.entries(preview.merged)) {
+    console.log(chalk.dim(`Merged ${file} from ${fragments.join(', ')}`));
+  }
+  console.log(chalk.dim(`\nPlus ${preview.metadata.join(' and ')} for \`kickoff upgrade\``));
+
+  const sections: Array<[string, Record<string, string>]> = [
+    ['Dependencies', preview.dependencies],
+    ['Dev dependencies', preview.devDependencies],
+  ];
+  for (const [title, deps] of sections) {
+    const entries = Object.entries(deps);
+    if (entries.length === 0) continue;
+    console.log('\n' + chalk.bold(`${title}:`));
+    for (const [name, version] of entries) {
+      console.log(`  ${name.padEnd(32)} ${chalk.dim(version)}`);
+    }
+  }
+
+  if (preview.env.length > 0) {
+    console.log('\n' + chalk.bold('Environment variables:'));
+    for (const variable of preview.env) {
+      console.log(`  ${variable.name.padEnd(32)} ${chalk.dim(variable.value || '(empty)')}  ${chalk.gray(variable.file)}`);
+    }
+  }
+
+  for (const warning of preview.warnings) {
+    console.log(chalk.yellow(`\nWarning: ${warning}`));
+  }
+
+  for (const [file, content] of Object.entries(shown)) {
+    console.log('\n' + chalk.bold.cyan(`── ${file} ${'─'.repeat(Math.max(0, 36 - file.length))}`));
+    console.log(content ?? chalk.red(`${file} is not part of this project`));
+  }
+  console.log();
+}
+
+// StackValidationResult without the human-readable summary
+function serializeValidation(validation?: StackValidationResult) {
+  if (!validation) return null;
+  const { summary: _summary, ...rest } = validation;
+  return rest;
+}
@@ -0,0 +1,75 @@
+import chalk from 'chalk';
+import os from 'os';
+import path from 'path';
+import type { Command } from 'commander';
+import { buildDocs, DOCS_FILES, type DocsPage } from '../docs/index.js';
+import { openInBrowser, serveDirectory } from '../utils/browser.js';
+import { ExitCode, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+
+export interface DocsCommandOptions {
+  serve?: boolean;
+  port: string;
+  host: string;
+}
+
+export interface DocsBuildCommandOptions {
+  out: string;
+}
+
+const PAGE_TITLES: Record<DocsPage, string> = {
+  stacks: 'stack explorer',
+  usage: 'usage guide',
+};
+
+// Pages are rendered fresh on every open so they always match the installed version
+const DOCS_CACHE_DIR = path.join(os.tmpdir(), 'kickoff-docs');
+
+export async function docsCommand(page: DocsPage, program: Command, options: DocsCommandOptions): Promise<void> {
+  const port = Number(options.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    exitWithError(`--port must be a port number (got '${options.port}')`, ExitCode.InvalidInput);
+  }
+
+  const written = await buildDocs(DOCS_CACHE_DIR, program);
+
+  if (options.serve) {
+    const server = await serveDirectory(DOCS_CACHE_DIR, DOCS_FILES[page], port, options.host);
+    if (isJsonMode()) {
+      emitJson({ success: true, serving: server.url, path: written[page] });
+    } else {
+      console.log(chalk.green(`Serving the ${PAGE_TITLES[page]} at ${chalk.bold(server.url)}`));
+      console.log(chalk.dim('Press Ctrl+C to stop'));
+    }
+    return;
+  }
+
+  const result = await openInBrowser(written[page]);
+  if (isJsonMode()) {
+    emitJson({ success: result.opened, ...result, path: written[page] });
+  } else if (result.opened) {
+    console.log(chalk.green(`Opened ${PAGE_TITLES[page]} in browser`));
+  } else {
+    console.log(chalk.yellow(`Could not open a browser: ${result.error}`));
+    console.log(`The ${PAGE_TITLES[page]} is at ${written[page]}`);
+    console.log(chalk.dim('Run again with --serve to view it over HTTP (e.g. through an SSH tunnel)'));
+  }
+
+  if (!result.opened) {
+    process.exitCode = ExitCode.Error;
+  }
+}
+
+export async function docsBuildCommand(program: Command, options: DocsBuildCommandOptions): Promise<void> {
+  const outDir = path.resolve(options.out);
+  const written = await buildDocs(outDir, program);
+
+  if (isJsonMode()) {
+    emitJson({ success: true, files: Object.values(written) });
+    return;
+  }
+
+  console.log(chalk.green('Built documentation from the knowledge base:'));
+  for (const file of Object.values(written)) {
+    console.log(`  ${path.relative(process.cwd(), file) || file}`);
+  }
+}
@@ -0,0 +1,84 @@
+import chalk from 'chalk';
+import path from 'path';
+import fs from 'fs-extra';
+import { readProjectSpec, validateProjectSpec } from '../lib/spec.js';
+import { readManifest, MANIFEST_FILE } from '../core/manifest.js';
+import { runDoctor, formatDoctorResult } from '../core/doctor.js';
+import { ExitCode, createSpinner, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+export interface DoctorCommandOptions {
+  spec?: string;
+  preset?: string;
+  skipGit?: boolean;
+}
+
+export async function doctorCommand(target: string | undefined, options: DoctorCommandOptions): Promise<void> {
+  const json = isJsonMode();
+  const { source, config } = await loadConfig(target, options);
+
+  const spinner = createSpinner('Checking toolchains...').start();
+  const result = await runDoctor(config, { skipGit: options.skipGit });
+  spinner.stop();
+
+  if (json) {
+    emitJson({ source, config: config ?? null, ...result });
+  } else {
+    console.log(chalk.bold(`\nToolchain check (${source}):\n`));
+    console.log(formatDoctorResult(result));
+    console.log();
+  }
+
+  if (!result.ok) {
+    process.exitCode = ExitCode.MissingTools;
+  }
+}
+
+// Pick the config to check: a spec file, a preset, a generated project, or none (check every tool)
+async function loadConfig(
+  target: string | undefined,
+  options: DoctorCommandOptions
+): Promise<{ source: string; config?: ProjectConfig }> {
+  const specPath = options.spec ?? target;
+
+  if (specPath && !(await isDirectory(specPath))) {
+    const data = await readProjectSpec(specPath);
+    return { source: specPath, config: toConfig(specPath, { ...(data as object), preset: options.preset }) };
+  }
+
+  if (options.preset) {
+    return { source: `preset ${options.preset}`, config: toConfig(`preset ${options.preset}`, { preset: options.preset }) };
+  }
+
+  const projectDir = path.resolve(specPath ?? process.cwd());
+  const manifest = await readManifest(projectDir);
+  if (manifest?.config) {
+    return { source: path.join(projectDir, MANIFEST_FILE), config: manifest.config };
+  }
+  if (specPath) {
+    exitWithError(`No ${MANIFEST_FILE} with a project config found in ${projectDir}`, ExitCode.InvalidInput);
+  }
+
+  return { source: 'all known tools' };
+}
+
+function toConfig(source: string, data: Record<string, unknown>): ProjectConfig {
+  if (data.preset === undefined) delete data.preset;
+  // The name does not affect which tools are needed
+  const spec = validateProjectSpec({ name: 'project', ...data });
+  if (!spec.config) {
+    if (isJsonMode()) {
+      exitWithError(`Invalid configuration from ${source}`, ExitCode.InvalidInput, { issues: spec.errors });
+    }
+    console.log(chalk.red(`\nInvalid configuration from ${source}:`));
+    for (const issue of spec.errors) {
+      console.log(chalk.red(`  ✗ ${issue.path}: ${issue.message}`));
+    }
+    process.exit(ExitCode.InvalidInput);
+  }
+  return spec.config;
+}
+
+async function isDirectory(target: string): Promise<boolean> {
+  return (await fs.pathExists(target)) && (await fs.stat(target)).isDirectory();
+}
@@ -0,0 +1,198 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { recommendStack, generateStackSummary } from '../recommender/index.js';
+import type {
+  BudgetLevel,
+  ExperienceLevel,
+  ScaleRequirement,
+  StackRecommendation,
+  TimelineUrgency,
+  UserRequirements,
+} from '../recommender/types.js';
+import type { ProjectType, Runtime } from '../knowledge/types.js';
+import { mapRecommendationToConfig } from '../lib/mapper.js';
+import { validateProjectSpec } from '../lib/spec.js';
+import { validateProjectName } from '../lib/prompter.js';
+import { createCommand } from './create.js';
+import { ExitCode, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+
+// Requirement flags shared by `recommend` and `compare`
+export interface RequirementOptions {
+  type: string;
+  runtime: string;
+  budget: string;
+  experience: string;
+  scale: string;
+  timeline: string;
+  priorities?: string;
+  features?: string;
+  niceToHave?: string;
+  exclude?: string;
+  prefer?: string;
+}
+
+export interface RecommendCommandOptions extends RequirementOptions {
+  create?: string;
+  directory: string;
+  skipGit?: boolean;
+}
+
+const PROJECT_TYPES: Record<ProjectType, true> = {
+  'web-app': true,
+  'api': true,
+  'cli': true,
+  'library': true,
+  'ai-app': true,
+  'static-site': true,
+  'mcp-server': true,
+  'worker': true,
+};
+
+const RUNTIMES: Record<Runtime, true> = { node: true, bun: true, deno: true, python: true, go: true, rust: true };
+
+const BUDGETS: Record<BudgetLevel, true> = { free: true, low: true, medium: true, high: true, unlimited: true };
+
+const EXPERIENCE_LEVELS: Record<ExperienceLevel, true> = {
+  beginner: true,
+  intermediate: true,
+  advanced: true,
+  expert: true,
+};
+
+const SCALES: Record<ScaleRequirement, true> = {
+  prototype: true,
+  small: true,
+  medium: true,
+  large: true,
+  enterprise: true,
+};
+
+const TIMELINES: Record<TimelineUrgency, true> = { urgent: true, normal: true, flexible: true };
+
+// Allowed values of each single-choice requirement flag
+export const REQUIREMENT_CHOICES = {
+  type: PROJECT_TYPES,
+  runtime: RUNTIMES,
+  budget: BUDGETS,
+  experience: EXPERIENCE_LEVELS,
+  scale: SCALES,
+  timeline: TIMELINES,
+};
+
+const CATEGORY_LABELS: Array<[keyof StackRecommendation, string]> = [
+  ['frontend', 'Frontend'],
+  ['backend', 'Backend'],
+  ['database', 'Database'],
+  ['orm', 'ORM'],
+  ['auth', 'Auth'],
+  ['ai', 'AI'],
+  ['vectorDb', 'VectorDB'],
+];
+
+export async function recommendCommand(options: RecommendCommandOptions): Promise<void> {
+  const json = isJsonMode();
+  const requirements = buildRequirements(options);
+  const recommendation = recommendStack(requirements);
+  const { config, skipped } = mapRecommendationToConfig(recommendation, requirements);
+
+  // With --create the create command reports the outcome (and owns the JSON document)
+  if (!(json && options.create)) {
+    if (json) {
+      emitJson({ requirements, recommendation, config, skipped });
+    } else {
+      printRecommendation(recommendation, skipped);
+    }
+  }
+
+  const name = options.create ?? (json ? undefined : await offerScaffold());
+  if (!name) {
+    if (!json) {
+      console.log(chalk.dim('Scaffold this stack with: kickoff recommend <flags> --create <name>\n'));
+    }
+    return;
+  }
+
+  const spec = validateProjectSpec({ ...config, name });
+  if (!spec.config) {
+    exitWithError(
+      `Cannot scaffold the recommended stack: ${spec.errors.map(issue => `${issue.path} ${issue.message}`).join('; ')}`,
+      ExitCode.InvalidInput,
+      { issues: spec.errors }
+    );
+  }
+
+  await createCommand(name, {
+    directory: options.directory,
+    skipGit: options.skipGit,
+    yes: true,
+    provider: 'auto',
+    rules: true,
+    config: spec.config,
+  });
+}
+
+// Turn CLI flags into recommender requirements, rejecting unknown values
+export function buildRequirements(options: RequirementOptions): UserRequirements {
+  return {
+    projectType: checkChoice('type', options.type, REQUIREMENT_CHOICES.type),
+    runtime: checkChoice('runtime', options.runtime, REQUIREMENT_CHOICES.runtime),
+    budget: checkChoice('budget', options.budget, REQUIREMENT_CHOICES.budget),
+    experience: checkChoice('experience', options.experience, REQUIREMENT_CHOICES.experience),
+    scale: checkChoice('scale', options.scale, REQUIREMENT_CHOICES.scale),
+    timeline: checkChoice('timeline', options.timeline, REQUIREMENT_CHOICES.timeline),
+    priorities: splitList(options.priorities),
+    mustHaveFeatures: splitList(options.features),
+    niceToHaveFeatures: splitList(options.niceToHave),
+    excludeOptions: splitList(options.exclude),
+    preferredOptions: splitList(options.prefer),
+    existingStack: [],
+  };
+}
+
+export function checkChoice<T extends string>(flag: string, value: string, choices: Record<T, true>): T {
+  if (!Object.prototype.hasOwnProperty.call(choices, value)) {
+    const allowed = Object.keys(choices).map(choice => `'${choice}'`).join(', ');
+    exitWithError(`--${flag} must be one of ${allowed} (got '${value}')`, ExitCode.InvalidInput);
+  }
+  return value as T;
+}
+
+export function splitList(value: string | undefined): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+function printRecommendation(recommendation: StackRecommendation, skipped: string[]): void {
+  console.log();
+  console.log(generateStackSummary(recommendation));
+
+  const alternatives = CATEGORY_LABELS.flatMap(([key, label]) => {
+    const category = recommendation[key] as StackRecommendation['database'];
+    if (!category || category.alternatives.length === 0) return [];
+    const names = category.alternatives.map(alt => `${alt.option.name} (${Math.round(alt.score)})`);
+    return [`   ${(label + ':').padEnd(10)} ${names.join(' · ')}`];
+  });
+  if (alternatives.length > 0) {
+    console.log('🔀 Alternatives:');
+    console.log(alternatives.join('\n'));
+    console.log();
+  }
+
+  for (const item of skipped) {
+    console.log(chalk.yellow(`Note: kickoff has no template for ${item}; it will be left out when scaffolding.`));
+  }
+}
+
+// Ask whether to scaffold the stack now; returns the project name or undefined
+async function offerScaffold(): Promise<string | undefined> {
+  if (!process.stdin.isTTY) return undefined;
+
+  const { scaffold } = await inquirer.prompt([
+    { type: 'confirm', name: 'scaffold', message: 'Scaffold this stack now?', default: true },
+  ]);
+  if (!scaffold) return undefined;
+
+  const { name } = await inquirer.prompt([
+    { type: 'input', name: 'name', message: 'Project name (kebab-case):', validate: validateProjectName },
+  ]);
+  return name;
+}
@@ -0,0 +1,66 @@
+import chalk from 'chalk';
+import { searchCatalog, SEARCH_CATEGORIES, type SearchResult } from '../lib/search.js';
+import { checkChoice, REQUIREMENT_CHOICES } from './recommend.js';
+import { ExitCode, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+
+export interface SearchCommandOptions {
+  category?: string;
+  runtime?: string;
+  free?: boolean;
+  limit?: string;
+}
+
+export async function searchCommand(term: string, options: SearchCommandOptions): Promise<void> {
+  const filters = {
+    category: options.category ? checkChoice('category', options.category, SEARCH_CATEGORIES) : undefined,
+    runtime: options.runtime ? checkChoice('runtime', options.runtime, REQUIREMENT_CHOICES.runtime) : undefined,
+    free: options.free,
+  };
+
+  const limit = options.limit === undefined ? 20 : Number(options.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    exitWithError(`--limit must be a positive integer (got '${options.limit}')`, ExitCode.InvalidInput);
+  }
+
+  const results = searchCatalog(term, filters);
+  const shown = results.slice(0, limit);
+
+  if (isJsonMode()) {
+    emitJson({ term, filters, total: results.length, results: shown });
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log(chalk.yellow(`\nNo presets or options match '${term}'.`));
+    console.log(chalk.dim('Try a shorter term or fewer filters.\n'));
+    return;
+  }
+
+  console.log(chalk.bold(`\n${results.length} match${results.length === 1 ? '' : 'es'} for '${term}':\n`));
+  printResults(shown);
+
+  if (results.length > shown.length) {
+    console.log(chalk.dim(`\n  ...and ${results.length - shown.length} more (use --limit to show them)`));
+  }
+
+  console.log();
+  if (shown.some(result => result.category === 'preset')) {
+    console.log(chalk.dim('Use a preset:       kickoff create <name> --preset <id>'));
+  }
+  if (shown.some(result => result.category !== 'preset')) {
+    console.log(chalk.dim('Compare options:    kickoff compare <id> <id>'));
+  }
+}
+
+function printResults(results: SearchResult[]): void {
+  const idWidth = Math.max(...results.map(result => result.id.length));
+  const categoryWidth = Math.max(...results.map(result => result.category.length));
+
+  for (const result of results) {
+    const free = result.free ? chalk.green(' free') : '';
+    console.log(
+      `  ${chalk.magenta(result.id.padEnd(idWidth))}  ${chalk.cyan(result.category.padEnd(categoryWidth))}  ${result.name}${free}`
+    );
+    console.log(chalk.dim(`  ${' '.repeat(idWidth + categoryWidth + 4)}${result.description}`));
+  }
+}
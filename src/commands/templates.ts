@@ -0,0 +1,70 @@
+import chalk from 'chalk';
+import { runSmokeTests, type SmokeCaseResult } from '../core/smoke.js';
+import { getPreset } from '../lib/presets.js';
+import { ExitCode, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+import type { Preset } from '../lib/types.js';
+
+export interface TemplatesTestCommandOptions {
+  preset?: string[];
+  sample?: string;
+  seed: string;
+  keep?: string;
+}
+
+function parseCount(value: string, flag: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    exitWithError(`${flag} must be a non-negative integer (got '${value}')`, ExitCode.InvalidInput);
+  }
+  return count;
+}
+
+function printCase(result: SmokeCaseResult): void {
+  if (result.issues.length === 0) {
+    console.log(`${chalk.green('✓')} ${result.name} ${chalk.dim(`(${result.files} files)`)}`);
+    return;
+  }
+  console.log(`${chalk.red('✗')} ${result.name} ${chalk.dim(`(${result.fragments.join(', ')})`)}`);
+  for (const issue of result.issues) {
+    console.log(chalk.red(`    [${issue.check}] ${issue.file ? `${issue.file}: ` : ''}${issue.message}`));
+  }
+}
+
+export async function templatesTestCommand(options: TemplatesTestCommandOptions): Promise<void> {
+  const json = isJsonMode();
+
+  for (const preset of options.preset ?? []) {
+    if (preset === 'none' || !getPreset(preset as Preset)) {
+      exitWithError(`Unknown preset: ${preset}. Run 'kickoff list' to see available presets.`, ExitCode.InvalidInput);
+    }
+  }
+
+  const seed = parseCount(options.seed, '--seed');
+  const report = await runSmokeTests(
+    {
+      presets: options.preset,
+      sample: options.sample !== undefined ? parseCount(options.sample, '--sample') : undefined,
+      seed,
+      keepDir: options.keep,
+    },
+    json ? undefined : printCase
+  );
+
+  const failed = report.cases.filter(result => result.issues.length > 0);
+  if (json) {
+    emitJson({ success: report.ok, ...report });
+  } else {
+    for (const notice of report.notices) {
+      console.log(chalk.yellow(`\nNote: ${notice}`));
+    }
+    const summary = `${report.cases.length - failed.length}/${report.cases.length} cases passed (seed ${seed})`;
+    console.log('\n' + (report.ok ? chalk.green(summary) : chalk.red(summary)));
+    if (options.keep) {
+      console.log(chalk.dim(`Rendered projects kept in ${options.keep}`));
+    }
+  }
+
+  if (!report.ok) {
+    process.exitCode = ExitCode.ValidationFailed;
+  }
+}
@@ -0,0 +1,75 @@
+import chalk from 'chalk';
+import path from 'path';
+import { upgradeProject, type UpgradeStatus } from '../core/upgrade.js';
+import { ExitCode, emitJson, isJsonMode } from '../utils/output.js';
+
+export interface UpgradeCommandOptions {
+  directory: string;
+  dryRun?: boolean;
+  template?: string;
+}
+
+const STATUS_STYLES: Record<UpgradeStatus, { symbol: string; color: (text: string) => string }> = {
+  unchanged: { symbol: '=', color: chalk.dim },
+  'auto-merged': { symbol: '~', color: chalk.cyan },
+  conflicted: { symbol: '!', color: chalk.red },
+  new: { symbol: '+', color: chalk.green },
+  removed: { symbol: '-', color: chalk.yellow },
+};
+
+export async function upgradeCommand(options: UpgradeCommandOptions): Promise<void> {
+  const projectDir = path.resolve(options.directory);
+  const result = await upgradeProject(projectDir, { dryRun: options.dryRun, template: options.template });
+
+  if (isJsonMode()) {
+    const exitCode = !result.success
+      ? ExitCode.InvalidInput
+      : result.conflicts > 0 ? ExitCode.Conflicts : ExitCode.Success;
+    emitJson({ ...result, exitCode, dryRun: Boolean(options.dryRun) });
+    process.exitCode = exitCode;
+    return;
+  }
+
+  for (const warning of result.warnings) {
+    console.log(chalk.yellow(`⚠ ${warning}`));
+  }
+
+  if (!result.success) {
+    for (const error of result.errors) {
+      console.log(chalk.red(`✗ ${error}`));
+    }
+    process.exit(ExitCode.InvalidInput);
+  }
+
+  const title = options.dryRun ? 'Upgrade preview for' : 'Upgraded';
+  console.log('\n' + chalk.bold(`${title} ${path.basename(projectDir)} (${result.fromVersion} → ${result.toVersion})`));
+  console.log(chalk.gray('─'.repeat(60)));
+
+  const counts: Record<UpgradeStatus, number> = { unchanged: 0, 'auto-merged': 0, conflicted: 0, new: 0, removed: 0 };
+  for (const outcome of result.files) {
+    counts[outcome.status]++;
+    if (outcome.status === 'unchanged' && !outcome.detail) continue;
+    const style = STATUS_STYLES[outcome.status];
+    const detail = outcome.detail ? chalk.dim(` (${outcome.detail})`) : '';
+    console.log(`  ${style.color(style.symbol)} ${outcome.file} ${style.color(outcome.status)}${detail}`);
+  }
+
+  console.log(chalk.gray('─'.repeat(60)));
+  console.log(
+    (Object.keys(counts) as UpgradeStatus[])
+      .map(status => `${counts[status]} ${status}`)
+      .join(', ')
+  );
+
+  if (options.dryRun) {
+    console.log(chalk.dim('\nDry run: no files were changed.'));
+  }
+
+  if (result.conflicts > 0) {
+    console.log(chalk.red(`\n${result.conflicts} conflict(s) need attention.`));
+    if (!options.dryRun) {
+      console.log(chalk.dim('Resolve the <<<<<<< / >>>>>>> markers in the files listed above.'));
+    }
+    process.exit(ExitCode.Conflicts);
+  }
+}
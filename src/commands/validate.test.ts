@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { validateCommand } from './validate.js';
+import { ExitCode, setJsonMode } from '../utils/output.js';
+
+describe('validateCommand', () => {
+  let dir: string;
+  let log: MockInstance<typeof console.log>;
+
+  const spec = async (content: string) => {
+    const file = path.join(dir, 'kickoff.yaml');
+    await fs.outputFile(file, content);
+    return file;
+  };
+  const printed = () => log.mock.calls.map(args => args.join(' ')).join('\n');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-validate-test-'));
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`exit ${code}`);
+    }) as typeof process.exit);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    setJsonMode(false);
+    process.exitCode = undefined;
+    await fs.remove(dir);
+  });
+
+  it('should report a valid spec and leave the exit code at 0', async () => {
+    setJsonMode(true);
+    const file = await spec('name: shop\npreset: saas-starter\n');
+
+    await validateCommand(file, { provider: 'auto' });
+
+    const output = JSON.parse(printed());
+    expect(output).toMatchObject({ source: file, valid: true, config: { name: 'shop', type: 'nextjs', orm: 'drizzle' } });
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('should exit 3 when the stack breaks a rule', async () => {
+    setJsonMode(true);
+    const file = await spec('type: nextjs\ndatabaseProvider: d1\norm: prisma\n');
+
+    await validateCommand(file, { provider: 'auto' });
+
+    const output = JSON.parse(printed());
+    expect(output.valid).toBe(false);
+    expect(output.rulesResult.errors.map((e: { id: string }) => e.id)).toEqual(['d1-requires-drizzle']);
+    expect(process.exitCode).toBe(ExitCode.ValidationFailed);
+
+    // Flags override the spec
+    log.mockClear();
+    process.exitCode = undefined;
+    await validateCommand(file, { provider: 'auto', orm: 'drizzle' });
+    expect(JSON.parse(printed()).valid).toBe(true);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('should exit 2 with the path of every invalid field', async () => {
+    const file = await spec('type: rails\nport: 70000\ndatabse: neon\n');
+
+    await expect(validateCommand(file, { provider: 'auto' })).rejects.toThrow(`exit ${ExitCode.InvalidInput}`);
+    expect(printed()).toMatch(/✗ type: .*\(got 'rails'\)\n.*✗ port: .*\n.*✗ databse: unknown field/);
+
+    log.mockClear();
+    setJsonMode(true);
+    await expect(validateCommand(file, { provider: 'auto' })).rejects.toThrow(`exit ${ExitCode.InvalidInput}`);
+    const output = JSON.parse(printed());
+    expect(output).toMatchObject({ success: false, exitCode: ExitCode.InvalidInput, error: `Invalid configuration from ${file}` });
+    expect(output.issues.map((issue: { path: string }) => issue.path)).toEqual(['type', 'port', 'databse']);
+  });
+
+  it('should exit 2 when there is nothing to validate', async () => {
+    setJsonMode(true);
+
+    await expect(validateCommand(dir, { provider: 'auto' })).rejects.toThrow(`exit ${ExitCode.InvalidInput}`);
+    expect(JSON.parse(printed()).error).toContain('No .kickoff.json with a project config found');
+  });
+});
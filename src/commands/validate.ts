@@ -0,0 +1,127 @@
+import chalk from 'chalk';
+import path from 'path';
+import fs from 'fs-extra';
+import { readProjectSpec, validateProjectSpec, type ProjectSpec } from '../lib/spec.js';
+import { readManifest, MANIFEST_FILE } from '../core/manifest.js';
+import { validateStack, type LLMProvider } from '../core/validator.js';
+import { ExitCode, createSpinner, emitJson, exitWithError, isJsonMode } from '../utils/output.js';
+
+export interface ValidateCommandOptions {
+  spec?: string;
+  preset?: string;
+  type?: string;
+  runtime?: string;
+  framework?: string;
+  db?: string;
+  orm?: string;
+  auth?: string;
+  vectorDb?: string;
+  embedding?: string;
+  localAi?: string;
+  ai?: string;
+  webServer?: string;
+  validate?: boolean;
+  provider: string;
+  verbose?: boolean;
+}
+
+// Flag name -> ProjectConfig field
+export const FLAG_FIELDS: Record<string, keyof ProjectSpec> = {
+  preset: 'preset',
+  type: 'type',
+  runtime: 'runtime',
+  framework: 'serverFramework',
+  db: 'databaseProvider',
+  orm: 'orm',
+  auth: 'authProvider',
+  vectorDb: 'vectorDB',
+  embedding: 'embeddingProvider',
+  localAi: 'localAI',
+  ai: 'aiFramework',
+  webServer: 'webServer',
+};
+
+export async function validateCommand(target: string | undefined, options: ValidateCommandOptions): Promise<void> {
+  const json = isJsonMode();
+  const { source, data } = await loadTarget(target, options);
+
+  const overrides: Record<string, unknown> = {};
+  for (const [flag, field] of Object.entries(FLAG_FIELDS)) {
+    const value = options[flag as keyof ValidateCommandOptions];
+    if (value !== undefined) {
+      overrides[field] = value;
+    }
+  }
+
+  // The name does not affect validation, so a spec may omit it here
+  const spec = validateProjectSpec({ name: 'project', ...data, ...overrides });
+  if (!spec.config) {
+    if (json) {
+      exitWithError(`Invalid configuration from ${source}`, ExitCode.InvalidInput, { issues: spec.errors });
+    }
+    console.log(chalk.red(`\nInvalid configuration from ${source}:`));
+    for (const issue of spec.errors) {
+      console.log(chalk.red(`  ✗ ${issue.path}: ${issue.message}`));
+    }
+    process.exit(ExitCode.InvalidInput);
+  }
+  const config = spec.config;
+
+  const spinner = createSpinner('Validating stack configuration...').start();
+  const validation = await validateStack(config, {
+    useLLM: options.validate,
+    provider: options.provider as LLMProvider,
+    verbose: options.verbose,
+  });
+  spinner.stop();
+
+  if (json) {
+    const { summary: _summary, ...rest } = validation;
+    emitJson({ source, config, ...rest });
+  } else {
+    console.log(chalk.dim(`Validating ${source}\n`));
+    console.log(validation.summary);
+    if (options.validate && validation.llmResult?.provider) {
+      console.log(chalk.dim(`\nUsed ${validation.llmResult.provider} for AI-enhanced validation`));
+    }
+  }
+
+  if (!validation.valid) {
+    process.exitCode = ExitCode.ValidationFailed;
+  }
+}
+
+// Read the configuration to validate: a spec file, a generated project, or nothing (flags only)
+async function loadTarget(
+  target: string | undefined,
+  options: ValidateCommandOptions
+): Promise<{ source: string; data: Record<string, unknown> }> {
+  const hasFlags = Object.keys(FLAG_FIELDS).some(flag => options[flag as keyof ValidateCommandOptions] !== undefined);
+  const specPath = options.spec ?? target;
+
+  if (specPath && !(await isDirectory(specPath))) {
+    const data = await readProjectSpec(specPath);
+    if (data !== null && data !== undefined && (typeof data !== 'object' || Array.isArray(data))) {
+      exitWithError(`${specPath} must contain a mapping of ProjectConfig fields`, ExitCode.InvalidInput);
+    }
+    return { source: specPath, data: (data ?? {}) as Record<string, unknown> };
+  }
+
+  const projectDir = path.resolve(specPath ?? process.cwd());
+  const manifest = await readManifest(projectDir);
+  if (manifest?.config) {
+    return { source: path.join(projectDir, MANIFEST_FILE), data: { ...manifest.config } };
+  }
+
+  if (specPath || !hasFlags) {
+    exitWithError(
+      `No ${MANIFEST_FILE} with a project config found in ${projectDir}. Pass a spec file, a generated project or stack flags.`,
+      ExitCode.InvalidInput
+    );
+  }
+  return { source: 'command-line flags', data: {} };
+}
+
+async function isDirectory(target: string): Promise<boolean> {
+  return (await fs.pathExists(target)) && (await fs.stat(target)).isDirectory();
+}
@@ -11,6 +11,19 @@ export interface Config {
   skipGitByDefault?: boolean;
   skipInstallByDefault?: boolean;
   verboseByDefault?: boolean;
+  // Initial branch of new repositories (git's init.defaultBranch when unset)
+  gitBranch?: string;
+  // Initial commit message; a Handlebars template such as 'chore: scaffold {{projectName}}'
+  gitCommitMessage?: string;
+  // 'Name <email>' for the initial commit
+  gitAuthor?: string;
+  // 'github' for https://github.com/<githubUsername>/<name>.git, or any remote URL
+  gitRemote?: string;
+  gitSign?: boolean;
+  gitHooks?: boolean;
+  // Template source for every project: a directory laid out like src/templates, or a git URL
+  template?: string;
+  templateMode?: 'overlay' | 'replace';
 }
 
 export class ConfigManager {
@@ -104,6 +117,10 @@ export class ConfigManager {
     if (cfg.defaultPackageManager && !['npm', 'yarn', 'pnpm', 'bun'].includes(cfg.defaultPackageManager as string)) {
       throw new Error('defaultPackageManager must be one of: npm, yarn, pnpm, bun');
     }
+
+    if (cfg.templateMode && !['overlay', 'replace'].includes(cfg.templateMode as string)) {
+      throw new Error('templateMode must be one of: overlay, replace');
+    }
   }
 
   private applyEnvironmentOverrides(): void {
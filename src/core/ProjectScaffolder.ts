@@ -2,13 +2,28 @@ import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { TemplateEngine, TemplateContext, createTemplateEngine } from './TemplateEngine.js';
+import { outputName, renderTemplateFile } from './renderers.js';
 import { Logger, logger } from '../utils/Logger.js';
+import { MANIFEST_FILE, RenderedFiles } from './manifest.js';
+import { bundledTemplates, planGeneration, type TemplateSet } from '../generator/engine.js';
+import { GenerationError, renderGeneratedFiles, writeProjectFiles } from '../generator/merger.js';
+import { stageOutput } from './staging.js';
+import { CollisionError, resolveCollisions } from '../generator/collisions.js';
+import { mapConfigToContext, selectFragmentsFromConfig } from '../lib/mapper.js';
+import type {
+  CollisionDecision,
+  FileGenerationOptions,
+  GenerationPlan,
+  GeneratorContext,
+  TemplateFragment,
+} from '../generator/types.js';
 import type { ProjectConfig } from '../lib/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-export interface ScaffoldingOptions {
+// The project directory may already exist; these decide what happens to files it already has
+export interface ScaffoldingOptions extends Pick<FileGenerationOptions, 'overwrite' | 'skipExisting' | 'resolveCollision'> {
   skipInstall?: boolean;
   skipGit?: boolean;
   dryRun?: boolean;
@@ -18,10 +33,24 @@ export interface ScaffoldingResult {
   success: boolean;
   projectPath: string;
   filesCreated: string[];
+  collisions: CollisionDecision[];
+  // Existing files that would have changed, when no option said what to do with them
+  collidingFiles?: string[];
+  // Generator fragments applied, in order
+  fragments: string[];
+  conflicts: GenerationPlan['conflicts'];
   errors: string[];
   warnings: string[];
 }
 
+// A ProjectConfig resolved to generator fragments
+export interface ProjectPlan {
+  context: GeneratorContext;
+  plan: GenerationPlan;
+  warnings: string[];
+  errors: string[];
+}
+
 function toKebabCase(str: string): string {
   return str.toLowerCase().replace(/\s+/g, '-');
 }
@@ -80,6 +109,7 @@ export function buildContext(config: ProjectConfig): TemplateContext {
     usesMysql: mysqlProviders.includes(config.databaseProvider),
     usesMongo: mongoProviders.includes(config.databaseProvider),
     usesBaaS: baasProviders.includes(config.databaseProvider),
+    usesPrisma: config.orm === 'prisma',
     needsDocker:
       dockerDatabases.includes(config.databaseProvider) ||
       dockerVectorDBs.includes(config.vectorDB) ||
@@ -102,13 +132,23 @@ export function buildContext(config: ProjectConfig): TemplateContext {
   };
 }
 
+/**
+ * The context every template sees, whichever engine renders it: buildContext() values plus,
+ * for the generator, its selections and features
+ */
+export function buildTemplateContext(config: ProjectConfig, generatorContext?: GeneratorContext): TemplateContext {
+  return { ...buildContext(config), ...generatorContext };
+}
+
 export class ProjectScaffolder {
   private templateEngine: TemplateEngine;
   private logger: Logger;
+  private templates: TemplateSet;
 
-  constructor() {
+  constructor(templates: TemplateSet = bundledTemplates()) {
     this.templateEngine = createTemplateEngine();
     this.logger = logger;
+    this.templates = templates;
   }
 
   async create(config: ProjectConfig, outputDir: string, options: ScaffoldingOptions = {}): Promise<ScaffoldingResult> {
@@ -116,127 +156,176 @@ export class ProjectScaffolder {
       success: false,
       projectPath: path.join(outputDir, config.name),
       filesCreated: [],
+      collisions: [],
+      fragments: [],
+      conflicts: [],
       errors: [],
       warnings: []
     };
 
-    const totalSteps = 5;
+    const totalSteps = 6;
     let currentStep = 0;
 
     try {
       currentStep++;
-      this.logger.step(currentStep, totalSteps, 'Building template context...');
-      const context = buildContext(config);
-      this.logger.success('Context built');
-
-      currentStep++;
-      this.logger.step(currentStep, totalSteps, 'Creating project directory...');
-      if (await fs.pathExists(result.projectPath)) {
-        throw new Error(`Directory '${result.projectPath}' already exists`);
+      this.logger.step(currentStep, totalSteps, 'Planning fragments...');
+      const projectPlan = this.plan(config);
+      result.fragments = projectPlan.plan.fragments.map(f => f.id);
+      result.conflicts = projectPlan.plan.conflicts;
+      result.warnings.push(...projectPlan.warnings);
+      if (projectPlan.errors.length > 0) {
+        throw new Error(projectPlan.errors.join(', '));
       }
-      await fs.ensureDir(result.projectPath);
-      this.logger.success('Directory created');
+      this.logger.success(`Planned ${result.fragments.length} fragments: ${result.fragments.join(', ')}`);
 
       currentStep++;
-      this.logger.step(currentStep, totalSteps, 'Copying shared templates...');
-      const templatesDir = path.join(__dirname, '..', '..', 'templates');
-      const sharedDir = path.join(templatesDir, 'shared');
-      if (await fs.pathExists(sharedDir)) {
-        const sharedFiles = await this.copyAndProcessTemplates(sharedDir, result.projectPath, context);
-        result.filesCreated.push(...sharedFiles);
+      this.logger.step(currentStep, totalSteps, 'Checking project directory...');
+      const existing = await fs.stat(result.projectPath).catch(() => null);
+      if (existing && !existing.isDirectory()) {
+        throw new Error(`'${result.projectPath}' exists and is not a directory`);
       }
-      this.logger.success('Shared templates copied');
+      this.logger.success(existing ? 'Adding to the existing directory' : 'Directory is free');
 
       currentStep++;
-      this.logger.step(currentStep, totalSteps, 'Copying project-type templates...');
-      const typeDir = path.join(templatesDir, config.type);
-      if (await fs.pathExists(typeDir)) {
-        const typeFiles = await this.copyAndProcessTemplates(typeDir, result.projectPath, context);
-        result.filesCreated.push(...typeFiles);
-      }
-      this.logger.success('Project templates copied');
+      this.logger.step(currentStep, totalSteps, 'Rendering templates...');
+      const rendered = await this.renderPlan(projectPlan);
+      const { files: resolved, collisions } = await resolveCollisions(rendered, result.projectPath, options);
+      result.collisions = collisions;
+      this.logger.success(`Rendered ${rendered.size} templates`);
+
+      // Everything is written to a staging directory first, so a failure leaves no partial project
+      await stageOutput(result.projectPath, async stagingDir => {
+        currentStep++;
+        this.logger.step(currentStep, totalSteps, 'Writing project files...');
+        const files = await writeProjectFiles(stagingDir, rendered, resolved, {
+          generator: 'fragments',
+          config,
+          context: projectPlan.context,
+          fragments: result.fragments,
+          templateSource: this.templates.source,
+        });
+        this.logger.success(`Project files written, manifest in ${MANIFEST_FILE}`);
+
+        currentStep++;
+        this.logger.step(currentStep, totalSteps, 'Creating additional directories...');
+        for (const dir of this.additionalDirs(config)) {
+          await fs.ensureDir(path.join(stagingDir, dir));
+        }
+        this.logger.success('Additional directories created');
 
-      currentStep++;
-      this.logger.step(currentStep, totalSteps, 'Creating additional directories...');
-      await this.createAdditionalDirs(config, context, result.projectPath);
-      this.logger.success('Additional directories created');
+        currentStep++;
+        this.logger.step(currentStep, totalSteps, 'Moving project into place...');
+        result.filesCreated.push(...files);
+      });
+      this.logger.success(`Project created at ${result.projectPath}`);
 
       result.success = true;
       this.logger.success(`Created ${result.filesCreated.length} files`);
 
     } catch (error) {
-      result.errors.push(error instanceof Error ? error.message : String(error));
+      result.filesCreated = [];
+      if (error instanceof CollisionError) {
+        result.collidingFiles = error.files;
+      }
+      result.errors.push(...(error instanceof GenerationError ? error.errors : [error instanceof Error ? error.message : String(error)]));
       this.logger.error(`Scaffolding failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
 
-      if (await fs.pathExists(result.projectPath)) {
-        try {
-          await fs.remove(result.projectPath);
-        } catch {
-          result.warnings.push('Failed to clean up partial project directory');
-        }
+    return result;
+  }
+
+  // Map a config to generator fragments and plan their generation
+  plan(config: ProjectConfig): ProjectPlan {
+    const context = mapConfigToContext(config);
+    const { selections, unsupported } = selectFragmentsFromConfig(config);
+    const ids = [...selections.map(selection => selection.fragmentId), ...this.templates.include];
+    const fragments: TemplateFragment[] = [];
+    const missing: string[] = [];
+    for (const id of new Set(ids)) {
+      const fragment = this.templates.fragments.find(f => f.id === id);
+      if (fragment) {
+        fragments.push(fragment);
+      } else {
+        missing.push(`fragment '${id}' is not defined by the template source; its files are not generated`);
       }
     }
+    const planning = planGeneration(fragments, context, this.templates.fragments);
 
-    return result;
+    return {
+      context,
+      plan: planning.plan,
+      warnings: [...unsupported, ...missing, ...planning.warnings],
+      errors: planning.errors,
+    };
+  }
+
+  // Render every file of a plan in memory, including merged package.json and .env.example
+  async renderPlan(projectPlan: ProjectPlan): Promise<RenderedFiles> {
+    return renderGeneratedFiles(projectPlan.plan, projectPlan.context, this.templates.dirs);
+  }
+
+  // Render template directories in memory; later directories override earlier ones.
+  // Only used to re-render projects created before `create` moved to the generator
+  async render(config: ProjectConfig, templates: string[]): Promise<RenderedFiles> {
+    const context = buildTemplateContext(config);
+    const templatesDir = path.join(__dirname, '..', 'templates');
+    const rendered: RenderedFiles = new Map();
+
+    for (const template of templates) {
+      const templateDir = path.join(templatesDir, template);
+      if (await fs.pathExists(templateDir)) {
+        await this.renderDirectory(templateDir, '', context, rendered);
+      }
+    }
+
+    return rendered;
   }
 
-  private async copyAndProcessTemplates(
+  private async renderDirectory(
     srcDir: string,
-    destDir: string,
-    context: TemplateContext
-  ): Promise<string[]> {
-    const filesCreated: string[] = [];
+    prefix: string,
+    context: TemplateContext,
+    rendered: RenderedFiles
+  ): Promise<void> {
     const entries = await fs.readdir(srcDir, { withFileTypes: true });
 
     for (const entry of entries) {
       const srcPath = path.join(srcDir, entry.name);
-      let destName = entry.name
-        .replace(/\.ejs$/, '')
-        .replace(/\.hbs$/, '')
+      let destName = outputName(entry.name)
         .replace('__name__', context.nameKebab as string)
         .replace('_dot_', '.');
 
       destName = this.templateEngine.processFileName(destName, context);
-      const destPath = path.join(destDir, destName);
+      const destPath = prefix ? `${prefix}/${destName}` : destName;
 
       if (entry.isDirectory()) {
-        await fs.ensureDir(destPath);
-        const subFiles = await this.copyAndProcessTemplates(srcPath, destPath, context);
-        filesCreated.push(...subFiles);
-      } else if (this.templateEngine.isBinaryFile(srcPath)) {
-        await fs.copy(srcPath, destPath);
-        filesCreated.push(path.relative(destDir, destPath));
+        await this.renderDirectory(srcPath, destPath, context, rendered);
       } else {
-        const content = await fs.readFile(srcPath, 'utf-8');
-        const processed = this.templateEngine.process(content, context);
-        await fs.writeFile(destPath, processed, 'utf-8');
-        filesCreated.push(path.relative(destDir, destPath));
+        rendered.set(destPath, await renderTemplateFile(srcPath, context));
       }
     }
-
-    return filesCreated;
   }
 
-  private async createAdditionalDirs(
-    config: ProjectConfig,
-    context: TemplateContext,
-    projectDir: string
-  ): Promise<void> {
+  // Empty directories created next to the rendered files, relative to the project root
+  additionalDirs(config: ProjectConfig, context: TemplateContext = buildContext(config)): string[] {
     const toolTypes = ['cli', 'mcp-server', 'library', 'static'];
     const hasDatabase = config.databaseProvider !== 'none';
     const hasAuth = config.authProvider !== 'none';
+    const dirs: string[] = [];
 
     if (hasDatabase && config.orm === 'prisma' && !toolTypes.includes(config.type)) {
-      await fs.ensureDir(path.join(projectDir, 'prisma'));
+      dirs.push('prisma');
     }
 
     if (hasAuth && !toolTypes.includes(config.type)) {
-      await fs.ensureDir(path.join(projectDir, 'src', 'lib', 'auth'));
+      dirs.push('src/lib/auth');
     }
 
     if (context.hasAI && !toolTypes.includes(config.type)) {
-      await fs.ensureDir(path.join(projectDir, 'src', 'lib', 'ai'));
+      dirs.push('src/lib/ai');
     }
+
+    return dirs;
   }
 }
 
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import Handlebars from 'handlebars';
+import { conditionHelpers, valueHelpers } from './helpers.js';
 
 export interface TemplateContext {
   projectName: string;
@@ -283,220 +284,19 @@ export class TemplateEngine {
   }
 
   private registerBuiltinHelpers(): void {
-    // kebab-case: MyProjectName -> my-project-name
-    this.handlebars.registerHelper('kebab', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str
-        .replace(/([a-z])([A-Z])/g, '$1-$2')
-        .replace(/[\s_]+/g, '-')
-        .toLowerCase();
-    });
-
-    // PascalCase: my-project-name -> MyProjectName
-    this.handlebars.registerHelper('pascal', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str
-        .replace(/[-_\s]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
-        .replace(/^(.)/, (_, c: string) => c.toUpperCase());
-    });
-
-    // camelCase: my-project-name -> myProjectName
-    this.handlebars.registerHelper('camel', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str
-        .replace(/[-_\s]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
-        .replace(/^(.)/, (_, c: string) => c.toLowerCase());
-    });
-
-    // snake_case: MyProjectName -> my_project_name
-    this.handlebars.registerHelper('snake', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str
-        .replace(/([a-z])([A-Z])/g, '$1_$2')
-        .replace(/[-\s]+/g, '_')
-        .toLowerCase();
-    });
-
-    // SCREAMING_SNAKE_CASE: myProjectName -> MY_PROJECT_NAME
-    this.handlebars.registerHelper('screaming', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str
-        .replace(/([a-z])([A-Z])/g, '$1_$2')
-        .replace(/[-\s]+/g, '_')
-        .toUpperCase();
-    });
-
-    // Title Case: my-project-name -> My Project Name
-    this.handlebars.registerHelper('title', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str
-        .replace(/[-_]+/g, ' ')
-        .replace(/\b\w/g, (c: string) => c.toUpperCase());
-    });
-
-    this.handlebars.registerHelper('lower', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str.toLowerCase();
-    });
-
-    this.handlebars.registerHelper('upper', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str.toUpperCase();
-    });
-
-    this.handlebars.registerHelper('capitalize', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str.charAt(0).toUpperCase() + str.slice(1);
-    });
-
-    this.handlebars.registerHelper('if_eq', function(this: unknown, a: unknown, b: unknown, opts: Handlebars.HelperOptions) {
-      return a === b ? opts.fn(this) : opts.inverse(this);
-    });
-
-    this.handlebars.registerHelper('unless_eq', function(this: unknown, a: unknown, b: unknown, opts: Handlebars.HelperOptions) {
-      return a !== b ? opts.fn(this) : opts.inverse(this);
-    });
-
-    this.handlebars.registerHelper('json', (context: unknown) => {
-      return JSON.stringify(context, null, 2);
-    });
-
-    this.handlebars.registerHelper('json_compact', (context: unknown) => {
-      return JSON.stringify(context);
-    });
-
-    this.handlebars.registerHelper('year', () => {
-      return new Date().getFullYear();
-    });
-
-    this.handlebars.registerHelper('date', () => {
-      return new Date().toISOString().split('T')[0];
-    });
-
-    this.handlebars.registerHelper('timestamp', () => {
-      return new Date().toISOString();
-    });
-
-    this.handlebars.registerHelper('default', (value: unknown, defaultValue: unknown) => {
-      return value ?? defaultValue;
-    });
-
-    this.handlebars.registerHelper('coalesce', (...args: unknown[]) => {
-      args.pop(); // Remove options
-      for (const arg of args) {
-        if (arg) return arg;
-      }
-      return '';
-    });
-
-    this.handlebars.registerHelper('pluralize', (count: unknown, singular: string, plural: string) => {
-      return count === 1 ? singular : plural;
-    });
-
-    this.handlebars.registerHelper('join', (arr: unknown, separator: unknown) => {
-      if (!Array.isArray(arr)) return '';
-      const sep = typeof separator === 'string' ? separator : ', ';
-      return arr.join(sep);
-    });
-
-    this.handlebars.registerHelper('first', (arr: unknown) => {
-      if (!Array.isArray(arr)) return '';
-      return arr[0] ?? '';
-    });
-
-    this.handlebars.registerHelper('last', (arr: unknown) => {
-      if (!Array.isArray(arr)) return '';
-      return arr[arr.length - 1] ?? '';
-    });
-
-    this.handlebars.registerHelper('length', (arr: unknown) => {
-      if (Array.isArray(arr)) return arr.length;
-      if (typeof arr === 'string') return arr.length;
-      return 0;
-    });
-
-    this.handlebars.registerHelper('contains', function(this: unknown, haystack: unknown, needle: unknown, opts: Handlebars.HelperOptions) {
-      if (Array.isArray(haystack) && haystack.includes(needle)) {
-        return opts.fn(this);
-      }
-      if (typeof haystack === 'string' && typeof needle === 'string' && haystack.includes(needle)) {
-        return opts.fn(this);
-      }
-      return opts.inverse(this);
-    });
-
-    this.handlebars.registerHelper('gt', function(this: unknown, a: unknown, b: unknown, opts: Handlebars.HelperOptions) {
-      return (a as number) > (b as number) ? opts.fn(this) : opts.inverse(this);
-    });
-
-    this.handlebars.registerHelper('lt', function(this: unknown, a: unknown, b: unknown, opts: Handlebars.HelperOptions) {
-      return (a as number) < (b as number) ? opts.fn(this) : opts.inverse(this);
-    });
-
-    this.handlebars.registerHelper('and', function(this: unknown, ...args: unknown[]) {
-      const opts = args.pop() as Handlebars.HelperOptions;
-      const result = args.every(Boolean);
-      return result ? opts.fn(this) : opts.inverse(this);
-    });
-
-    this.handlebars.registerHelper('or', function(this: unknown, ...args: unknown[]) {
-      const opts = args.pop() as Handlebars.HelperOptions;
-      const result = args.some(Boolean);
-      return result ? opts.fn(this) : opts.inverse(this);
-    });
-
-    this.handlebars.registerHelper('not', function(this: unknown, value: unknown, opts: Handlebars.HelperOptions) {
-      return !value ? opts.fn(this) : opts.inverse(this);
-    });
-
-    this.handlebars.registerHelper('trim', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str.trim();
-    });
-
-    this.handlebars.registerHelper('replace', (str: unknown, find: string, replace: string) => {
-      if (typeof str !== 'string') return '';
-      return str.replace(new RegExp(find, 'g'), replace);
-    });
-
-    this.handlebars.registerHelper('substring', (str: unknown, start: number, end?: number | Handlebars.HelperOptions) => {
-      if (typeof str !== 'string') return '';
-      if (typeof end === 'object') {
-        return str.substring(start);
-      }
-      return str.substring(start, end);
-    });
-
-    this.handlebars.registerHelper('repeat', (str: unknown, count: number) => {
-      if (typeof str !== 'string') return '';
-      return str.repeat(Math.max(0, count));
-    });
-
-    this.handlebars.registerHelper('padStart', (str: unknown, length: number, char: string) => {
-      if (typeof str !== 'string') return '';
-      return str.padStart(length, char || ' ');
-    });
-
-    this.handlebars.registerHelper('padEnd', (str: unknown, length: number, char: string) => {
-      if (typeof str !== 'string') return '';
-      return str.padEnd(length, char || ' ');
-    });
-
-    this.handlebars.registerHelper('add', (a: number, b: number) => (a || 0) + (b || 0));
-    this.handlebars.registerHelper('subtract', (a: number, b: number) => (a || 0) - (b || 0));
-    this.handlebars.registerHelper('multiply', (a: number, b: number) => (a || 0) * (b || 0));
-    this.handlebars.registerHelper('divide', (a: number, b: number) => b === 0 ? 0 : (a || 0) / b);
-    this.handlebars.registerHelper('mod', (a: number, b: number) => b === 0 ? 0 : (a || 0) % b);
-
-    this.handlebars.registerHelper('slug', (str: unknown) => {
-      if (typeof str !== 'string') return '';
-      return str
-        .toLowerCase()
-        .trim()
-        .replace(/[^\w\s-]/g, '')
-        .replace(/[\s_-]+/g, '-')
-        .replace(/^-+|-+$/g, '');
-    });
+    // Handlebars passes its options object last; value helpers never need it
+    for (const [name, helper] of Object.entries(valueHelpers)) {
+      this.handlebars.registerHelper(name, (...args: unknown[]) =>
+        (helper as (...values: unknown[]) => unknown)(...args.slice(0, -1))
+      );
+    }
+
+    for (const [name, predicate] of Object.entries(conditionHelpers)) {
+      this.handlebars.registerHelper(name, function(this: unknown, ...args: unknown[]) {
+        const opts = args.pop() as Handlebars.HelperOptions;
+        return (predicate as (...values: unknown[]) => boolean)(...args) ? opts.fn(this) : opts.inverse(this);
+      });
+    }
   }
 }
 
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { getToolRequirements, runDoctor, parseVersion, compareVersions } from './doctor.js';
+import { createProjectConfig } from '../lib/prompter.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+function config(overrides: Partial<ProjectConfig> = {}): ProjectConfig {
+  return { ...createProjectConfig('demo'), ...overrides };
+}
+
+// Fake environment: command -> `--version` output, missing commands are absent
+function fakeProbe(installed: Record<string, string>) {
+  return async (command: string) => installed[command] ?? null;
+}
+
+describe('getToolRequirements', () => {
+  it('should require node and git for a default TypeScript project', () => {
+    const tools = getToolRequirements(config({ type: 'nextjs', runtime: 'node' })).map(r => r.tool);
+    expect(tools).toEqual(['node', 'git']);
+  });
+
+  it('should follow the runtime for TypeScript projects', () => {
+    const tools = getToolRequirements(config({ type: 'hono-api', runtime: 'bun' })).map(r => r.tool);
+    expect(tools).toContain('bun');
+    expect(tools).not.toContain('node');
+  });
+
+  it('should require python and the selected package manager for Python projects', () => {
+    const requirements = getToolRequirements(config({ type: 'fastapi', runtime: 'python', pythonPackageManager: 'poetry' }));
+    expect(requirements.map(r => r.tool)).toEqual(['python', 'poetry', 'git']);
+    expect(requirements[1].severity).toBe('error');
+  });
+
+  it('should require cargo 1.85 for Rust edition 2024', () => {
+    const [cargo] = getToolRequirements(config({ type: 'axum-api', runtime: 'rust', rustEdition: '2024' }));
+    expect(cargo).toMatchObject({ tool: 'cargo', minVersion: '1.85.0' });
+  });
+
+  it('should add docker as a warning when services need it', () => {
+    const docker = getToolRequirements(config({ databaseProvider: 'postgres-local' })).find(r => r.tool === 'docker');
+    expect(docker?.severity).toBe('warning');
+  });
+
+  it('should add a GPU check for GPU-only local AI', () => {
+    const tools = getToolRequirements(config({ localAI: 'vllm' })).map(r => r.tool);
+    expect(tools).toContain('nvidia-smi');
+  });
+
+  it('should drop git with skipGit', () => {
+    const tools = getToolRequirements(config(), { skipGit: true }).map(r => r.tool);
+    expect(tools).not.toContain('git');
+  });
+});
+
+describe('runDoctor', () => {
+  it('should pass when every required tool is installed', async () => {
+    const result = await runDoctor(config(), {
+      probe: fakeProbe({ node: 'v22.3.0', git: 'git version 2.45.1' }),
+    });
+    expect(result.ok).toBe(true);
+    expect(result.checks.map(c => c.version)).toEqual(['22.3.0', '2.45.1']);
+  });
+
+  it('should report missing tools with install hints', async () => {
+    const result = await runDoctor(config({ type: 'gin-api', runtime: 'go' }), { probe: fakeProbe({}) });
+    expect(result.ok).toBe(false);
+    expect(result.errors.map(c => c.id)).toEqual(['go']);
+    expect(result.errors[0].hint).toMatch(/go\.dev/);
+    expect(result.warnings.map(c => c.id)).toEqual(['git']);
+  });
+
+  it('should flag toolchains below the minimum version', async () => {
+    const result = await runDoctor(config(), {
+      probe: fakeProbe({ node: 'v18.19.0', git: 'git version 2.45.1' }),
+    });
+    expect(result.errors[0]).toMatchObject({ id: 'node', status: 'outdated', version: '18.19.0', minVersion: '20.0.0' });
+  });
+
+  it('should reject MLX outside Apple Silicon', async () => {
+    const probe = fakeProbe({ node: 'v22.3.0', python3: 'Python 3.12.4', git: 'git version 2.45.1' });
+    const mlx = config({ localAI: 'mlx' });
+
+    const linux = await runDoctor(mlx, { probe, platform: 'linux', arch: 'x64' });
+    expect(linux.errors.map(c => c.id)).toEqual(['apple-silicon']);
+
+    const mac = await runDoctor(mlx, { probe, platform: 'darwin', arch: 'arm64' });
+    expect(mac.ok).toBe(true);
+  });
+
+  it('should check every known tool as optional without a config', async () => {
+    const result = await runDoctor(undefined, { probe: fakeProbe({}) });
+    expect(result.ok).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.length).toBe(result.checks.length);
+  });
+});
+
+describe('version helpers', () => {
+  it('should parse common --version banners', () => {
+    expect(parseVersion('v20.11.1')).toBe('20.11.1');
+    expect(parseVersion('go version go1.22.3 darwin/arm64')).toBe('1.22.3');
+    expect(parseVersion('cargo 1.79.0 (ffa9cf99a 2024-06-03)')).toBe('1.79.0');
+    expect(parseVersion('Python 3.12')).toBe('3.12.0');
+    expect(parseVersion('unknown')).toBeUndefined();
+  });
+
+  it('should compare versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('20.0.0', '20.0.0')).toBe(0);
+    expect(compareVersions('3.9.18', '3.11.0')).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Environment Doctor
+ * Checks that the toolchains a project configuration needs are installed
+ */
+
+import { execa } from 'execa';
+import { buildContext } from './ProjectScaffolder.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+export type ToolId =
+  | 'node'
+  | 'bun'
+  | 'deno'
+  | 'python'
+  | 'uv'
+  | 'poetry'
+  | 'pipenv'
+  | 'go'
+  | 'cargo'
+  | 'docker'
+  | 'git'
+  | 'nvidia-smi';
+
+// 'error' requirements block `create --require-tools`; 'warning' ones only report
+export type RequirementSeverity = 'error' | 'warning';
+
+export type CheckStatus = 'ok' | 'missing' | 'outdated' | 'unsupported';
+
+export interface ToolSpec {
+  name: string;
+  command: string;
+  args: string[];
+  minVersion?: string;
+  hint: string;
+}
+
+export interface ToolRequirement {
+  tool: ToolId;
+  severity: RequirementSeverity;
+  reason: string;
+  minVersion?: string;
+}
+
+export interface DoctorCheck {
+  id: ToolId | 'apple-silicon';
+  name: string;
+  status: CheckStatus;
+  severity: RequirementSeverity;
+  reason: string;
+  version?: string;
+  minVersion?: string;
+  hint?: string;
+}
+
+export interface DoctorResult {
+  ok: boolean;
+  checks: DoctorCheck[];
+  errors: DoctorCheck[];
+  warnings: DoctorCheck[];
+}
+
+export interface DoctorOptions {
+  skipGit?: boolean;
+  // Runs `command args` and returns stdout, or null when the command is unavailable
+  probe?: (command: string, args: string[]) => Promise<string | null>;
+  platform?: NodeJS.Platform;
+  arch?: string;
+}
+
+/**
+ * Known tools, how to query their version, and how to install them
+ */
+export const TOOLS: Record<ToolId, ToolSpec> = {
+  node: { name: 'Node.js', command: 'node', args: ['--version'], minVersion: '20.0.0', hint: 'https://nodejs.org (or `fnm install 20`)' },
+  bun: { name: 'Bun', command: 'bun', args: ['--version'], minVersion: '1.1.0', hint: 'curl -fsSL https://bun.sh/install | bash' },
+  deno: { name: 'Deno', command: 'deno', args: ['--version'], minVersion: '2.0.0', hint: 'curl -fsSL https://deno.land/install.sh | sh' },
+  python: { name: 'Python', command: 'python3', args: ['--version'], minVersion: '3.11.0', hint: 'https://www.python.org/downloads/ (or `uv python install 3.12`)' },
+  uv: { name: 'uv', command: 'uv', args: ['--version'], hint: 'curl -LsSf https://astral.sh/uv/install.sh | sh' },
+  poetry: { name: 'Poetry', command: 'poetry', args: ['--version'], hint: 'pipx install poetry' },
+  pipenv: { name: 'Pipenv', command: 'pipenv', args: ['--version'], hint: 'pipx install pipenv' },
+  go: { name: 'Go', command: 'go', args: ['version'], minVersion: '1.21.0', hint: 'https://go.dev/dl/' },
+  cargo: { name: 'Cargo (Rust)', command: 'cargo', args: ['--version'], minVersion: '1.75.0', hint: "curl --proto '=https' --tlsv1.2 -sSf https://sh.rustup.rs | sh" },
+  docker: { name: 'Docker', command: 'docker', args: ['--version'], hint: 'https://docs.docker.com/get-docker/' },
+  git: { name: 'Git', command: 'git', args: ['--version'], hint: 'https://git-scm.com/downloads' },
+  'nvidia-smi': { name: 'NVIDIA driver', command: 'nvidia-smi', args: ['--version'], hint: 'Install the NVIDIA driver and CUDA toolkit for your GPU' },
+};
+
+/**
+ * Derive the tools a configuration needs from its template context flags
+ */
+export function getToolRequirements(config: ProjectConfig, options: Pick<DoctorOptions, 'skipGit'> = {}): ToolRequirement[] {
+  const context = buildContext(config);
+  const requirements: ToolRequirement[] = [];
+
+  if (context.isPython) {
+    requirements.push({ tool: 'python', severity: 'error', reason: `${config.type} is a Python project` });
+    const manager = config.pythonPackageManager;
+    if (manager === 'uv' || manager === 'poetry' || manager === 'pipenv') {
+      requirements.push({ tool: manager, severity: 'error', reason: 'Selected Python package manager' });
+    }
+  } else if (context.isGo) {
+    requirements.push({ tool: 'go', severity: 'error', reason: `${config.type} is a Go project` });
+  } else if (context.isRust) {
+    requirements.push({
+      tool: 'cargo',
+      severity: 'error',
+      reason: `${config.type} is a Rust project`,
+      // Edition 2024 was stabilised in Rust 1.85
+      minVersion: config.rustEdition === '2024' ? '1.85.0' : undefined,
+    });
+  } else if (context.isDeno || config.runtime === 'deno') {
+    requirements.push({ tool: 'deno', severity: 'error', reason: 'Deno runtime' });
+  } else if (config.runtime === 'bun') {
+    requirements.push({ tool: 'bun', severity: 'error', reason: 'Bun runtime' });
+  } else {
+    requirements.push({ tool: 'node', severity: 'error', reason: 'Node.js runtime' });
+  }
+
+  if (context.usesMLX && !context.isPython) {
+    requirements.push({ tool: 'python', severity: 'error', reason: `${config.localAI} runs on Python` });
+  }
+
+  if (context.needsDocker) {
+    requirements.push({ tool: 'docker', severity: 'warning', reason: 'docker-compose services for the selected database, vector DB or local AI' });
+  }
+
+  if (context.needsGPU) {
+    requirements.push({ tool: 'nvidia-smi', severity: 'warning', reason: `${config.localAI !== 'none' ? config.localAI : config.embeddingProvider} needs a CUDA GPU` });
+  }
+
+  if (!options.skipGit) {
+    requirements.push({ tool: 'git', severity: 'warning', reason: 'Initial commit of the generated project' });
+  }
+
+  return requirements;
+}
+
+/**
+ * Check the environment against a configuration, or against every known tool when none is given
+ */
+export async function runDoctor(config: ProjectConfig | undefined, options: DoctorOptions = {}): Promise<DoctorResult> {
+  const probe = options.probe ?? probeCommand;
+  const requirements: ToolRequirement[] = config
+    ? getToolRequirements(config, options)
+    : (Object.keys(TOOLS) as ToolId[]).map(tool => ({ tool, severity: 'warning', reason: '' }));
+
+  const checks = await Promise.all(requirements.map(requirement => checkTool(requirement, probe)));
+
+  if (config && buildContext(config).usesMLX) {
+    const platform = options.platform ?? process.platform;
+    const arch = options.arch ?? process.arch;
+    const appleSilicon = platform === 'darwin' && arch === 'arm64';
+    checks.push({
+      id: 'apple-silicon',
+      name: 'Apple Silicon',
+      status: appleSilicon ? 'ok' : 'unsupported',
+      severity: 'error',
+      reason: `${config.localAI} only runs on Apple Silicon Macs (found ${platform}/${arch})`,
+      hint: appleSilicon ? undefined : "Use 'ollama' or 'llamacpp' as the local AI provider on this machine",
+    });
+  }
+
+  const failed = checks.filter(check => check.status !== 'ok');
+  const errors = failed.filter(check => check.severity === 'error');
+  const warnings = failed.filter(check => check.severity === 'warning');
+
+  return { ok: errors.length === 0, checks, errors, warnings };
+}
+
+async function checkTool(
+  requirement: ToolRequirement,
+  probe: (command: string, args: string[]) => Promise<string | null>
+): Promise<DoctorCheck> {
+  const spec = TOOLS[requirement.tool];
+  const minVersion = maxVersion(spec.minVersion, requirement.minVersion);
+  const check: DoctorCheck = {
+    id: requirement.tool,
+    name: spec.name,
+    status: 'ok',
+    severity: requirement.severity,
+    reason: requirement.reason,
+    minVersion,
+  };
+
+  const output = await probe(spec.command, spec.args);
+  if (output === null) {
+    return { ...check, status: 'missing', hint: spec.hint };
+  }
+
+  check.version = parseVersion(output);
+  if (minVersion && check.version && compareVersions(check.version, minVersion) < 0) {
+    return { ...check, status: 'outdated', hint: spec.hint };
+  }
+  return check;
+}
+
+async function probeCommand(command: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execa(command, args, { timeout: 10_000 });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+// Pull the first x.y[.z] version out of a `--version` banner
+export function parseVersion(output: string): string | undefined {
+  const match = output.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+  return match ? `${match[1]}.${match[2]}.${match[3] ?? '0'}` : undefined;
+}
+
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function maxVersion(a?: string, b?: string): string | undefined {
+  if (!a || !b) return a ?? b;
+  return compareVersions(a, b) >= 0 ? a : b;
+}
+
+/**
+ * Get a human-readable summary of doctor results
+ */
+export function formatDoctorResult(result: DoctorResult): string {
+  const lines: string[] = [];
+  const icons: Record<CheckStatus, string> = { ok: '✓', missing: '✗', outdated: '!', unsupported: '✗' };
+
+  for (const check of result.checks) {
+    const version = check.version ? ` ${check.version}` : '';
+    const needs = check.status === 'outdated' ? ` (needs >= ${check.minVersion})` : '';
+    const state = check.status === 'ok' ? '' : ` — ${check.status}${needs}`;
+    lines.push(`  ${icons[check.status]} ${check.name}${version}${state}`);
+    if (check.status !== 'ok') {
+      if (check.reason) {
+        lines.push(`      ${check.reason}`);
+      }
+      if (check.hint) {
+        lines.push(`      → ${check.hint}`);
+      }
+    }
+  }
+
+  lines.push('');
+  if (result.errors.length > 0) {
+    lines.push(`❌ ${result.errors.length} required tool(s) missing or unsupported`);
+  } else if (result.warnings.length > 0) {
+    lines.push(`⚠️  ${result.warnings.length} optional tool(s) missing`);
+  } else {
+    lines.push('✅ All required tools are installed');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { execa } from 'execa';
+import { bootstrapGit, hookTool, parseAuthor, resolveGitOptions, writeHookFiles } from './git.js';
+import { createProjectConfig } from '../lib/prompter.js';
+import type { Logger } from '../utils/Logger.js';
+
+const author = { name: 'Ada Lovelace', email: 'ada@example.com' };
+
+function fakeLogger() {
+  return { info: vi.fn(), debug: vi.fn(), success: vi.fn(), error: vi.fn() } as unknown as Logger;
+}
+
+describe('resolveGitOptions', () => {
+  const config = createProjectConfig('My App', { githubUsername: 'project-owner' });
+
+  it('should prefer flags over the user config', () => {
+    const options = resolveGitOptions(
+      config,
+      { branch: 'trunk', gitAuthor: 'Ada Lovelace <ada@example.com>' },
+      { gitBranch: 'main', gitAuthor: 'Someone <someone@example.com>', gitCommitMessage: 'init {{projectName}}', gitSign: true }
+    );
+
+    expect(options).toEqual({
+      branch: 'trunk',
+      commitMessage: 'init {{projectName}}',
+      author,
+      remote: undefined,
+      sign: true,
+    });
+  });
+
+  it('should build the GitHub remote from the username and kebab-cased name', () => {
+    expect(resolveGitOptions(config, { remote: true }).remote).toBe('https://github.com/project-owner/my-app.git');
+    expect(resolveGitOptions(config, {}, { gitRemote: 'github', githubUsername: 'me' }).remote).toBe('https://github.com/me/my-app.git');
+    expect(resolveGitOptions(config, { remote: 'git@example.com:team/app.git' }).remote).toBe('git@example.com:team/app.git');
+  });
+
+  it('should reject malformed identities', () => {
+    expect(parseAuthor('  Grace Hopper <grace@example.com> ')).toEqual({ name: 'Grace Hopper', email: 'grace@example.com' });
+    expect(() => parseAuthor('grace@example.com')).toThrow("Git author must look like 'Name <email>'");
+  });
+});
+
+describe('hookTool', () => {
+  it('should pick the hook manager by runtime', () => {
+    expect(hookTool(createProjectConfig('app', { type: 'hono-api' }))).toBe('husky');
+    expect(hookTool(createProjectConfig('app', { type: 'fastapi', runtime: 'python' }))).toBe('pre-commit');
+    expect(hookTool(createProjectConfig('app', { type: 'gin-api', runtime: 'go' }))).toBe('lefthook');
+    expect(hookTool(createProjectConfig('app', { type: 'axum-api', runtime: 'rust' }))).toBe('lefthook');
+  });
+});
+
+describe('bootstrapGit', () => {
+  let projectDir: string;
+  let binDir: string;
+  const originalPath = process.env.PATH;
+  const config = createProjectConfig('demo', { type: 'gin-api', runtime: 'go' });
+
+  const git = async (...args: string[]) => (await execa('git', args, { cwd: projectDir })).stdout.trim();
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-git-'));
+    binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-bin-'));
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+    await fs.writeFile(path.join(projectDir, 'main.go'), 'package main\n');
+  });
+
+  afterEach(async () => {
+    process.env.PATH = originalPath;
+    await fs.remove(projectDir);
+    await fs.remove(binDir);
+  });
+
+  it('should commit on the requested branch with the rendered message and identity, then add origin', async () => {
+    const result = await bootstrapGit(config, projectDir, {
+      branch: 'trunk',
+      commitMessage: 'chore: scaffold {{projectName}} ({{type}})',
+      author,
+      remote: 'https://example.com/demo.git',
+      sign: false,
+    }, fakeLogger());
+
+    expect(result.success).toBe(true);
+    expect(result.branch).toBe('trunk');
+    expect(result.remote).toBe('https://example.com/demo.git');
+    expect(await git('log', '-1', '--format=%s|%an <%ae>')).toBe('chore: scaffold demo (gin-api)|Ada Lovelace <ada@example.com>');
+    expect(await git('remote', 'get-url', 'origin')).toBe('https://example.com/demo.git');
+    expect(result.commit).toBe(await git('rev-parse', '--short', 'HEAD'));
+  });
+
+  it('should report the failing command and git\'s reason', async () => {
+    const result = await bootstrapGit(config, projectDir, { branch: 'bad..name', author }, fakeLogger());
+
+    expect(result.success).toBe(false);
+    expect(result.commit).toBeUndefined();
+    const failed = result.steps[result.steps.length - 1];
+    expect(failed.command).toBe('git symbolic-ref HEAD refs/heads/bad..name');
+    expect(failed.error).toMatch(/^fatal:/);
+  });
+
+  it('should keep committing when the hook manager is missing', async () => {
+    await fs.writeFile(path.join(binDir, 'lefthook'), '#!/bin/sh\necho "lefthook: command failed" >&2\nexit 1\n', { mode: 0o755 });
+    const hooks = await writeHookFiles(config, projectDir, 'npm');
+
+    const result = await bootstrapGit(config, projectDir, { author, hooks }, fakeLogger());
+
+    expect(result.success).toBe(true);
+    expect(result.hooks).toBeUndefined();
+    expect(result.steps.find(step => step.command === 'lefthook install')).toEqual({
+      command: 'lefthook install',
+      success: false,
+      optional: true,
+      error: 'lefthook: command failed; run `lefthook install` once lefthook is installed (https://lefthook.dev)',
+    });
+    expect(await git('show', '--name-only', '--format=', 'HEAD')).toContain('lefthook.yml');
+  });
+
+  it('should add husky to package.json and a pre-commit hook running the lint script', async () => {
+    const node = createProjectConfig('demo', { type: 'hono-api' });
+    await fs.writeJson(path.join(projectDir, 'package.json'), { scripts: { lint: 'eslint .', test: 'vitest' } });
+
+    const hooks = await writeHookFiles(node, projectDir, 'pnpm');
+
+    expect(hooks.activate).toEqual({ command: 'pnpm', args: ['exec', 'husky'] });
+    const pkg = await fs.readJson(path.join(projectDir, 'package.json'));
+    expect(pkg.scripts.prepare).toBe('husky');
+    expect(pkg.devDependencies.husky).toBeDefined();
+    expect(await fs.readFile(path.join(projectDir, '.husky/pre-commit'), 'utf-8')).toBe('pnpm run lint\n');
+  });
+});
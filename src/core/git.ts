@@ -0,0 +1,278 @@
+/**
+ * Git Bootstrap
+ * Initializes the scaffolded project's repository: branch, initial commit, remote and hooks
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { execa } from 'execa';
+import { buildTemplateContext } from './ProjectScaffolder.js';
+import { createTemplateEngine } from './TemplateEngine.js';
+import { logger as defaultLogger, type Logger } from '../utils/Logger.js';
+import type { Config } from './ConfigManager.js';
+import type { PackageManager } from './installer.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+export const DEFAULT_COMMIT_MESSAGE = 'Initial commit from kickoff';
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitOptions {
+  // Initial branch; git's init.defaultBranch when unset
+  branch?: string;
+  // Handlebars template rendered with the project's template context
+  commitMessage?: string;
+  // Identity for the initial commit only; git's user.name/user.email when unset
+  author?: GitAuthor;
+  // Remote URL added as origin
+  remote?: string;
+  // true signs the initial commit, false never signs it, unset follows commit.gpgsign
+  sign?: boolean;
+  hooks?: HookSetup;
+}
+
+export interface GitFlags {
+  branch?: string;
+  commitMessage?: string;
+  gitAuthor?: string;
+  // --remote alone means the GitHub remote
+  remote?: string | boolean;
+  sign?: boolean;
+  gitHooks?: boolean;
+}
+
+export type HookTool = 'husky' | 'lefthook' | 'pre-commit';
+
+export interface HookSetup {
+  tool: HookTool;
+  files: string[];
+  // Installs the hooks into .git once the repository exists
+  activate: { command: string; args: string[] };
+  // What still activates the hooks when `activate` fails
+  fallback: string;
+}
+
+export interface GitStepResult {
+  command: string;
+  success: boolean;
+  // Failed optional steps (remote, hooks) do not stop the bootstrap
+  optional?: boolean;
+  error?: string;
+}
+
+export interface GitResult {
+  success: boolean;
+  branch?: string;
+  commit?: string;
+  remote?: string;
+  hooks?: HookTool;
+  steps: GitStepResult[];
+}
+
+/**
+ * Parse `Name <email>` into an identity
+ */
+export function parseAuthor(value: string): GitAuthor {
+  const match = value.trim().match(/^(.+?)\s*<([^<>\s]+@[^<>\s]+)>$/);
+  if (!match) {
+    throw new Error(`Git author must look like 'Name <email>' (got '${value}')`);
+  }
+  return { name: match[1], email: match[2] };
+}
+
+/**
+ * The origin URL for a `--remote`/`gitRemote` value: 'github' builds it from the GitHub username
+ */
+export function resolveRemote(value: string, config: ProjectConfig, githubUsername?: string): string {
+  if (value !== 'github') return value;
+
+  const username = githubUsername || config.githubUsername;
+  if (!username) {
+    throw new Error('A GitHub remote needs a GitHub username (set githubUsername in the kickoff config)');
+  }
+  return `https://github.com/${username}/${buildTemplateContext(config).nameKebab}.git`;
+}
+
+/**
+ * Combine the create flags with the user config; flags win
+ */
+export function resolveGitOptions(config: ProjectConfig, flags: GitFlags, userConfig: Config = {}): Omit<GitOptions, 'hooks'> {
+  const author = flags.gitAuthor ?? userConfig.gitAuthor;
+  const remote = flags.remote === true ? 'github' : flags.remote || userConfig.gitRemote;
+
+  return {
+    branch: flags.branch ?? userConfig.gitBranch,
+    commitMessage: flags.commitMessage ?? userConfig.gitCommitMessage,
+    author: author ? parseAuthor(author) : undefined,
+    remote: remote ? resolveRemote(remote, config, userConfig.githubUsername) : undefined,
+    sign: flags.sign ?? userConfig.gitSign,
+  };
+}
+
+// Hook manager per runtime: husky for npm-style projects, pre-commit for Python, lefthook otherwise
+export function hookTool(config: ProjectConfig): HookTool {
+  const context = buildTemplateContext(config);
+  if (context.isPython) return 'pre-commit';
+  if (context.isGo || context.isRust || context.isDeno || config.runtime === 'deno') return 'lefthook';
+  return 'husky';
+}
+
+const HUSKY_RUNNERS: Record<PackageManager, { command: string; args: string[] }> = {
+  npm: { command: 'npx', args: ['--no-install', 'husky'] },
+  pnpm: { command: 'pnpm', args: ['exec', 'husky'] },
+  yarn: { command: 'yarn', args: ['husky'] },
+  bun: { command: 'bun', args: ['run', 'husky'] },
+};
+
+function lefthookCommands(config: ProjectConfig): Record<string, string> {
+  const context = buildTemplateContext(config);
+  if (context.isGo) return { gofmt: 'test -z "$(gofmt -l .)"', vet: 'go vet ./...' };
+  if (context.isRust) return { fmt: 'cargo fmt --check', clippy: 'cargo clippy -- -D warnings' };
+  return { fmt: 'deno fmt --check', lint: 'deno lint' };
+}
+
+/**
+ * Write the hook manager's config into the project. Runs before dependency installation so
+ * husky lands in package.json; `bootstrapGit` activates the hooks once .git exists
+ */
+export async function writeHookFiles(
+  config: ProjectConfig,
+  projectPath: string,
+  packageManager: PackageManager
+): Promise<HookSetup> {
+  const tool = hookTool(config);
+
+  if (tool === 'husky') {
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    const pkg = await fs.readJson(packageJsonPath);
+    const check = ['lint', 'typecheck', 'test', 'build'].find(script => pkg.scripts?.[script]);
+    pkg.scripts = { ...pkg.scripts, prepare: 'husky' };
+    pkg.devDependencies = { ...pkg.devDependencies, husky: '^9.1.7' };
+    await fs.writeJson(packageJsonPath, pkg, { spaces: 2 });
+    await fs.outputFile(
+      path.join(projectPath, '.husky/pre-commit'),
+      check ? `${packageManager} run ${check}\n` : '# Add the checks to run before each commit\n',
+      { mode: 0o755 }
+    );
+    return {
+      tool,
+      files: ['.husky/pre-commit', 'package.json'],
+      activate: HUSKY_RUNNERS[packageManager],
+      fallback: `\`${packageManager} install\` activates them through the prepare script`,
+    };
+  }
+
+  if (tool === 'pre-commit') {
+    await fs.writeFile(path.join(projectPath, '.pre-commit-config.yaml'), [
+      'repos:',
+      '  - repo: https://github.com/astral-sh/ruff-pre-commit',
+      '    rev: v0.8.4',
+      '    hooks:',
+      '      - id: ruff',
+      '        args: [--fix]',
+      '      - id: ruff-format',
+      '',
+    ].join('\n'));
+    return {
+      tool,
+      files: ['.pre-commit-config.yaml'],
+      activate: { command: 'pre-commit', args: ['install'] },
+      fallback: 'run `pre-commit install` once pre-commit is installed (`pipx install pre-commit`)',
+    };
+  }
+
+  const commands = Object.entries(lefthookCommands(config))
+    .map(([name, run]) => `    ${name}:\n      run: ${run}`);
+  await fs.writeFile(
+    path.join(projectPath, 'lefthook.yml'),
+    ['pre-commit:', '  parallel: true', '  commands:', ...commands, ''].join('\n')
+  );
+  return {
+    tool,
+    files: ['lefthook.yml'],
+    activate: { command: 'lefthook', args: ['install'] },
+    fallback: 'run `lefthook install` once lefthook is installed (https://lefthook.dev)',
+  };
+}
+
+/**
+ * The line of git's stderr that says what went wrong
+ */
+export function gitFailure(error: unknown, command: string): string {
+  if ((error as { code?: string }).code === 'ENOENT') {
+    return `${command} is not installed`;
+  }
+  const stderr = String((error as { stderr?: unknown }).stderr ?? '');
+  const lines = stderr.split('\n').map(line => line.trim()).filter(Boolean);
+  return lines.find(line => /^(error|fatal):/.test(line))
+    ?? lines[0]
+    ?? (error as { shortMessage?: string }).shortMessage
+    ?? String(error);
+}
+
+/**
+ * Initialize the repository and make the initial commit. Stops at the first failing required
+ * step; a failing remote or hook step is recorded and the bootstrap carries on
+ */
+export async function bootstrapGit(
+  config: ProjectConfig,
+  projectPath: string,
+  options: GitOptions = {},
+  log: Logger = defaultLogger
+): Promise<GitResult> {
+  const result: GitResult = { success: true, steps: [] };
+
+  const run = async (command: string, args: string[], optional = false): Promise<string | undefined> => {
+    const line = [command, ...args].join(' ');
+    log.debug(`Running ${line}`);
+    try {
+      const { stdout } = await execa(command, args, { cwd: projectPath, stdin: 'ignore', env: { FORCE_COLOR: '0' } });
+      result.steps.push({ command: line, success: true });
+      return stdout.trim();
+    } catch (error) {
+      const reason = gitFailure(error, command);
+      result.steps.push({ command: line, success: false, error: reason, ...(optional && { optional }) });
+      if (!optional) result.success = false;
+      return undefined;
+    }
+  };
+
+  if (await run('git', ['init']) === undefined) return result;
+  if (options.branch && await run('git', ['symbolic-ref', 'HEAD', `refs/heads/${options.branch}`]) === undefined) {
+    return result;
+  }
+
+  if (options.hooks) {
+    const activated = await run(options.hooks.activate.command, options.hooks.activate.args, true);
+    if (activated === undefined) {
+      const failed = result.steps[result.steps.length - 1];
+      failed.error = `${failed.error}; ${options.hooks.fallback}`;
+    } else {
+      result.hooks = options.hooks.tool;
+    }
+  }
+
+  if (await run('git', ['add', '.']) === undefined) return result;
+
+  const message = createTemplateEngine().process(
+    options.commitMessage ?? DEFAULT_COMMIT_MESSAGE,
+    buildTemplateContext(config)
+  );
+  const identity = options.author
+    ? ['-c', `user.name=${options.author.name}`, '-c', `user.email=${options.author.email}`]
+    : [];
+  const signing = options.sign === undefined ? [] : [options.sign ? '--gpg-sign' : '--no-gpg-sign'];
+  if (await run('git', [...identity, 'commit', ...signing, '-m', message]) === undefined) return result;
+
+  result.commit = await run('git', ['rev-parse', '--short', 'HEAD']);
+  result.branch = await run('git', ['symbolic-ref', '--short', 'HEAD']);
+
+  if (options.remote && await run('git', ['remote', 'add', 'origin', options.remote], true) !== undefined) {
+    result.remote = options.remote;
+  }
+
+  return result;
+}
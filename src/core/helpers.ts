@@ -0,0 +1,125 @@
+/**
+ * Template Helpers
+ * Helpers shared by the EJS and Handlebars renderers
+ */
+
+// Value helpers: `{{kebab name}}` in Handlebars, `<%= kebab(name) %>` in EJS
+export const valueHelpers = {
+  // kebab-case: MyProjectName -> my-project-name
+  kebab: (str: unknown): string => {
+    if (typeof str !== 'string') return '';
+    return str
+      .replace(/([a-z])([A-Z])/g, '$1-$2')
+      .replace(/[\s_]+/g, '-')
+      .toLowerCase();
+  },
+
+  // PascalCase: my-project-name -> MyProjectName
+  pascal: (str: unknown): string => {
+    if (typeof str !== 'string') return '';
+    return str
+      .replace(/[-_\s]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
+      .replace(/^(.)/, (_, c: string) => c.toUpperCase());
+  },
+
+  // camelCase: my-project-name -> myProjectName
+  camel: (str: unknown): string => {
+    if (typeof str !== 'string') return '';
+    return str
+      .replace(/[-_\s]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
+      .replace(/^(.)/, (_, c: string) => c.toLowerCase());
+  },
+
+  // snake_case: MyProjectName -> my_project_name
+  snake: (str: unknown): string => {
+    if (typeof str !== 'string') return '';
+    return str
+      .replace(/([a-z])([A-Z])/g, '$1_$2')
+      .replace(/[-\s]+/g, '_')
+      .toLowerCase();
+  },
+
+  // SCREAMING_SNAKE_CASE: myProjectName -> MY_PROJECT_NAME
+  screaming: (str: unknown): string => {
+    if (typeof str !== 'string') return '';
+    return str
+      .replace(/([a-z])([A-Z])/g, '$1_$2')
+      .replace(/[-\s]+/g, '_')
+      .toUpperCase();
+  },
+
+  // Title Case: my-project-name -> My Project Name
+  title: (str: unknown): string => {
+    if (typeof str !== 'string') return '';
+    return str
+      .replace(/[-_]+/g, ' ')
+      .replace(/\b\w/g, (c: string) => c.toUpperCase());
+  },
+
+  lower: (str: unknown): string => (typeof str === 'string' ? str.toLowerCase() : ''),
+  upper: (str: unknown): string => (typeof str === 'string' ? str.toUpperCase() : ''),
+  capitalize: (str: unknown): string => (typeof str === 'string' ? str.charAt(0).toUpperCase() + str.slice(1) : ''),
+
+  json: (value: unknown): string => JSON.stringify(value, null, 2),
+  json_compact: (value: unknown): string => JSON.stringify(value),
+
+  year: (): number => new Date().getFullYear(),
+  date: (): string => new Date().toISOString().split('T')[0],
+  timestamp: (): string => new Date().toISOString(),
+
+  default: (value: unknown, defaultValue: unknown): unknown => value ?? defaultValue,
+  coalesce: (...args: unknown[]): unknown => args.find(Boolean) ?? '',
+  pluralize: (count: unknown, singular: string, plural: string): string => (count === 1 ? singular : plural),
+
+  join: (arr: unknown, separator?: unknown): string => {
+    if (!Array.isArray(arr)) return '';
+    return arr.join(typeof separator === 'string' ? separator : ', ');
+  },
+  first: (arr: unknown): unknown => (Array.isArray(arr) ? arr[0] ?? '' : ''),
+  last: (arr: unknown): unknown => (Array.isArray(arr) ? arr[arr.length - 1] ?? '' : ''),
+  length: (value: unknown): number => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+
+  trim: (str: unknown): string => (typeof str === 'string' ? str.trim() : ''),
+  replace: (str: unknown, find: string, replacement: string): string => {
+    if (typeof str !== 'string') return '';
+    return str.replace(new RegExp(find, 'g'), replacement);
+  },
+  substring: (str: unknown, start: number, end?: number): string => {
+    if (typeof str !== 'string') return '';
+    return str.substring(start, end);
+  },
+  repeat: (str: unknown, count: number): string => (typeof str === 'string' ? str.repeat(Math.max(0, count)) : ''),
+  padStart: (str: unknown, length: number, char?: string): string => (typeof str === 'string' ? str.padStart(length, char || ' ') : ''),
+  padEnd: (str: unknown, length: number, char?: string): string => (typeof str === 'string' ? str.padEnd(length, char || ' ') : ''),
+
+  add: (a: number, b: number): number => (a || 0) + (b || 0),
+  subtract: (a: number, b: number): number => (a || 0) - (b || 0),
+  multiply: (a: number, b: number): number => (a || 0) * (b || 0),
+  divide: (a: number, b: number): number => (b === 0 ? 0 : (a || 0) / b),
+  mod: (a: number, b: number): number => (b === 0 ? 0 : (a || 0) % b),
+
+  slug: (str: unknown): string => {
+    if (typeof str !== 'string') return '';
+    return str
+      .toLowerCase()
+      .trim()
+      .replace(/[^\w\s-]/g, '')
+      .replace(/[\s_-]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  },
+};
+
+// Condition helpers: block helpers in Handlebars (`{{#if_eq type "cli"}}`), predicates in EJS (`<% if (if_eq(type, 'cli')) { %>`)
+export const conditionHelpers = {
+  if_eq: (a: unknown, b: unknown): boolean => a === b,
+  unless_eq: (a: unknown, b: unknown): boolean => a !== b,
+  contains: (haystack: unknown, needle: unknown): boolean => {
+    if (Array.isArray(haystack)) return haystack.includes(needle);
+    return typeof haystack === 'string' && typeof needle === 'string' && haystack.includes(needle);
+  },
+  gt: (a: unknown, b: unknown): boolean => (a as number) > (b as number),
+  lt: (a: unknown, b: unknown): boolean => (a as number) < (b as number),
+  and: (...values: unknown[]): boolean => values.every(Boolean),
+  or: (...values: unknown[]): boolean => values.some(Boolean),
+  not: (value: unknown): boolean => !value,
+};
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { resolvePackageManager, planInstall, runInstall, devCommand } from './installer.js';
+import { createProjectConfig } from '../lib/prompter.js';
+import type { Logger } from '../utils/Logger.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+function config(overrides: Partial<ProjectConfig> = {}): ProjectConfig {
+  return { ...createProjectConfig('demo'), ...overrides };
+}
+
+function fakeLogger() {
+  return { info: vi.fn(), debug: vi.fn(), success: vi.fn(), error: vi.fn() };
+}
+
+describe('resolvePackageManager', () => {
+  it('should prefer the flag, then the bun runtime, then the user config', () => {
+    expect(resolvePackageManager(config({ runtime: 'bun' }), { packageManager: 'pnpm' })).toBe('pnpm');
+    expect(resolvePackageManager(config({ runtime: 'bun' }), { defaultPackageManager: 'yarn' })).toBe('bun');
+    expect(resolvePackageManager(config({ runtime: 'node' }), { defaultPackageManager: 'yarn' })).toBe('yarn');
+    expect(resolvePackageManager(config({ runtime: 'node' }))).toBe('npm');
+  });
+});
+
+describe('installer', () => {
+  let projectDir: string;
+  let binDir: string;
+  const originalPath = process.env.PATH;
+
+  // Put a fake executable on PATH that logs its arguments and prints a line
+  async function stub(command: string, exitCode = 0) {
+    const script = `#!/bin/sh\necho "$0 $*" >> "${path.join(binDir, 'calls.log')}"\necho "${command} output"\nexit ${exitCode}\n`;
+    await fs.writeFile(path.join(binDir, command), script, { mode: 0o755 });
+  }
+
+  async function calls(): Promise<string[]> {
+    const log = path.join(binDir, 'calls.log');
+    if (!(await fs.pathExists(log))) return [];
+    return (await fs.readFile(log, 'utf-8')).trim().split('\n').map(line => line.replace(`${binDir}/`, ''));
+  }
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-install-'));
+    binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-bin-'));
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterEach(async () => {
+    process.env.PATH = originalPath;
+    await fs.remove(projectDir);
+    await fs.remove(binDir);
+  });
+
+  it('should plan one step per generated dependency manifest', async () => {
+    await fs.writeJson(path.join(projectDir, 'package.json'), {});
+    await fs.writeFile(path.join(projectDir, 'pyproject.toml'), '');
+    await fs.writeFile(path.join(projectDir, 'go.mod'), '');
+
+    const steps = await planInstall(config({ type: 'fastapi', runtime: 'python', pythonPackageManager: 'poetry' }), projectDir);
+
+    expect(steps.map(step => [step.command, ...step.args].join(' '))).toEqual([
+      'npm install',
+      'poetry install',
+      'go mod tidy',
+    ]);
+  });
+
+  it('should plan nothing when there is no manifest', async () => {
+    expect(await planInstall(config({ type: 'axum-api', runtime: 'rust' }), projectDir)).toEqual([]);
+  });
+
+  it('should run each step in the project and stream output to the logger', async () => {
+    await stub('pnpm');
+    await stub('cargo');
+    const logger = fakeLogger();
+
+    const result = await runInstall(
+      projectDir,
+      [
+        { manifest: 'package.json', command: 'pnpm', args: ['install'] },
+        { manifest: 'Cargo.toml', command: 'cargo', args: ['fetch'] },
+      ],
+      'pnpm',
+      logger as unknown as Logger
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.steps).toEqual([
+      { command: 'pnpm install', success: true },
+      { command: 'cargo fetch', success: true },
+    ]);
+    expect(await calls()).toEqual(['pnpm install', 'cargo fetch']);
+    expect(logger.debug).toHaveBeenCalledWith('pnpm output');
+  });
+
+  it('should stop at the first failing step', async () => {
+    await stub('uv', 1);
+    await stub('go');
+    const logger = fakeLogger();
+
+    const result = await runInstall(
+      projectDir,
+      [
+        { manifest: 'pyproject.toml', command: 'uv', args: ['sync'] },
+        { manifest: 'go.mod', command: 'go', args: ['mod', 'tidy'] },
+      ],
+      'npm',
+      logger as unknown as Logger
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.steps).toHaveLength(1);
+    expect(result.steps[0]).toMatchObject({ command: 'uv sync', success: false });
+    expect(await calls()).toEqual(['uv sync']);
+  });
+
+  it('should report a missing executable', async () => {
+    const result = await runInstall(
+      projectDir,
+      [{ manifest: 'package.json', command: 'kickoff-missing-pm', args: ['install'] }],
+      'npm',
+      fakeLogger() as unknown as Logger
+    );
+
+    expect(result.steps[0].error).toBe('kickoff-missing-pm is not installed');
+  });
+
+  it('should suggest the dev script with the chosen package manager', async () => {
+    await fs.writeJson(path.join(projectDir, 'package.json'), { scripts: { start: 'node .' } });
+
+    expect(await devCommand(config({ type: 'hono-api' }), projectDir, 'bun')).toBe('bun run start');
+    expect(await devCommand(config({ type: 'fastapi', runtime: 'python', pythonPackageManager: 'uv' }), projectDir, 'npm'))
+      .toBe('uv run fastapi dev');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Dependency Installer
+ * Installs a scaffolded project's dependencies with the package manager its runtime uses
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { execa } from 'execa';
+import { buildContext } from './ProjectScaffolder.js';
+import { logger as defaultLogger, type Logger } from '../utils/Logger.js';
+import type { Config } from './ConfigManager.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+export type PackageManager = NonNullable<Config['defaultPackageManager']>;
+
+export const PACKAGE_MANAGERS: Record<PackageManager, true> = { npm: true, pnpm: true, yarn: true, bun: true };
+
+type PythonPackageManager = NonNullable<ProjectConfig['pythonPackageManager']>;
+
+export interface InstallStep {
+  // Dependency manifest that triggered the step, relative to the project root
+  manifest: string;
+  command: string;
+  args: string[];
+}
+
+export interface InstallStepResult {
+  command: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface InstallResult {
+  success: boolean;
+  packageManager: PackageManager;
+  steps: InstallStepResult[];
+}
+
+export interface InstallOptions {
+  // --package-manager flag
+  packageManager?: PackageManager;
+  // Config.defaultPackageManager
+  defaultPackageManager?: PackageManager;
+}
+
+// Lines of command output kept for the error message when a step fails
+const ERROR_TAIL_LINES = 10;
+
+/**
+ * Pick the JS package manager: flag, then the bun runtime, then the user config, then npm
+ */
+export function resolvePackageManager(config: ProjectConfig, options: InstallOptions = {}): PackageManager {
+  if (options.packageManager) return options.packageManager;
+  if (config.runtime === 'bun') return 'bun';
+  return options.defaultPackageManager ?? 'npm';
+}
+
+function pythonInstall(manager: PythonPackageManager, hasRequirements: boolean): Omit<InstallStep, 'manifest'> {
+  switch (manager) {
+    case 'uv':
+      return { command: 'uv', args: ['sync'] };
+    case 'poetry':
+      return { command: 'poetry', args: ['install'] };
+    case 'pipenv':
+      return { command: 'pipenv', args: ['install'] };
+    case 'pip':
+      return hasRequirements
+        ? { command: 'python3', args: ['-m', 'pip', 'install', '-r', 'requirements.txt'] }
+        : { command: 'python3', args: ['-m', 'pip', 'install', '-e', '.'] };
+  }
+}
+
+/**
+ * Work out the install commands from the dependency manifests that were generated
+ */
+export async function planInstall(
+  config: ProjectConfig,
+  projectPath: string,
+  options: InstallOptions = {}
+): Promise<InstallStep[]> {
+  const context = buildContext(config);
+  const exists = (file: string) => fs.pathExists(path.join(projectPath, file));
+  const steps: InstallStep[] = [];
+
+  if (await exists('package.json')) {
+    steps.push({ manifest: 'package.json', command: resolvePackageManager(config, options), args: ['install'] });
+  }
+
+  if (context.isPython || config.runtime === 'python') {
+    const hasRequirements = await exists('requirements.txt');
+    const manifest = (await exists('pyproject.toml')) ? 'pyproject.toml' : hasRequirements ? 'requirements.txt' : undefined;
+    if (manifest) {
+      steps.push({ manifest, ...pythonInstall(config.pythonPackageManager ?? 'uv', hasRequirements) });
+    }
+  }
+
+  if (await exists('go.mod')) {
+    steps.push({ manifest: 'go.mod', command: 'go', args: ['mod', 'tidy'] });
+  }
+
+  if (await exists('Cargo.toml')) {
+    steps.push({ manifest: 'Cargo.toml', command: 'cargo', args: ['fetch'] });
+  }
+
+  return steps;
+}
+
+/**
+ * Run install steps in order, streaming their output through the logger (shown with --verbose).
+ * Stops at the first failing step
+ */
+export async function runInstall(
+  projectPath: string,
+  steps: InstallStep[],
+  packageManager: PackageManager,
+  log: Logger = defaultLogger
+): Promise<InstallResult> {
+  const result: InstallResult = { success: true, packageManager, steps: [] };
+
+  for (const step of steps) {
+    const command = [step.command, ...step.args].join(' ');
+    log.info(`Installing dependencies: ${command}`);
+
+    const output: string[] = [];
+    const stream = (line: string) => {
+      output.push(line);
+      log.debug(line);
+    };
+
+    try {
+      const subprocess = execa(step.command, step.args, {
+        cwd: projectPath,
+        all: true,
+        stdin: 'ignore',
+        env: { FORCE_COLOR: '0' },
+      });
+      for await (const line of subprocess.iterable({ from: 'all' })) {
+        stream(line);
+      }
+      await subprocess;
+      log.success(`${command} finished`);
+      result.steps.push({ command, success: true });
+    } catch (error) {
+      const tail = output.slice(-ERROR_TAIL_LINES).join('\n');
+      const reason = (error as { code?: string }).code === 'ENOENT'
+        ? `${step.command} is not installed`
+        : (error as { shortMessage?: string }).shortMessage ?? String(error);
+      log.error(`${command} failed: ${reason}`);
+      if (tail) log.info(tail);
+      result.steps.push({ command, success: false, error: reason });
+      result.success = false;
+      break;
+    }
+  }
+
+  return result;
+}
+
+// Commands to start developing, by project type
+const PYTHON_DEV_COMMANDS: Record<string, string> = {
+  fastapi: 'fastapi dev',
+  litestar: 'litestar run --reload',
+};
+
+const PYTHON_RUNNERS: Record<PythonPackageManager, string> = {
+  uv: 'uv run ',
+  poetry: 'poetry run ',
+  pipenv: 'pipenv run ',
+  pip: '',
+};
+
+/**
+ * The command that starts the project in development, or undefined when there is none
+ */
+export async function devCommand(
+  config: ProjectConfig,
+  projectPath: string,
+  packageManager: PackageManager
+): Promise<string | undefined> {
+  const context = buildContext(config);
+
+  if (context.isPython) {
+    const runner = PYTHON_RUNNERS[config.pythonPackageManager ?? 'uv'];
+    return `${runner}${PYTHON_DEV_COMMANDS[config.type] ?? 'python -m app'}`;
+  }
+  if (context.isGo) return 'go run .';
+  if (context.isRust) return 'cargo run';
+  if (context.isDeno) return 'deno task dev';
+
+  const packageJson = path.join(projectPath, 'package.json');
+  try {
+    const pkg = await fs.readJson(packageJson);
+    for (const script of ['dev', 'start']) {
+      if (pkg.scripts?.[script]) return `${packageManager} run ${script}`;
+    }
+    return undefined;
+  } catch {
+    // Unreadable package.json: fall back to the conventional script
+    return (await fs.pathExists(packageJson)) ? `${packageManager} run dev` : undefined;
+  }
+}
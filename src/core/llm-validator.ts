@@ -11,6 +11,8 @@ import type { ProjectConfig } from '../lib/types.js';
 
 export type LLMProvider = 'anthropic' | 'openai' | 'gemini' | 'auto';
 
+export const LLM_PROVIDERS: Record<LLMProvider, true> = { anthropic: true, openai: true, gemini: true, auto: true };
+
 export interface LLMValidationResult {
   success: boolean;
   provider?: LLMProvider;
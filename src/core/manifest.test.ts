@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { createManifest, writeManifest, readManifest, hashContent, MANIFEST_FILE } from './manifest.js';
+import { VERSION } from '../version.js';
+
+describe('Project manifest', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-manifest-'));
+    await fs.outputFile(path.join(projectDir, 'README.md'), '# demo\n');
+    await fs.outputFile(path.join(projectDir, 'src', 'index.ts'), 'export {};\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectDir);
+  });
+
+  it('should hash every created file with sha256', async () => {
+    const manifest = await createManifest(projectDir, {
+      generator: 'fragments',
+      fragments: ['base', 'hono'],
+      files: ['README.md', path.join('src', 'index.ts')],
+    });
+
+    expect(manifest.kickoffVersion).toBe(VERSION);
+    expect(manifest.hashAlgorithm).toBe('sha256');
+    expect(manifest.fragments).toEqual(['base', 'hono']);
+    expect(manifest.files).toEqual({
+      'README.md': hashContent('# demo\n'),
+      'src/index.ts': hashContent('export {};\n'),
+    });
+  });
+
+  it('should skip files that no longer exist', async () => {
+    const manifest = await createManifest(projectDir, {
+      generator: 'scaffolder',
+      files: ['README.md', 'missing.txt'],
+    });
+    expect(Object.keys(manifest.files)).toEqual(['README.md']);
+  });
+
+  it('should round-trip through .kickoff.json', async () => {
+    const manifest = await createManifest(projectDir, {
+      generator: 'scaffolder',
+      templates: ['shared', 'cli'],
+      files: ['README.md'],
+    });
+    await writeManifest(projectDir, manifest);
+
+    expect(await fs.pathExists(path.join(projectDir, MANIFEST_FILE))).toBe(true);
+    expect(await readManifest(projectDir)).toEqual(manifest);
+  });
+
+  it('should return null when there is no manifest', async () => {
+    expect(await readManifest(projectDir)).toBeNull();
+  });
+
+  it('should reject a malformed manifest', async () => {
+    await fs.writeFile(path.join(projectDir, MANIFEST_FILE), '{"files": {}}');
+    await expect(readManifest(projectDir)).rejects.toThrow(/Invalid \.kickoff\.json/);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Project Manifest
+ * Records how a project was generated in .kickoff.json
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { VERSION } from '../version.js';
+import type { ProjectConfig } from '../lib/types.js';
+import type { GeneratorContext } from '../generator/types.js';
+
+export const MANIFEST_FILE = '.kickoff.json';
+// Pristine copies of generated files, used as the merge base on upgrade
+export const BASELINE_DIR = '.kickoff/base';
+
+// Project-relative path -> rendered content
+export type RenderedFiles = Map<string, string | Buffer>;
+
+// A custom template source (`create --template`) and the revision that was rendered
+export interface TemplateSourceRecord {
+  // Git URL as given, or the absolute path of a local directory
+  source: string;
+  mode: 'overlay' | 'replace';
+  // Commit of a git checkout ('-dirty' with local changes), otherwise a content digest
+  revision: string;
+}
+
+export interface ProjectManifest {
+  kickoffVersion: string;
+  generatedAt: string;
+  upgradedAt?: string;
+  // Which pipeline produced the project
+  generator: 'scaffolder' | 'fragments';
+  config?: ProjectConfig;
+  context?: GeneratorContext;
+  // Ordered fragment ids (fragments pipeline, plus anything added later)
+  fragments: string[];
+  // Fragments applied later with `kickoff add`, also listed in `fragments`
+  addedFragments?: string[];
+  // Template directories copied (scaffolder pipeline)
+  templates: string[];
+  templateSource?: TemplateSourceRecord;
+  hashAlgorithm: 'sha256';
+  // Project-relative path -> content hash
+  files: Record<string, string>;
+}
+
+export interface ManifestInput {
+  generator: ProjectManifest['generator'];
+  config?: ProjectConfig;
+  context?: GeneratorContext;
+  fragments?: string[];
+  templates?: string[];
+  templateSource?: TemplateSourceRecord;
+  // Files to hash on disk, or rendered content to hash as it is
+  files: string[] | RenderedFiles;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  return hashContent(await fs.readFile(filePath));
+}
+
+export async function hashFiles(
+  projectDir: string,
+  files: string[]
+): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const file of [...new Set(files)].sort()) {
+    const filePath = path.join(projectDir, file);
+    if (await fs.pathExists(filePath)) {
+      hashes[toManifestPath(file)] = await hashFile(filePath);
+    }
+  }
+  return hashes;
+}
+
+// Hash rendered content under its manifest path
+export function hashRendered(files: RenderedFiles): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const [file, content] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+    hashes[toManifestPath(file)] = hashContent(content);
+  }
+  return hashes;
+}
+
+export async function createManifest(projectDir: string, input: ManifestInput): Promise<ProjectManifest> {
+  return {
+    kickoffVersion: VERSION,
+    generatedAt: new Date().toISOString(),
+    generator: input.generator,
+    config: input.config,
+    context: input.context,
+    fragments: input.fragments ?? [],
+    templates: input.templates ?? [],
+    ...(input.templateSource && { templateSource: input.templateSource }),
+    hashAlgorithm: 'sha256',
+    files: input.files instanceof Map ? hashRendered(input.files) : await hashFiles(projectDir, input.files),
+  };
+}
+
+export async function writeManifest(projectDir: string, manifest: ProjectManifest): Promise<void> {
+  await fs.writeFile(
+    path.join(projectDir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2) + '\n',
+    'utf-8'
+  );
+}
+
+export async function readManifest(projectDir: string): Promise<ProjectManifest | null> {
+  const manifestPath = path.join(projectDir, MANIFEST_FILE);
+  if (!await fs.pathExists(manifestPath)) {
+    return null;
+  }
+
+  const data = await fs.readFile(manifestPath, 'utf-8');
+  try {
+    const manifest = JSON.parse(data) as ProjectManifest;
+    if (typeof manifest !== 'object' || manifest === null || !manifest.kickoffVersion) {
+      throw new Error('missing kickoffVersion');
+    }
+    return manifest;
+  } catch (error) {
+    throw new Error(`Invalid ${MANIFEST_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Replace the baseline snapshot with the given rendered files
+export async function writeBaseline(projectDir: string, files: RenderedFiles): Promise<void> {
+  const baselineDir = path.join(projectDir, BASELINE_DIR);
+  await fs.remove(baselineDir);
+  await addToBaseline(projectDir, files);
+}
+
+// Add or update files in the baseline snapshot
+export async function addToBaseline(projectDir: string, files: RenderedFiles): Promise<void> {
+  for (const [file, content] of files) {
+    const target = path.join(projectDir, BASELINE_DIR, file);
+    await fs.ensureDir(path.dirname(target));
+    await fs.writeFile(target, content);
+  }
+}
+
+export async function readBaseline(projectDir: string, file: string): Promise<Buffer | null> {
+  const target = path.join(projectDir, BASELINE_DIR, file);
+  if (!await fs.pathExists(target)) {
+    return null;
+  }
+  return fs.readFile(target);
+}
+
+// Manifest paths always use forward slashes
+export function toManifestPath(file: string): string {
+  return file.split(path.sep).join('/');
+}
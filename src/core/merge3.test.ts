@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { formatDiff, merge3 } from './merge3.js';
+
+const base = ['line 1', 'line 2', 'line 3', 'line 4', 'line 5', ''].join('\n');
+
+describe('merge3', () => {
+  it('takes theirs when ours is unchanged', () => {
+    const theirs = base.replace('line 2', 'line two');
+    expect(merge3(base, base, theirs)).toEqual({ content: theirs, conflicts: 0 });
+  });
+
+  it('takes ours when theirs is unchanged', () => {
+    const ours = base.replace('line 4', 'line four');
+    expect(merge3(base, ours, base)).toEqual({ content: ours, conflicts: 0 });
+  });
+
+  it('combines non-overlapping changes', () => {
+    const ours = base.replace('line 1', 'line one');
+    const theirs = base.replace('line 5', 'line five\nline 6');
+    const result = merge3(base, ours, theirs);
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe('line one\nline 2\nline 3\nline 4\nline five\nline 6\n');
+  });
+
+  it('accepts identical changes on both sides', () => {
+    const edited = base.replace('line 3', 'line three');
+    const ours = edited + 'local\n';
+    const result = merge3(base, ours, edited);
+    expect(result).toEqual({ content: ours, conflicts: 0 });
+  });
+
+  it('marks overlapping changes as conflicts', () => {
+    const ours = base.replace('line 3', 'mine');
+    const theirs = base.replace('line 3', 'template');
+    const result = merge3(base, ours, theirs, { oursLabel: 'current', theirsLabel: 'kickoff' });
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe([
+      'line 1',
+      'line 2',
+      '<<<<<<< current',
+      'mine',
+      '=======',
+      'template',
+      '>>>>>>> kickoff',
+      'line 4',
+      'line 5',
+      '',
+    ].join('\n'));
+  });
+
+  it('treats everything as a conflict without a common base', () => {
+    const result = merge3('', 'a\n', 'b\n');
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe('<<<<<<< ours\na\n=======\nb\n>>>>>>> theirs\n');
+  });
+});
+
+describe('formatDiff', () => {
+  it('shows each change with its context under a hunk header', () => {
+    const lines = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+    const after = [...lines];
+    after[1] = 'line two';
+    after.splice(10, 0, 'inserted');
+
+    expect(formatDiff(lines.join('\n') + '\n', after.join('\n') + '\n', 1)).toEqual([
+      '@@ -1,3 +1,3 @@',
+      ' line 1',
+      '-line 2',
+      '+line two',
+      ' line 3',
+      '@@ -10,2 +10,3 @@',
+      ' line 10',
+      '+inserted',
+      ' line 11',
+    ]);
+    expect(formatDiff('', 'new\n')).toEqual(['@@ -0,0 +1,1 @@', '+new']);
+    expect(formatDiff(base, base)).toEqual([]);
+  });
+});
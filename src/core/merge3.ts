@@ -0,0 +1,231 @@
+/**
+ * Three-way Merge
+ * Line-based diff3 merge of a base text with two edited versions, and diffs for display
+ */
+
+export interface Merge3Options {
+  // Label for the local side of a conflict (<<<<<<<)
+  oursLabel?: string;
+  // Label for the incoming side of a conflict (>>>>>>>)
+  theirsLabel?: string;
+}
+
+export interface Merge3Result {
+  content: string;
+  conflicts: number;
+}
+
+// A changed region: base[baseStart, baseEnd) was replaced by side[sideStart, sideEnd)
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+// Merge `ours` and `theirs`, both derived from `base`
+export function merge3(
+  base: string,
+  ours: string,
+  theirs: string,
+  options: Merge3Options = {}
+): Merge3Result {
+  const oursLabel = options.oursLabel ?? 'ours';
+  const theirsLabel = options.theirsLabel ?? 'theirs';
+
+  if (ours === theirs) return { content: ours, conflicts: 0 };
+  if (base === ours) return { content: theirs, conflicts: 0 };
+  if (base === theirs) return { content: ours, conflicts: 0 };
+
+  const baseLines = splitLines(base);
+  const oursLines = splitLines(ours);
+  const theirsLines = splitLines(theirs);
+
+  const hunks = [
+    ...diffLines(baseLines, oursLines).map(hunk => ({ hunk, side: 'ours' as const })),
+    ...diffLines(baseLines, theirsLines).map(hunk => ({ hunk, side: 'theirs' as const })),
+  ].sort((a, b) => a.hunk.baseStart - b.hunk.baseStart || a.hunk.baseEnd - b.hunk.baseEnd);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let cursor = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    // Group hunks that overlap or touch in the base
+    const group = [hunks[i]];
+    const groupStart = hunks[i].hunk.baseStart;
+    let groupEnd = hunks[i].hunk.baseEnd;
+    i++;
+    while (i < hunks.length && hunks[i].hunk.baseStart <= groupEnd) {
+      groupEnd = Math.max(groupEnd, hunks[i].hunk.baseEnd);
+      group.push(hunks[i]);
+      i++;
+    }
+
+    output.push(...baseLines.slice(cursor, groupStart));
+    cursor = groupEnd;
+
+    const oursHunks = group.filter(h => h.side === 'ours').map(h => h.hunk);
+    const theirsHunks = group.filter(h => h.side === 'theirs').map(h => h.hunk);
+    const oursChunk = sideRange(oursLines, baseLines, oursHunks, groupStart, groupEnd);
+    const theirsChunk = sideRange(theirsLines, baseLines, theirsHunks, groupStart, groupEnd);
+
+    if (theirsHunks.length === 0 || arraysEqual(oursChunk, theirsChunk)) {
+      output.push(...oursChunk);
+    } else if (oursHunks.length === 0) {
+      output.push(...theirsChunk);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${oursLabel}`,
+        ...oursChunk,
+        '=======',
+        ...theirsChunk,
+        `>>>>>>> ${theirsLabel}`
+      );
+    }
+  }
+
+  output.push(...baseLines.slice(cursor));
+
+  return { content: joinLines(output, theirs.endsWith('\n') || ours.endsWith('\n')), conflicts };
+}
+
+/**
+ * Unified diff lines from `before` to `after`: an `@@ -start,count +start,count @@` header per
+ * group of changes, then unchanged (' '), removed ('-') and added ('+') lines, with `context`
+ * unchanged lines around each change
+ */
+export function formatDiff(before: string, after: string, context = 3): string[] {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  const hunks = diffLines(beforeLines, afterLines);
+  const output: string[] = [];
+
+  let i = 0;
+  while (i < hunks.length) {
+    // Hunks whose context would overlap share a header
+    const group = [hunks[i++]];
+    while (i < hunks.length && hunks[i].baseStart - group[group.length - 1].baseEnd <= context * 2) {
+      group.push(hunks[i++]);
+    }
+
+    const first = group[0];
+    const last = group[group.length - 1];
+    const start = Math.max(0, first.baseStart - context);
+    const end = Math.min(beforeLines.length, last.baseEnd + context);
+    const sideStart = first.sideStart - (first.baseStart - start);
+    const sideEnd = last.sideEnd + (end - last.baseEnd);
+    // An empty range is numbered by the line before it, as in diff -u
+    const range = (from: number, to: number) => `${to === from ? from : from + 1},${to - from}`;
+    output.push(`@@ -${range(start, end)} +${range(sideStart, sideEnd)} @@`);
+
+    let cursor = start;
+    for (const hunk of group) {
+      output.push(...beforeLines.slice(cursor, hunk.baseStart).map(line => ` ${line}`));
+      output.push(...beforeLines.slice(hunk.baseStart, hunk.baseEnd).map(line => `-${line}`));
+      output.push(...afterLines.slice(hunk.sideStart, hunk.sideEnd).map(line => `+${line}`));
+      cursor = hunk.baseEnd;
+    }
+    output.push(...beforeLines.slice(cursor, end).map(line => ` ${line}`));
+  }
+
+  return output;
+}
+
+// Lines of one side covering base[start, end), given that side's hunks in that range
+function sideRange(
+  sideLines: string[],
+  baseLines: string[],
+  hunks: Hunk[],
+  start: number,
+  end: number
+): string[] {
+  if (hunks.length === 0) {
+    return baseLines.slice(start, end);
+  }
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  const sideStart = first.sideStart - (first.baseStart - start);
+  const sideEnd = last.sideEnd + (end - last.baseEnd);
+  return sideLines.slice(sideStart, sideEnd);
+}
+
+// Changed regions between two line arrays, from their longest common subsequence
+function diffLines(a: string[], b: string[]): Hunk[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+
+  // lengths[i * (m + 1) + j] = LCS length of a[prefix + i..] and b[prefix + j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let x = n - 1; x >= 0; x--) {
+    for (let y = m - 1; y >= 0; y--) {
+      lengths[x * (m + 1) + y] = a[prefix + x] === b[prefix + y]
+        ? lengths[(x + 1) * (m + 1) + y + 1] + 1
+        : Math.max(lengths[(x + 1) * (m + 1) + y], lengths[x * (m + 1) + y + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let x = 0;
+  let y = 0;
+  let pending: Hunk | null = null;
+
+  while (x < n || y < m) {
+    if (x < n && y < m && a[prefix + x] === b[prefix + y]) {
+      if (pending) {
+        hunks.push(pending);
+        pending = null;
+      }
+      x++;
+      y++;
+      continue;
+    }
+
+    if (!pending) {
+      pending = { baseStart: prefix + x, baseEnd: prefix + x, sideStart: prefix + y, sideEnd: prefix + y };
+    }
+    if (y >= m || (x < n && lengths[(x + 1) * (m + 1) + y] >= lengths[x * (m + 1) + y + 1])) {
+      x++;
+      pending.baseEnd = prefix + x;
+    } else {
+      y++;
+      pending.sideEnd = prefix + y;
+    }
+  }
+  if (pending) {
+    hunks.push(pending);
+  }
+
+  return hunks;
+}
+
+function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function joinLines(lines: string[], trailingNewline: boolean): string {
+  if (lines.length === 0) return '';
+  return lines.join('\n') + (trailingNewline ? '\n' : '');
+}
+
+function arraysEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
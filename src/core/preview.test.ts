@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseEnvFile, formatFileTree, formatSize, previewProject } from './preview.js';
+import { createProjectConfig } from '../lib/prompter.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+describe('parseEnvFile', () => {
+  it('should read KEY=value pairs and skip comments', () => {
+    const env = parseEnvFile([
+      '# Server',
+      'NODE_ENV=development',
+      '',
+      '# DATABASE_URL="commented out"',
+      'DATABASE_URL="postgresql://localhost:5432/app"',
+      "export API_KEY='secret'",
+      'EMPTY=',
+    ].join('\n'));
+
+    expect(env).toEqual([
+      { name: 'NODE_ENV', value: 'development' },
+      { name: 'DATABASE_URL', value: 'postgresql://localhost:5432/app' },
+      { name: 'API_KEY', value: 'secret' },
+      { name: 'EMPTY', value: '' },
+    ]);
+  });
+});
+
+describe('formatFileTree', () => {
+  it('should list directories before files with sizes', () => {
+    const tree = formatFileTree(
+      [
+        { path: 'package.json', size: 826 },
+        { path: 'src/index.ts', size: 2048 },
+        { path: '.env.example', size: 120 },
+      ],
+      ['prisma']
+    );
+
+    expect(tree).toBe([
+      '├── prisma/',
+      '├── src/',
+      '│   └── index.ts (2.0 KB)',
+      '├── .env.example (120 B)',
+      '└── package.json (826 B)',
+    ].join('\n'));
+  });
+});
+
+describe('formatSize', () => {
+  it('should switch to kilobytes at 1024 bytes', () => {
+    expect(formatSize(1023)).toBe('1023 B');
+    expect(formatSize(1536)).toBe('1.5 KB');
+  });
+});
+
+describe('previewProject', () => {
+  it('should only render Prisma files and dependencies when Prisma is the ORM', async () => {
+    const drizzle = await previewProject(createProjectConfig('app', { preset: 'saas-starter', port: 3000 }));
+    expect(drizzle.fragments).toContain('drizzle');
+    expect(drizzle.files.map(f => f.path).filter(file => /prisma/i.test(file))).toEqual([]);
+    expect(drizzle.directories).not.toContain('prisma');
+    expect(Object.keys({ ...drizzle.dependencies, ...drizzle.devDependencies }).filter(name => /prisma/.test(name))).toEqual([]);
+    const mentions = [...drizzle.rendered].filter(([, content]) => /prisma/i.test(content.toString())).map(([file]) => file);
+    expect(mentions).toEqual([]);
+
+    const prisma = await previewProject(createProjectConfig('app', { preset: 'saas-starter', orm: 'prisma', port: 3000 }));
+    expect(prisma.files.map(f => f.path)).toEqual(expect.arrayContaining(['src/lib/prisma.ts', 'prisma/schema.prisma']));
+    expect(prisma.dependencies['@prisma/client']).toBeDefined();
+  });
+
+  it('should install every package the database client imports', async () => {
+    const providers: ProjectConfig['databaseProvider'][] = [
+      'supabase', 'neon', 'turso', 'd1', 'sqlite', 'postgres-local', 'cockroachdb', 'mysql-local', 'planetscale',
+    ];
+    for (const orm of ['drizzle', 'kysely'] as const) {
+      for (const databaseProvider of providers) {
+        const preview = await previewProject(createProjectConfig('app', { type: 'hono-api', orm, databaseProvider, port: 3000 }));
+        const client = preview.rendered.get('src/db/index.ts')!.toString();
+        const pkg = JSON.parse(preview.rendered.get('package.json')!.toString());
+
+        const imported = [...client.matchAll(/from '([^.][^']*)'/g)]
+          .map(([, specifier]) => specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/'));
+        expect(imported.length, `${orm} + ${databaseProvider}`).toBeGreaterThan(0);
+        for (const name of imported) {
+          expect(pkg.dependencies, `${orm} + ${databaseProvider} imports ${name}`).toHaveProperty([name]);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Project Preview
+ * Runs the generator pipeline `create` uses against an in-memory output for `create --dry-run`
+ */
+
+import { ProjectScaffolder } from './ProjectScaffolder.js';
+import { BASELINE_DIR, MANIFEST_FILE, type RenderedFiles } from './manifest.js';
+import type { TemplateSet } from '../generator/engine.js';
+import type { GenerationPlan } from '../generator/types.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+export interface PreviewFile {
+  path: string;
+  size: number;
+}
+
+export interface PreviewEnvVar {
+  name: string;
+  value: string;
+  file: string;
+}
+
+export interface ProjectPreview {
+  // Generator fragments applied, in order
+  fragments: string[];
+  conflicts: GenerationPlan['conflicts'];
+  files: PreviewFile[];
+  // Files several fragments render into, with those fragments in order
+  merged: Record<string, string[]>;
+  directories: string[];
+  // Written alongside the rendered files (manifest and upgrade baseline)
+  metadata: string[];
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  env: PreviewEnvVar[];
+  warnings: string[];
+  rendered: RenderedFiles;
+}
+
+/**
+ * Render everything `create` would write, without touching disk
+ */
+export async function previewProject(config: ProjectConfig, templates?: TemplateSet): Promise<ProjectPreview> {
+  const scaffolder = new ProjectScaffolder(templates);
+  const projectPlan = scaffolder.plan(config);
+  if (projectPlan.errors.length > 0) {
+    throw new Error(projectPlan.errors.join(', '));
+  }
+  const rendered = await scaffolder.renderPlan(projectPlan);
+  const warnings = [...projectPlan.warnings];
+
+  const files = [...rendered]
+    .map(([file, content]) => ({ path: file, size: Buffer.byteLength(content) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  let dependencies: Record<string, string> = {};
+  let devDependencies: Record<string, string> = {};
+  const packageJson = rendered.get('package.json');
+  if (packageJson !== undefined) {
+    try {
+      const pkg = JSON.parse(packageJson.toString());
+      dependencies = pkg.dependencies ?? {};
+      devDependencies = pkg.devDependencies ?? {};
+    } catch {
+      warnings.push('package.json does not render to valid JSON; dependencies could not be listed');
+    }
+  }
+
+  const env = [...rendered]
+    .filter(([file]) => /(^|\/)\.env(\.[\w-]+)?$/.test(file))
+    .flatMap(([file, content]) => parseEnvFile(content.toString()).map(entry => ({ ...entry, file })));
+
+  return {
+    fragments: projectPlan.plan.fragments.map(fragment => fragment.id),
+    conflicts: projectPlan.plan.conflicts,
+    files,
+    merged: Object.fromEntries(Object.entries(projectPlan.plan.files)
+      .filter(([file, contributions]) => contributions.length > 1 && rendered.has(file))
+      .map(([file, contributions]) => [file, contributions.map(contribution => contribution.fragment)])),
+    directories: scaffolder.additionalDirs(config),
+    metadata: [MANIFEST_FILE, `${BASELINE_DIR}/`],
+    dependencies,
+    devDependencies,
+    env,
+    warnings,
+    rendered,
+  };
+}
+
+// KEY=value pairs from a dotenv file, ignoring comments and blank lines
+export function parseEnvFile(content: string): Array<{ name: string; value: string }> {
+  const entries: Array<{ name: string; value: string }> = [];
+  for (const line of content.split('\n')) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (match) {
+      entries.push({ name: match[1], value: match[2].trim().replace(/^(['"])(.*)\1$/, '$2') });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Format files as an indented tree with sizes
+ */
+export function formatFileTree(files: PreviewFile[], directories: string[] = []): string {
+  interface Node {
+    children: Map<string, Node>;
+    size?: number;
+  }
+  const root: Node = { children: new Map() };
+
+  const insert = (filePath: string, size?: number) => {
+    let node = root;
+    for (const part of filePath.split('/').filter(Boolean)) {
+      if (!node.children.has(part)) {
+        node.children.set(part, { children: new Map() });
+      }
+      node = node.children.get(part)!;
+    }
+    node.size = size;
+  };
+
+  directories.forEach(dir => insert(dir));
+  files.forEach(file => insert(file.path, file.size));
+
+  const lines: string[] = [];
+  const walk = (node: Node, indent: string) => {
+    // Directories first, then files, each alphabetically
+    const entries = [...node.children].sort(([nameA, a], [nameB, b]) => {
+      const dirA = a.size === undefined;
+      const dirB = b.size === undefined;
+      return dirA === dirB ? nameA.localeCompare(nameB) : dirA ? -1 : 1;
+    });
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1;
+      const label = child.size === undefined ? `${name}/` : `${name} (${formatSize(child.size)})`;
+      lines.push(`${indent}${last ? '└── ' : '├── '}${label}`);
+      walk(child, indent + (last ? '    ' : '│   '));
+    });
+  };
+  walk(root, '');
+
+  return lines.join('\n');
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
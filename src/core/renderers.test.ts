@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { getRenderer, outputName, renderTemplateFile, TemplateRenderError } from './renderers.js';
+
+describe('template renderers', () => {
+  let dir: string;
+  const context = { projectName: 'my-app', type: 'cli', year: 2030 };
+
+  const write = async (name: string, content: string) => {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, content);
+    return file;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-renderers-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should pick the renderer and output name by extension', () => {
+    expect(getRenderer('src/index.ts.ejs').name).toBe('ejs');
+    expect(getRenderer('README.md.hbs').name).toBe('handlebars');
+    expect(getRenderer('template.ejs.raw').name).toBe('verbatim');
+    expect(getRenderer('logo.png').name).toBe('verbatim');
+
+    expect(outputName('index.ts.ejs')).toBe('index.ts');
+    expect(outputName('README.md.hbs')).toBe('README.md');
+    expect(outputName('template.ejs.raw')).toBe('template.ejs');
+    expect(outputName('logo.png')).toBe('logo.png');
+  });
+
+  it('should expose the same helpers to EJS and Handlebars', async () => {
+    const ejsFile = await write('a.txt.ejs', "<%= pascal(projectName) %> <% if (if_eq(type, 'cli')) { %>cli<% } %> <%= year %>");
+    const hbsFile = await write('b.txt.hbs', '{{pascal projectName}} {{#if_eq type "cli"}}cli{{/if_eq}}');
+
+    // Context values win over helpers of the same name in EJS
+    expect(await renderTemplateFile(ejsFile, context)).toBe('MyApp cli 2030');
+    expect(await renderTemplateFile(hbsFile, context)).toBe('MyApp cli');
+  });
+
+  it('should copy raw and unknown files verbatim', async () => {
+    const raw = await write('c.ejs.raw', '<%= projectName %>');
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    const png = path.join(dir, 'logo.png');
+    await fs.writeFile(png, bytes);
+
+    expect((await renderTemplateFile(raw, context)).toString()).toBe('<%= projectName %>');
+    expect(await renderTemplateFile(png, context)).toEqual(bytes);
+  });
+
+  it('should report render errors with the template path and line', async () => {
+    const ejsFile = await write('broken.ts.ejs', 'line one\nline two\n<%= missingVariable %>\n');
+    const hbsFile = await write('broken.md.hbs', 'ok\n{{#if_eq type "cli"}}\nunclosed\n');
+
+    const ejsError = await renderTemplateFile(ejsFile, context).catch(error => error);
+    expect(ejsError).toBeInstanceOf(TemplateRenderError);
+    expect(ejsError.line).toBe(3);
+    expect(ejsError.message).toBe(`${ejsFile}:3: missingVariable is not defined`);
+
+    const hbsError = await renderTemplateFile(hbsFile, context).catch(error => error);
+    expect(hbsError).toBeInstanceOf(TemplateRenderError);
+    expect(hbsError.templatePath).toBe(hbsFile);
+    expect(hbsError.message.startsWith(`${hbsFile}`)).toBe(true);
+  });
+});
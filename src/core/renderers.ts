@@ -0,0 +1,111 @@
+/**
+ * Template Renderers
+ * Picks the engine for a template by extension: EJS, Handlebars or a verbatim copy
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import * as ejs from 'ejs';
+import { TemplateContext, createTemplateEngine } from './TemplateEngine.js';
+import { conditionHelpers, valueHelpers } from './helpers.js';
+
+export interface TemplateRenderer {
+  name: string;
+  // Extensions (with the dot) this renderer handles; stripped from the output file name
+  extensions: string[];
+  render(source: string, context: TemplateContext, templatePath: string): string;
+}
+
+/**
+ * A template failed to render; the message starts with `path:line`
+ */
+export class TemplateRenderError extends Error {
+  constructor(
+    public readonly templatePath: string,
+    public readonly line: number | undefined,
+    public readonly reason: string
+  ) {
+    super(`${templatePath}${line !== undefined ? `:${line}` : ''}: ${reason}`);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+const handlebarsEngine = createTemplateEngine();
+
+export const ejsRenderer: TemplateRenderer = {
+  name: 'ejs',
+  extensions: ['.ejs'],
+  render(source, context, templatePath) {
+    try {
+      // Context values win over helpers of the same name (e.g. `year`)
+      return ejs.render(source, { ...valueHelpers, ...conditionHelpers, ...context }, { filename: templatePath });
+    } catch (error) {
+      // ejs prefixes runtime errors with "<filename>:<line>", a source excerpt and a blank line
+      const message = error instanceof Error ? error.message : String(error);
+      const located = message.match(/^.*:(\d+)\n[\s\S]*?\n\n([\s\S]*)$/);
+      if (located) {
+        throw new TemplateRenderError(templatePath, Number(located[1]), located[2].trim());
+      }
+      throw new TemplateRenderError(templatePath, undefined, message.split('\n')[0]);
+    }
+  },
+};
+
+export const handlebarsRenderer: TemplateRenderer = {
+  name: 'handlebars',
+  extensions: ['.hbs'],
+  render(source, context, templatePath) {
+    try {
+      return handlebarsEngine.parse(source)(context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const line = message.match(/on line (\d+)/);
+      throw new TemplateRenderError(templatePath, line ? Number(line[1]) : undefined, message.split('\n')[0]);
+    }
+  },
+};
+
+export const verbatimRenderer: TemplateRenderer = {
+  name: 'verbatim',
+  extensions: ['.raw'],
+  render(source) {
+    return source;
+  },
+};
+
+const renderers = new Map<string, TemplateRenderer>();
+
+/**
+ * Register a renderer for its extensions, replacing any earlier one
+ */
+export function registerRenderer(renderer: TemplateRenderer): void {
+  for (const extension of renderer.extensions) {
+    renderers.set(extension.toLowerCase(), renderer);
+  }
+}
+
+registerRenderer(ejsRenderer);
+registerRenderer(handlebarsRenderer);
+registerRenderer(verbatimRenderer);
+
+// Renderer for a template path; anything unregistered is copied verbatim
+export function getRenderer(templatePath: string): TemplateRenderer {
+  return renderers.get(path.extname(templatePath).toLowerCase()) ?? verbatimRenderer;
+}
+
+// Output file name for a template: `index.ts.ejs` -> `index.ts`, `logo.png` -> `logo.png`
+export function outputName(templateName: string): string {
+  const extension = path.extname(templateName);
+  return renderers.has(extension.toLowerCase()) ? templateName.slice(0, -extension.length) : templateName;
+}
+
+/**
+ * Render one template file; verbatim files come back as raw bytes so binaries survive
+ */
+export async function renderTemplateFile(templatePath: string, context: TemplateContext): Promise<string | Buffer> {
+  const renderer = getRenderer(templatePath);
+  if (renderer === verbatimRenderer) {
+    return fs.readFile(templatePath);
+  }
+  return renderer.render(await fs.readFile(templatePath, 'utf-8'), context, templatePath);
+}
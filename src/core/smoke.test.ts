@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { checkFile, runSmokeCase, runSmokeTests, smokeCases } from './smoke.js';
+import { validateStackLocal } from './validator.js';
+import { loadTemplateSource, templateSetFor } from './templateSource.js';
+
+describe('checkFile', () => {
+  it('should report files that do not parse', async () => {
+    expect(await checkFile('package.json', '{ "name": "app", }')).toMatchObject([{ check: 'json', file: 'package.json' }]);
+    expect(await checkFile('.github/workflows/ci.yml', 'jobs:\n  build:\n    steps: [\n')).toMatchObject([{ check: 'yaml' }]);
+    expect((await checkFile('src/index.ts', 'export const port = ;\n'))[0]).toMatchObject({
+      check: 'typescript',
+      message: expect.stringMatching(/^line 1: Expression expected/),
+    });
+    expect(await checkFile('src/app/page.tsx', 'export default () => <main><h1>hi</h1></main>;\n')).toEqual([]);
+  });
+
+  it('should flag undefined and [object Object] the template did not contain', async () => {
+    const source = 'if (value === undefined) {}\nconst name = "<%= name %>";\n';
+
+    expect(await checkFile('src/a.ts', 'if (value === undefined) {}\nconst name = "app";\n', source)).toEqual([]);
+    expect(await checkFile('src/a.ts', 'if (value === undefined) {}\nconst name = "undefined";\n', source)).toEqual([
+      { check: 'leak', file: 'src/a.ts', message: "'undefined' rendered into the output 1 time(s)" },
+    ]);
+    expect(await checkFile('README.md', '# [object Object]\n')).toMatchObject([{ check: 'leak' }]);
+  });
+});
+
+describe('smokeCases', () => {
+  it('should cover every preset and a reproducible sample the stack rules accept', () => {
+    const cases = smokeCases({ sample: 10, seed: 7 });
+    const sampled = cases.filter(smokeCase => smokeCase.name.startsWith('sample'));
+
+    expect(cases.some(smokeCase => smokeCase.name === 'preset saas-starter')).toBe(true);
+    expect(sampled).toHaveLength(10);
+    expect(sampled.every(smokeCase => validateStackLocal(smokeCase.config).valid)).toBe(true);
+    expect(smokeCases({ sample: 10, seed: 7 }).map(smokeCase => smokeCase.name)).toEqual(cases.map(smokeCase => smokeCase.name));
+  });
+
+  it('should only render the requested presets', () => {
+    expect(smokeCases({ presets: ['edge-api'] }).map(smokeCase => smokeCase.name)).toEqual(['preset edge-api']);
+  });
+});
+
+describe('runSmokeCase', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-smoke-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should render a preset into the directory without issues', async () => {
+    const [edgeApi] = smokeCases({ presets: ['edge-api'] });
+    const result = await runSmokeCase(edgeApi, dir);
+
+    expect(result.issues).toEqual([]);
+    expect(result.files).toBeGreaterThan(0);
+    expect(await fs.pathExists(path.join(dir, 'drizzle.config.ts'))).toBe(true);
+  });
+
+  it('should report templates that fail to render and carry on with the other cases', async () => {
+    // Overlay the bundled templates with a Hono entry point that is not valid EJS
+    const templatesDir = path.join(dir, 'templates');
+    await fs.outputFile(path.join(templatesDir, 'hono-api/src/index.ts.ejs'), '<% if (true) { %>\nexport {};\n');
+    const source = await loadTemplateSource(templatesDir);
+
+    try {
+      const report = await runSmokeTests({ presets: ['edge-api', 'quick-cli'], templates: templateSetFor(source) });
+
+      expect(report.ok).toBe(false);
+      expect(report.cases.map(result => result.name)).toEqual(['preset edge-api', 'preset quick-cli']);
+      const [edgeApi, quickCli] = report.cases;
+      expect(edgeApi.issues).toEqual([{ check: 'render', message: expect.stringContaining('index.ts.ejs') }]);
+      expect(edgeApi.files).toBe(0);
+      expect(quickCli.issues).toEqual([]);
+    } finally {
+      source.dispose();
+    }
+  });
+
+  it('should render every preset cleanly', async () => {
+    const report = await runSmokeTests({ sample: 0 });
+
+    expect(report.cases.filter(result => result.issues.length > 0)).toEqual([]);
+  });
+});
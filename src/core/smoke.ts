@@ -0,0 +1,310 @@
+/**
+ * Template Smoke Tests
+ * Renders presets and sampled config combinations and checks that the output is well-formed
+ */
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { parseDocument } from 'yaml';
+import { ProjectScaffolder } from './ProjectScaffolder.js';
+import { validateStackLocal } from './validator.js';
+import { bundledTemplates, GenerationError, renderTemplate, writeRenderedFiles } from '../generator/index.js';
+import type { TemplateSet } from '../generator/engine.js';
+import type { RenderedFiles } from './manifest.js';
+import { createProjectConfig } from '../lib/prompter.js';
+import { getPresetNames } from '../lib/presets.js';
+import { getFieldChoices } from '../lib/spec.js';
+import type { ProjectConfig } from '../lib/types.js';
+
+export type SmokeCheck = 'source' | 'plan' | 'render' | 'json' | 'yaml' | 'typescript' | 'leak';
+
+export interface SmokeIssue {
+  check: SmokeCheck;
+  // Output file (or fragment template) the issue is about
+  file?: string;
+  message: string;
+}
+
+export interface SmokeCase {
+  name: string;
+  config: ProjectConfig;
+}
+
+export interface SmokeCaseResult {
+  name: string;
+  fragments: string[];
+  files: number;
+  issues: SmokeIssue[];
+}
+
+export interface SmokeReport {
+  ok: boolean;
+  seed: number;
+  cases: SmokeCaseResult[];
+  // Checks that could not run, e.g. without the typescript package
+  notices: string[];
+}
+
+export interface SmokeOptions {
+  // Sampled combinations on top of the presets
+  sample?: number;
+  seed?: number;
+  // Only run these presets (no sampling unless `sample` is given)
+  presets?: string[];
+  // Keep the rendered projects under this directory instead of a discarded temp dir
+  keepDir?: string;
+  // Templates to render; the bundled ones by default
+  templates?: TemplateSet;
+}
+
+export const DEFAULT_SAMPLE_SIZE = 24;
+
+// Fields varied by the sampled matrix; the rest keep createProjectConfig's defaults
+const SAMPLED_FIELDS: Array<keyof ProjectConfig> = [
+  'type', 'databaseProvider', 'orm', 'authProvider', 'aiFramework', 'vectorDB', 'embeddingProvider',
+  'useDesignSystem', 'cliInteractive', 'cliConfigFile', 'cliShellCompletion', 'mcpTransport', 'libraryTestFramework',
+];
+
+// Draws before giving up on finding another combination the stack rules accept
+const MAX_DRAWS_PER_CASE = 200;
+
+// mulberry32: small seeded PRNG so a failing sample can be reproduced with --seed
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function fieldChoices(field: keyof ProjectConfig): unknown[] {
+  const choices = getFieldChoices(field);
+  return choices.length > 0 ? choices : [true, false];
+}
+
+/**
+ * Every preset, then `sample` random combinations that pass the stack rules
+ */
+export function smokeCases(options: SmokeOptions = {}): SmokeCase[] {
+  const presets = options.presets ?? getPresetNames().filter(name => name !== 'none');
+  const cases: SmokeCase[] = presets.map(preset => ({
+    name: `preset ${preset}`,
+    config: createProjectConfig('smoke-app', { preset: preset as ProjectConfig['preset'], port: 3000 }),
+  }));
+
+  const sample = options.sample ?? (options.presets ? 0 : DEFAULT_SAMPLE_SIZE);
+  const next = random(options.seed ?? 1);
+  const seen = new Set<string>();
+
+  for (let draws = 0; seen.size < sample && draws < sample * MAX_DRAWS_PER_CASE; draws++) {
+    const answers: Record<string, unknown> = { port: 3000 };
+    for (const field of SAMPLED_FIELDS) {
+      const choices = fieldChoices(field);
+      answers[field] = choices[Math.floor(next() * choices.length)];
+    }
+
+    const config = createProjectConfig('smoke-app', answers as Partial<ProjectConfig>);
+    const key = SAMPLED_FIELDS.map(field => String(config[field])).join('|');
+    if (seen.has(key) || !validateStackLocal(config).valid) continue;
+
+    seen.add(key);
+    const described = SAMPLED_FIELDS
+      .filter(field => config[field] !== 'none' && typeof config[field] !== 'boolean')
+      .map(field => config[field]);
+    cases.push({ name: `sample ${seen.size}: ${described.join(' + ')}`, config });
+  }
+
+  return cases;
+}
+
+type TypeScript = typeof import('typescript');
+
+let typescript: Promise<TypeScript | null> | undefined;
+
+// The compiler is a dev dependency, so installs of the CLI may not have it; the typescript check is skipped then
+function loadTypeScript(): Promise<TypeScript | null> {
+  typescript ??= import('typescript').then(module => module.default, () => null);
+  return typescript;
+}
+
+// Parse errors for a TS/JS file, using the compiler's syntax check only
+async function typescriptErrors(file: string, content: string): Promise<string[]> {
+  const ts = await loadTypeScript();
+  if (!ts) return [];
+
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: file,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.Latest },
+  });
+  return diagnostics.map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (diagnostic.file && diagnostic.start !== undefined) {
+      const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return `line ${line + 1}: ${message}`;
+    }
+    return message;
+  });
+}
+
+const occurrences = (text: string, needle: string) => text.split(needle).length - 1;
+
+/**
+ * Check one output file; `source` is the template it came from, if any
+ */
+export async function checkFile(file: string, content: string, source?: string): Promise<SmokeIssue[]> {
+  const issues: SmokeIssue[] = [];
+  const name = path.basename(file);
+  const extension = path.extname(file).toLowerCase();
+
+  if (extension === '.json') {
+    try {
+      JSON.parse(content);
+    } catch (error) {
+      issues.push({ check: 'json', file, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (extension === '.yml' || extension === '.yaml') {
+    const document = parseDocument(content);
+    for (const error of document.errors) {
+      issues.push({ check: 'yaml', file, message: error.message.split('\n')[0] });
+    }
+  }
+
+  if (['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'].includes(extension) && !name.endsWith('.d.ts')) {
+    for (const message of await typescriptErrors(file, content)) {
+      issues.push({ check: 'typescript', file, message });
+    }
+  }
+
+  // A literal `undefined` in the template itself is fine; more of them in the output is a leak
+  for (const leak of ['undefined', '[object Object]']) {
+    const extra = occurrences(content, leak) - (source ? occurrences(source, leak) : 0);
+    if (extra > 0) {
+      issues.push({ check: 'leak', file, message: `'${leak}' rendered into the output ${extra} time(s)` });
+    }
+  }
+
+  return issues;
+}
+
+// First template directory that has the file, as rendering looks them up
+async function findSource(dirs: string[], source: string): Promise<string | undefined> {
+  for (const dir of dirs) {
+    if (await fs.pathExists(path.join(dir, source))) return path.join(dir, source);
+  }
+  return undefined;
+}
+
+/**
+ * Render one case into `outputDir` and check every file. Templates that fail to render are
+ * reported as issues of the case
+ */
+export async function runSmokeCase(
+  smokeCase: SmokeCase,
+  outputDir: string,
+  templates: TemplateSet = bundledTemplates()
+): Promise<SmokeCaseResult> {
+  const scaffolder = new ProjectScaffolder(templates);
+  const projectPlan = scaffolder.plan(smokeCase.config);
+  const fragments = projectPlan.plan.fragments;
+  const result: SmokeCaseResult = { name: smokeCase.name, fragments: fragments.map(f => f.id), files: 0, issues: [] };
+
+  for (const error of projectPlan.errors) {
+    result.issues.push({ check: 'plan', message: error });
+  }
+
+  for (const fragment of fragments) {
+    for (const file of fragment.files) {
+      if (!await findSource(templates.dirs, path.join(fragment.path, file.source))) {
+        result.issues.push({
+          check: 'source',
+          file: path.join(fragment.path, file.source),
+          message: `${fragment.id} references a template that does not exist`,
+        });
+      }
+    }
+  }
+
+  // Templates each output file is rendered from, following the plan's merge strategies
+  const sources = new Map<string, string[]>();
+  for (const [destination, contributions] of Object.entries(projectPlan.plan.files)) {
+    const sourcePaths: string[] = [];
+    for (const { source } of contributions) {
+      const sourcePath = source && await findSource(templates.dirs, source);
+      if (sourcePath) sourcePaths.push(sourcePath);
+    }
+    if (sourcePaths.length > 0) sources.set(destination, sourcePaths);
+  }
+
+  let rendered: RenderedFiles;
+  try {
+    rendered = await scaffolder.renderPlan(projectPlan);
+  } catch (error) {
+    if (!(error instanceof GenerationError)) throw error;
+    result.issues.push(...error.errors.map(message => ({ check: 'render' as const, message })));
+    return result;
+  }
+  for (const [destination, sourcePaths] of sources) {
+    if (rendered.has(destination)) continue;
+    const reason = await renderTemplate(sourcePaths[sourcePaths.length - 1], projectPlan.context).then(
+      () => 'was not rendered',
+      (error: unknown) => (error instanceof Error ? error.message : String(error))
+    );
+    result.issues.push({ check: 'render', file: destination, message: reason });
+  }
+
+  await writeRenderedFiles(rendered, outputDir);
+  result.files = rendered.size;
+
+  for (const file of rendered.keys()) {
+    const content = await fs.readFile(path.join(outputDir, file));
+    // Binary output (copied verbatim) has nothing to parse
+    if (content.includes(0)) continue;
+
+    const sourcePaths = sources.get(file);
+    const source = sourcePaths
+      ? (await Promise.all(sourcePaths.map(sourcePath => fs.readFile(sourcePath, 'utf-8')))).join('\n')
+      : undefined;
+    result.issues.push(...await checkFile(file, content.toString('utf-8'), source));
+  }
+
+  return result;
+}
+
+/**
+ * Run every case, each in its own directory
+ */
+export async function runSmokeTests(
+  options: SmokeOptions = {},
+  onCase?: (result: SmokeCaseResult) => void
+): Promise<SmokeReport> {
+  const cases = smokeCases(options);
+  const rootDir = options.keepDir
+    ? path.resolve(options.keepDir)
+    : await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-smoke-'));
+  const report: SmokeReport = { ok: true, seed: options.seed ?? 1, cases: [], notices: [] };
+  if (!await loadTypeScript()) {
+    report.notices.push('typescript is not installed; TS/JS files were not syntax-checked (npm install typescript to enable it)');
+  }
+
+  try {
+    for (const [index, smokeCase] of cases.entries()) {
+      const result = await runSmokeCase(smokeCase, path.join(rootDir, String(index + 1).padStart(3, '0')), options.templates);
+      report.cases.push(result);
+      if (result.issues.length > 0) report.ok = false;
+      onCase?.(result);
+    }
+  } finally {
+    if (!options.keepDir) {
+      await fs.remove(rootDir);
+    }
+  }
+
+  return report;
+}
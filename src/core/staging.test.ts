@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { stageOutput } from './staging.js';
+import { ProjectScaffolder } from './ProjectScaffolder.js';
+import { bundledTemplates } from '../generator/engine.js';
+import { createProjectConfig } from '../lib/prompter.js';
+
+describe('staged output', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-staging-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should move a new directory into place only once it is complete', async () => {
+    const output = path.join(dir, 'nested', 'app');
+    const files = await stageOutput(output, async stagingDir => {
+      expect(await fs.pathExists(output)).toBe(false);
+      await fs.outputFile(path.join(stagingDir, 'src/index.ts'), 'export {};\n');
+      return ['src/index.ts'];
+    });
+
+    expect(files).toEqual(['src/index.ts']);
+    expect(await fs.readFile(path.join(output, 'src/index.ts'), 'utf-8')).toBe('export {};\n');
+    expect(await fs.readdir(path.join(dir, 'nested'))).toEqual(['app']);
+  });
+
+  it('should leave existing content untouched when the build fails', async () => {
+    await fs.outputFile(path.join(dir, 'app/notes.md'), 'mine\n');
+    const build = async (stagingDir: string) => {
+      await fs.outputFile(path.join(stagingDir, 'notes.md'), 'generated\n');
+      throw new Error('template failed');
+    };
+
+    await expect(stageOutput(path.join(dir, 'app'), build)).rejects.toThrow('template failed');
+    await expect(stageOutput(path.join(dir, 'missing/parents/app'), build)).rejects.toThrow('template failed');
+    expect(await fs.readdir(dir)).toEqual(['app']);
+    expect(await fs.readFile(path.join(dir, 'app/notes.md'), 'utf-8')).toBe('mine\n');
+  });
+
+  it('should put replaced files back when moving into an existing directory fails', async () => {
+    await fs.outputFile(path.join(dir, 'app/a.txt'), 'original\n');
+    await fs.outputFile(path.join(dir, 'app/b/keep.txt'), 'kept\n');
+
+    // `b` is a directory in the output, so moving a file there fails after a.txt was replaced
+    await expect(stageOutput(path.join(dir, 'app'), async stagingDir => {
+      await fs.outputFile(path.join(stagingDir, 'a.txt'), 'new\n');
+      await fs.outputFile(path.join(stagingDir, 'b'), 'not a directory\n');
+    })).rejects.toThrow('is a directory; the project needs a file there');
+
+    expect(await fs.readdir(dir)).toEqual(['app']);
+    expect(await fs.readFile(path.join(dir, 'app/a.txt'), 'utf-8')).toBe('original\n');
+    expect(await fs.readFile(path.join(dir, 'app/b/keep.txt'), 'utf-8')).toBe('kept\n');
+  });
+
+  it('should report every template that fails and create nothing', async () => {
+    const overlay = path.join(dir, 'templates');
+    await fs.outputFile(path.join(overlay, 'shared/README.md.ejs'), '# <%= missing.name %>\n');
+    await fs.outputFile(path.join(overlay, 'shared/CLAUDE.md.ejs'), '<% if ( %>\n');
+    const bundled = bundledTemplates();
+    const scaffolder = new ProjectScaffolder({ ...bundled, dirs: [overlay, ...bundled.dirs] });
+
+    const output = path.join(dir, 'projects');
+    const result = await scaffolder.create(createProjectConfig('acme-api', { preset: 'edge-api' }), output);
+
+    expect(result.success).toBe(false);
+    expect(result.filesCreated).toEqual([]);
+    expect(result.errors).toEqual([
+      expect.stringContaining('README.md.ejs'),
+      expect.stringContaining('CLAUDE.md.ejs'),
+    ]);
+    expect(await fs.pathExists(output)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Staged Output
+ * Build a project in a staging directory and move it into place only once it is complete
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { randomBytes } from 'crypto';
+
+// Staged paths relative to the staging directory, each directory before its contents
+async function listStaged(stagingDir: string, prefix = ''): Promise<Array<{ path: string; directory: boolean }>> {
+  const entries: Array<{ path: string; directory: boolean }> = [];
+  const dirents = await fs.readdir(path.join(stagingDir, prefix), { withFileTypes: true });
+  for (const entry of dirents.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relative = path.join(prefix, entry.name);
+    entries.push({ path: relative, directory: entry.isDirectory() });
+    if (entry.isDirectory()) {
+      entries.push(...await listStaged(stagingDir, relative));
+    }
+  }
+  return entries;
+}
+
+// Move staged entries into an existing directory one by one. Files they replace are set aside
+// first, so a failed move can undo every earlier one and put the originals back
+async function moveInto(stagingDir: string, outputDir: string): Promise<void> {
+  const replacedDir = `${stagingDir}.replaced`;
+  const undo: Array<() => Promise<void>> = [];
+
+  try {
+    for (const entry of await listStaged(stagingDir)) {
+      const target = path.join(outputDir, entry.path);
+      if (entry.directory) {
+        const existing = await fs.stat(target).catch(() => null);
+        if (!existing) {
+          await fs.mkdir(target);
+          undo.push(() => fs.remove(target));
+        } else if (!existing.isDirectory()) {
+          throw new Error(`${target} is a file; the project needs a directory there`);
+        }
+        continue;
+      }
+
+      // Only files are set aside; a directory in the way is never replaced
+      const existing = await fs.lstat(target).catch(() => null);
+      if (existing?.isDirectory()) {
+        throw new Error(`${target} is a directory; the project needs a file there`);
+      }
+      if (existing) {
+        const replaced = path.join(replacedDir, entry.path);
+        await fs.ensureDir(path.dirname(replaced));
+        await fs.rename(target, replaced);
+        undo.push(() => fs.rename(replaced, target));
+      }
+      await fs.rename(path.join(stagingDir, entry.path), target);
+      undo.push(() => fs.remove(target));
+    }
+  } catch (error) {
+    for (const step of undo.reverse()) {
+      await step().catch(() => {});
+    }
+    throw error;
+  } finally {
+    await fs.remove(replacedDir);
+  }
+}
+
+// The outermost ancestor of `dir` (or `dir` itself) that does not exist yet
+async function firstMissing(dir: string): Promise<string | undefined> {
+  let missing: string | undefined;
+  for (let current = dir; !await fs.pathExists(current); current = path.dirname(current)) {
+    missing = current;
+  }
+  return missing;
+}
+
+/**
+ * Run `build` against an empty staging directory created next to `outputDir`, then move what it
+ * wrote into place: a new output directory is renamed into place in one step, an existing one
+ * receives the staged files with every replaced file restored if a move fails. When `build`
+ * throws nothing is moved, so a failed generation leaves `outputDir` exactly as it was
+ */
+export async function stageOutput<T>(outputDir: string, build: (stagingDir: string) => Promise<T>): Promise<T> {
+  const target = path.resolve(outputDir);
+  const created = await firstMissing(path.dirname(target));
+  await fs.ensureDir(path.dirname(target));
+
+  // A sibling, so the final rename stays on one filesystem
+  const stagingDir = path.join(path.dirname(target), `.${path.basename(target)}.kickoff-${randomBytes(4).toString('hex')}`);
+  await fs.mkdir(stagingDir);
+
+  try {
+    const value = await build(stagingDir);
+    if (await fs.pathExists(target)) {
+      await moveInto(stagingDir, target);
+    } else {
+      await fs.rename(stagingDir, target);
+    }
+    return value;
+  } catch (error) {
+    // Parent directories made only for this project go too
+    if (created) await fs.remove(created);
+    throw error;
+  } finally {
+    await fs.remove(stagingDir);
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { execa } from 'execa';
+import { isGitSource, loadTemplateSource, templateSetFor, validateTemplateDir, TemplateSourceError } from './templateSource.js';
+import { ProjectScaffolder } from './ProjectScaffolder.js';
+import { createProjectConfig } from '../lib/prompter.js';
+
+const logging = {
+  id: 'company-logging',
+  name: 'Company logging',
+  category: 'tooling',
+  description: 'Structured logger',
+  files: [{ source: 'logger.ts.ejs', destination: 'src/lib/logger.ts' }],
+  packageJson: { dependencies: { pino: '^9.0.0' } },
+};
+
+describe('template sources', () => {
+  let dir: string;
+  const config = createProjectConfig('acme-api', { preset: 'edge-api', port: 3000 });
+
+  const write = (file: string, content: string) => fs.outputFile(path.join(dir, file), content);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-template-source-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should tell git URLs from local paths', () => {
+    expect(isGitSource('https://github.com/acme/templates.git')).toBe(true);
+    expect(isGitSource('git@github.com:acme/templates.git#v2')).toBe(true);
+    expect(isGitSource('./our-templates')).toBe(false);
+  });
+
+  it('should report misplaced templates and broken fragment manifests', async () => {
+    await write('sharde/README.md.ejs', '# <%= name %>\n');
+    await write('logging/fragment.json', JSON.stringify({ ...logging, dependencies: ['metrics'] }));
+    await write('broken/fragment.yaml', 'id: Broken\ncategory: misc\nfiles: none\n');
+
+    const { issues } = await validateTemplateDir(dir, 'overlay');
+    expect(issues).toEqual([
+      'broken/fragment.yaml: id must be a kebab-case string',
+      'broken/fragment.yaml: name must be a string',
+      'broken/fragment.yaml: description must be a string',
+      expect.stringMatching(/^broken\/fragment\.yaml: category must be one of base, runtime/),
+      'broken/fragment.yaml: files must be a list of { source, destination }',
+    ]);
+
+    await fs.remove(path.join(dir, 'broken'));
+    const second = await validateTemplateDir(dir, 'overlay');
+    expect(second.issues).toEqual([
+      "logging/: 'company-logging' depends on unknown fragment 'metrics'",
+      "logging/: 'company-logging' renders src/lib/logger.ts from logging/logger.ts.ejs, which does not exist",
+      expect.stringMatching(/^sharde\/: no fragment uses this directory \(known: cli, docker, github-actions, /),
+    ]);
+    await expect(loadTemplateSource(dir)).rejects.toBeInstanceOf(TemplateSourceError);
+  });
+
+  it('should overlay the bundled templates and apply the fragments it adds', async () => {
+    await write('shared/README.md.ejs', '# <%= name %> (ACME)\n');
+    await write('logging/logger.ts.ejs', 'export const logger = "<%= nameKebab %>";\n');
+    await write('logging/fragment.json', JSON.stringify(logging));
+
+    const source = await loadTemplateSource(dir);
+    expect(source.revision).toMatch(/^sha256:[0-9a-f]{64}$/);
+
+    const scaffolder = new ProjectScaffolder(templateSetFor(source));
+    const projectPlan = scaffolder.plan(config);
+    const rendered = await scaffolder.renderPlan(projectPlan);
+
+    expect(projectPlan.plan.fragments.map(f => f.id)).toContain('company-logging');
+    expect(rendered.get('README.md')).toBe('# acme-api (ACME)\n');
+    expect(rendered.get('src/lib/logger.ts')).toBe('export const logger = "acme-api";\n');
+    // Everything the source does not override still comes from the bundled templates
+    expect(JSON.parse(String(rendered.get('package.json'))).dependencies).toMatchObject({ '@libsql/client': expect.any(String), pino: '^9.0.0' });
+  });
+
+  it('should only render the source in replace mode', async () => {
+    await write('shared/README.md.ejs', '# <%= name %>\n');
+
+    const scaffolder = new ProjectScaffolder(templateSetFor(await loadTemplateSource(dir, 'replace')));
+    const rendered = await scaffolder.renderPlan(scaffolder.plan(config));
+
+    expect([...rendered.keys()].sort()).toEqual(['.env.example', 'README.md', 'package.json']);
+  });
+
+  it('should clone git sources at a ref and record the source and commit in the manifest', async () => {
+    const repo = path.join(dir, 'repo');
+    const git = async (...args: string[]) => (await execa('git', args, { cwd: repo })).stdout.trim();
+    await fs.outputFile(path.join(repo, 'shared/README.md.ejs'), '# <%= name %> from git\n');
+    await git('init', '--quiet');
+    await git('checkout', '--quiet', '-b', 'stable');
+    await git('add', '.');
+    await git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '--no-gpg-sign', '-m', 'templates');
+    const commit = await git('rev-parse', 'HEAD');
+
+    const url = `file://${repo}#stable`;
+    const source = await loadTemplateSource(url);
+    expect(source.revision).toBe(commit);
+
+    const result = await new ProjectScaffolder(templateSetFor(source)).create(config, path.join(dir, 'out'));
+    expect(result.errors).toEqual([]);
+    const manifest = await fs.readJson(path.join(result.projectPath, '.kickoff.json'));
+    expect(manifest.templateSource).toEqual({ source: url, mode: 'overlay', revision: commit });
+    expect(await fs.readFile(path.join(result.projectPath, 'README.md'), 'utf-8')).toBe('# acme-api from git\n');
+
+    source.dispose();
+    expect(await fs.pathExists(source.dir)).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Template Sources
+ * Custom template directories (a local path or a git URL) that overlay or replace the bundled templates
+ */
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { execa } from 'execa';
+import { gitFailure } from './git.js';
+import { hashContent } from './manifest.js';
+import { bundledTemplates, type TemplateSet } from '../generator/engine.js';
+import { createFragmentLoader, FragmentManifestError } from '../generator/loader.js';
+import type { TemplateFragment } from '../generator/types.js';
+
+export type TemplateMode = 'overlay' | 'replace';
+
+export const TEMPLATE_MODES: TemplateMode[] = ['overlay', 'replace'];
+
+export interface TemplateSource {
+  // Local path or git URL, as given
+  source: string;
+  mode: TemplateMode;
+  // Directory holding the templates (a temporary clone for git sources)
+  dir: string;
+  revision: string;
+  // Fragments defined by the source's fragment manifests
+  fragments: TemplateFragment[];
+  // Remove the clone of a git source; synchronous so it can run from an exit handler
+  dispose(): void;
+}
+
+export class TemplateSourceError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid template source ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'TemplateSourceError';
+  }
+}
+
+// Root entries that are not template directories
+const IGNORED_ENTRY = /^(\.|readme|license|changelog)/i;
+
+/**
+ * Whether a `--template` value is a git URL rather than a local path
+ */
+export function isGitSource(source: string): boolean {
+  return /^(https?|ssh|git|file):\/\//.test(source) || /^[\w.-]+@[\w.-]+:/.test(source);
+}
+
+/**
+ * Check that a directory is laid out like src/templates and that its fragment manifests are
+ * well-formed, reference templates that exist and only depend on fragments that will be available
+ */
+export async function validateTemplateDir(
+  dir: string,
+  mode: TemplateMode
+): Promise<{ fragments: TemplateFragment[]; issues: string[] }> {
+  if (!await fs.pathExists(dir) || !(await fs.stat(dir)).isDirectory()) {
+    return { fragments: [], issues: [`${dir} is not a directory`] };
+  }
+
+  let fragments: TemplateFragment[];
+  try {
+    fragments = await createFragmentLoader(dir).loadAllFragments();
+  } catch (error) {
+    if (error instanceof FragmentManifestError) {
+      return { fragments: [], issues: error.issues };
+    }
+    throw error;
+  }
+
+  const issues: string[] = [];
+  const templates = combineTemplates(mode, dir, fragments);
+  const available = new Set(templates.fragments.map(fragment => fragment.id));
+  for (const fragment of fragments) {
+    for (const dependency of fragment.dependencies ?? []) {
+      if (!available.has(dependency)) {
+        issues.push(`${fragment.path}/: '${fragment.id}' depends on unknown fragment '${dependency}'`);
+      }
+    }
+    for (const file of fragment.files) {
+      const found = await Promise.all(templates.dirs.map(templatesDir =>
+        fs.pathExists(path.join(templatesDir, fragment.path, file.source))));
+      if (!found.includes(true)) {
+        issues.push(`${fragment.path}/: '${fragment.id}' renders ${file.destination} from ${path.posix.join(fragment.path, file.source)}, which does not exist`);
+      }
+    }
+  }
+
+  // Every root directory must belong to a fragment, which catches misspelt template directories
+  const roots = new Set(templates.fragments.map(fragment => fragment.path.split(/[\\/]/)[0]));
+  let templateDirs = 0;
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (IGNORED_ENTRY.test(entry.name)) continue;
+    if (!entry.isDirectory()) {
+      issues.push(`${entry.name}: unexpected file; templates go in a fragment's directory`);
+    } else if (!roots.has(entry.name)) {
+      issues.push(`${entry.name}/: no fragment uses this directory (known: ${[...roots].sort().join(', ')})`);
+    } else {
+      templateDirs++;
+    }
+  }
+  if (templateDirs === 0) {
+    issues.push('no template directories or fragment manifests found');
+  }
+
+  return { fragments, issues };
+}
+
+// Overlay searches the source before the bundled templates and lets its definitions replace
+// bundled fragments by id; replace only reads the source, and only its fragments when it defines any
+function combineTemplates(mode: TemplateMode, dir: string, defined: TemplateFragment[]): TemplateSet {
+  const bundled = bundledTemplates();
+  const bundledIds = new Set(bundled.fragments.map(fragment => fragment.id));
+  const added = defined.filter(fragment => !bundledIds.has(fragment.id));
+
+  const fragments = mode === 'replace' && defined.length > 0
+    ? defined
+    : [...bundled.fragments.map(fragment => defined.find(f => f.id === fragment.id) ?? fragment), ...added];
+
+  return {
+    dirs: mode === 'replace' ? [dir] : [dir, ...bundled.dirs],
+    fragments,
+    // Fragments kickoff does not know are applied to every project
+    include: added.map(fragment => fragment.id),
+  };
+}
+
+/**
+ * The templates and fragments a project is generated from with this source
+ */
+export function templateSetFor(source: TemplateSource): TemplateSet {
+  return {
+    ...combineTemplates(source.mode, source.dir, source.fragments),
+    // Local paths are recorded absolute so `kickoff upgrade` finds them from the project
+    source: { source: isGitSource(source.source) ? source.source : source.dir, mode: source.mode, revision: source.revision },
+  };
+}
+
+// Commit of the checkout holding `dir`, marked '-dirty' when it has local changes; null outside git
+async function gitRevision(dir: string): Promise<string | null> {
+  try {
+    const { stdout: commit } = await execa('git', ['rev-parse', 'HEAD'], { cwd: dir, stdin: 'ignore' });
+    const { stdout: status } = await execa('git', ['status', '--porcelain', '--', '.'], { cwd: dir, stdin: 'ignore' });
+    return status.trim() ? `${commit.trim()}-dirty` : commit.trim();
+  } catch {
+    return null;
+  }
+}
+
+// Digest over every file's path and content, for sources that are not git checkouts
+async function contentDigest(dir: string): Promise<string> {
+  const entries: string[] = [];
+  const walk = async (current: string): Promise<void> => {
+    for (const entry of await fs.readdir(current, { withFileTypes: true })) {
+      if (entry.name === '.git') continue;
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      } else {
+        const relative = path.relative(dir, entryPath).split(path.sep).join('/');
+        entries.push(`${relative}\0${hashContent(await fs.readFile(entryPath))}`);
+      }
+    }
+  };
+  await walk(dir);
+  return `sha256:${hashContent(entries.sort().join('\n'))}`;
+}
+
+// Shallow-clone a git source; `url#ref` checks out a branch or tag
+async function cloneSource(source: string): Promise<{ dir: string; revision: string; dispose(): void }> {
+  const hash = source.lastIndexOf('#');
+  const url = hash === -1 ? source : source.slice(0, hash);
+  const ref = hash === -1 ? undefined : source.slice(hash + 1);
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-templates-'));
+  const dispose = () => fs.removeSync(dir);
+  try {
+    await execa('git', ['clone', '--quiet', '--depth', '1', ...(ref ? ['--branch', ref] : []), url, dir], {
+      stdin: 'ignore',
+      env: { GIT_TERMINAL_PROMPT: '0' },
+    });
+  } catch (error) {
+    dispose();
+    throw new TemplateSourceError(source, [`git clone failed: ${gitFailure(error, 'git')}`]);
+  }
+
+  const revision = await gitRevision(dir);
+  return { dir, revision: revision ?? 'unknown', dispose };
+}
+
+/**
+ * Resolve a `--template` value to a validated local directory: clone git URLs, then check the
+ * layout and fragment manifests. Throws a TemplateSourceError listing every problem found
+ */
+export async function loadTemplateSource(source: string, mode: TemplateMode = 'overlay'): Promise<TemplateSource> {
+  if (!TEMPLATE_MODES.includes(mode)) {
+    throw new TemplateSourceError(source, [`mode must be one of ${TEMPLATE_MODES.join(', ')} (got '${mode}')`]);
+  }
+
+  const fetched = isGitSource(source)
+    ? await cloneSource(source)
+    : { dir: path.resolve(source), revision: undefined, dispose: () => {} };
+
+  const { fragments, issues } = await validateTemplateDir(fetched.dir, mode);
+  if (issues.length > 0) {
+    fetched.dispose();
+    throw new TemplateSourceError(source, issues);
+  }
+
+  const revision = fetched.revision ?? (await gitRevision(fetched.dir)) ?? (await contentDigest(fetched.dir));
+  return { source, mode, dir: fetched.dir, revision, fragments, dispose: fetched.dispose };
+}
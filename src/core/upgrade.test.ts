@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { upgradeProject } from './upgrade.js';
+import { ProjectScaffolder } from './ProjectScaffolder.js';
+import { BASELINE_DIR, hashContent, readManifest, writeManifest } from './manifest.js';
+import { loadTemplateSource, templateSetFor } from './templateSource.js';
+import { addFragment } from '../generator/adder.js';
+import { NEW_FILE_SUFFIX } from '../generator/collisions.js';
+import { createProjectConfig } from '../lib/prompter.js';
+
+describe('upgradeProject', () => {
+  let dir: string;
+  let project: string;
+
+  const read = (file: string) => fs.readFile(path.join(project, file), 'utf-8');
+  const statuses = (result: Awaited<ReturnType<typeof upgradeProject>>) =>
+    result.files.filter(f => f.status !== 'unchanged' || f.detail).map(f => [f.file, f.status, f.detail]);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-upgrade-test-'));
+    const config = createProjectConfig('acme-cli', { preset: 'quick-cli', port: 4000 });
+    const result = await new ProjectScaffolder().create(config, dir);
+    expect(result.success).toBe(true);
+    project = result.projectPath;
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should change nothing when neither the templates nor the project changed', async () => {
+    const result = await upgradeProject(project, { dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.conflicts).toBe(0);
+    expect(statuses(result)).toEqual([]);
+  });
+
+  it('should update unmodified files from the templates and keep local changes', async () => {
+    // An older template rendered a different README, which the user never touched
+    const oldReadme = '# acme-cli\n\nOld README\n';
+    await fs.outputFile(path.join(project, 'README.md'), oldReadme);
+    await fs.outputFile(path.join(project, BASELINE_DIR, 'README.md'), oldReadme);
+    const manifest = (await readManifest(project))!;
+    manifest.files['README.md'] = hashContent(oldReadme);
+    await writeManifest(project, manifest);
+    const current = await read('src/index.ts');
+    await fs.outputFile(path.join(project, 'src/index.ts'), current + '// local change\n');
+
+    const result = await upgradeProject(project);
+
+    expect(result.conflicts).toBe(0);
+    expect(statuses(result)).toEqual([
+      ['README.md', 'auto-merged', 'updated from templates'],
+      ['src/index.ts', 'unchanged', 'kept local changes'],
+    ]);
+    expect(await read('README.md')).not.toBe(oldReadme);
+    expect(await read('src/index.ts')).toBe(current + '// local change\n');
+  });
+
+  it('should remove files that are no longer generated unless they were modified', async () => {
+    const manifest = (await readManifest(project))!;
+    for (const file of ['src/legacy.ts', 'src/edited.ts']) {
+      await fs.outputFile(path.join(project, file), 'export {};\n');
+      await fs.outputFile(path.join(project, BASELINE_DIR, file), 'export {};\n');
+      manifest.files[file] = hashContent('export {};\n');
+    }
+    await writeManifest(project, manifest);
+    await fs.outputFile(path.join(project, 'src/edited.ts'), 'export const mine = 1;\n');
+
+    const result = await upgradeProject(project);
+
+    expect(statuses(result)).toEqual([
+      ['src/edited.ts', 'removed', 'no longer generated; kept because it was modified locally'],
+      ['src/legacy.ts', 'removed', undefined],
+    ]);
+    expect(await fs.pathExists(path.join(project, 'src/legacy.ts'))).toBe(false);
+    expect(await read('src/edited.ts')).toBe('export const mine = 1;\n');
+  });
+
+  it('should not replace generated files with those of a fragment added later', async () => {
+    const entry = await read('src/index.ts');
+    const added = await addFragment('hono', project);
+    expect(added.filesSkipped).toEqual(expect.arrayContaining(['src/index.ts', 'Dockerfile', 'package.json']));
+    expect(added.filesCreated).toEqual(['src/routes/health.ts']);
+    const packageJson = await read('package.json');
+
+    const result = await upgradeProject(project);
+
+    expect(result.conflicts).toBe(0);
+    expect(statuses(result)).toEqual([['package.json', 'unchanged', 'kept local changes']]);
+    expect(await read('src/index.ts')).toBe(entry);
+    expect(await read('package.json')).toBe(packageJson);
+    expect((await readManifest(project))!.files['src/routes/health.ts']).toBeDefined();
+  });
+
+  it('should treat files kept or merged on collision as local changes', async () => {
+    const config = createProjectConfig('acme-cli', { preset: 'quick-cli', port: 4000 });
+    const generated = await new ProjectScaffolder().create(config, path.join(dir, 'fresh'));
+    const fresh = (file: string) => fs.readFile(path.join(generated.projectPath, file), 'utf-8');
+    project = path.join(dir, 'existing', 'acme-cli');
+    await fs.outputFile(path.join(project, 'README.md'), '# mine\n');
+    await fs.outputFile(path.join(project, 'src/index.ts'), '// mine\n');
+    await fs.outputJson(path.join(project, 'package.json'), { name: 'acme-cli', scripts: { lint: 'eslint .' } });
+
+    const result = await new ProjectScaffolder().create(config, path.join(dir, 'existing'), {
+      resolveCollision: async ({ file }) => file === 'README.md' ? 'kickoff-new' : file === 'package.json' ? 'merge' : 'keep',
+    });
+    expect(result.collisions.map(c => c.file)).toEqual(['README.md', 'package.json', 'src/index.ts']);
+
+    // The manifest and baseline describe what the templates rendered, not the resolved files
+    const manifest = (await readManifest(project))!;
+    expect(manifest.files).toEqual((await readManifest(generated.projectPath))!.files);
+    expect(manifest.files[`README.md${NEW_FILE_SUFFIX}`]).toBeUndefined();
+    for (const file of ['README.md', 'src/index.ts', 'package.json']) {
+      expect(await read(path.join(BASELINE_DIR, file))).toBe(await fresh(file));
+    }
+
+    const upgrade = await upgradeProject(project);
+
+    expect(upgrade.conflicts).toBe(0);
+    expect(statuses(upgrade)).toEqual([
+      ['README.md', 'unchanged', 'kept local changes'],
+      ['package.json', 'unchanged', 'kept local changes'],
+      ['src/index.ts', 'unchanged', 'kept local changes'],
+    ]);
+    expect(await read('README.md')).toBe('# mine\n');
+    expect(await read('src/index.ts')).toBe('// mine\n');
+    expect(await read(`README.md${NEW_FILE_SUFFIX}`)).toBe(await fresh('README.md'));
+  });
+
+  it('should upgrade against the custom templates the project was generated from', async () => {
+    const templates = path.join(dir, 'templates');
+    await fs.outputFile(path.join(templates, 'shared/README.md.ejs'), '# <%= name %> (ACME)\n');
+    const source = await loadTemplateSource(templates);
+    const config = createProjectConfig('acme-api', { preset: 'quick-cli', port: 4000 });
+    project = (await new ProjectScaffolder(templateSetFor(source)).create(config, path.join(dir, 'custom'))).projectPath;
+
+    expect(statuses(await upgradeProject(project, { dryRun: true }))).toEqual([]);
+
+    await fs.outputFile(path.join(templates, 'shared/README.md.ejs'), '# <%= name %> (ACME v2)\n');
+    await upgradeProject(project);
+    expect(await read('README.md')).toBe('# acme-api (ACME v2)\n');
+
+    const moved = path.join(dir, 'moved-templates');
+    await fs.move(templates, moved);
+    const failed = await upgradeProject(project);
+    expect(failed.success).toBe(false);
+    expect(failed.errors[0]).toContain('pass --template <source> if they moved');
+
+    const result = await upgradeProject(project, { template: moved });
+    expect(result.success).toBe(true);
+    expect(statuses(result)).toEqual([]);
+    expect((await readManifest(project))!.templateSource?.source).toBe(moved);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Project Upgrade
+ * Re-renders a generated project with the current templates and merges the result
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { ProjectScaffolder } from './ProjectScaffolder.js';
+import { merge3 } from './merge3.js';
+import {
+  MANIFEST_FILE,
+  ProjectManifest,
+  RenderedFiles,
+  hashContent,
+  hashRendered,
+  readBaseline,
+  readManifest,
+  writeBaseline,
+  writeManifest,
+} from './manifest.js';
+import { loadTemplateSource, templateSetFor, type TemplateSource } from './templateSource.js';
+import { VERSION } from '../version.js';
+import {
+  createGenerationPlan,
+  loadProjectContext,
+  renderFragmentFiles,
+  renderGeneratedFiles,
+  resolveFragmentOrder,
+} from '../generator/index.js';
+import { bundledTemplates, type TemplateSet } from '../generator/engine.js';
+import type { TemplateFragment } from '../generator/types.js';
+
+export type UpgradeStatus = 'unchanged' | 'auto-merged' | 'conflicted' | 'new' | 'removed';
+
+export interface UpgradeFileOutcome {
+  file: string;
+  status: UpgradeStatus;
+  detail?: string;
+}
+
+export interface UpgradeOptions {
+  dryRun?: boolean;
+  // Custom templates to upgrade against instead of the source recorded in the manifest
+  template?: string;
+}
+
+export interface UpgradeResult {
+  success: boolean;
+  fromVersion?: string;
+  toVersion: string;
+  files: UpgradeFileOutcome[];
+  conflicts: number;
+  warnings: string[];
+  errors: string[];
+}
+
+// Upgrade a generated project to the current templates
+export async function upgradeProject(
+  projectDir: string,
+  options: UpgradeOptions = {}
+): Promise<UpgradeResult> {
+  const result: UpgradeResult = {
+    success: false,
+    toVersion: VERSION,
+    files: [],
+    conflicts: 0,
+    warnings: [],
+    errors: [],
+  };
+
+  const projectPath = path.resolve(projectDir);
+
+  let manifest: ProjectManifest | null;
+  try {
+    manifest = await readManifest(projectPath);
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : String(error));
+    return result;
+  }
+  if (!manifest) {
+    result.errors.push(`No ${MANIFEST_FILE} found in ${projectPath}; only projects generated by kickoff can be upgraded`);
+    return result;
+  }
+  result.fromVersion = manifest.kickoffVersion;
+
+  // 1. Re-render the original configuration with the current version of its templates; a
+  // project from custom templates is never upgraded against the bundled ones
+  const location = options.template ?? manifest.templateSource?.source;
+  let source: TemplateSource | undefined;
+  if (location) {
+    try {
+      source = await loadTemplateSource(location, manifest.templateSource?.mode);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push(options.template
+        ? message
+        : `${message}\nThe project was generated from these templates; pass --template <source> if they moved`);
+      return result;
+    }
+  }
+  const templates = source ? templateSetFor(source) : bundledTemplates();
+
+  let rendered: RenderedFiles;
+  try {
+    rendered = await renderFromManifest(projectPath, manifest, templates, result.warnings);
+  } catch (error) {
+    result.errors.push(`Failed to render templates: ${error instanceof Error ? error.message : String(error)}`);
+    return result;
+  } finally {
+    source?.dispose();
+  }
+
+  // 2. Merge every generated or previously generated file
+  const writes = new Map<string, string | Buffer>();
+  const removals: string[] = [];
+  const files = [...new Set([...rendered.keys(), ...Object.keys(manifest.files)])].sort();
+
+  for (const file of files) {
+    const filePath = path.join(projectPath, file);
+    const next = rendered.get(file);
+    const current = await fs.pathExists(filePath) ? await fs.readFile(filePath) : null;
+    const known = file in manifest.files;
+    const locallyModified = current !== null && known && hashContent(current) !== manifest.files[file];
+
+    if (next === undefined) {
+      if (current === null) continue;
+      if (locallyModified) {
+        result.files.push({ file, status: 'removed', detail: 'no longer generated; kept because it was modified locally' });
+      } else {
+        removals.push(file);
+        result.files.push({ file, status: 'removed' });
+      }
+      continue;
+    }
+
+    if (current === null) {
+      if (known) {
+        result.files.push({ file, status: 'unchanged', detail: 'deleted locally; left deleted' });
+      } else {
+        writes.set(file, next);
+        result.files.push({ file, status: 'new' });
+      }
+      continue;
+    }
+
+    if (sameContent(current, next)) {
+      result.files.push({ file, status: 'unchanged' });
+      continue;
+    }
+
+    const base = known ? await readBaseline(projectPath, file) ?? (locallyModified ? null : current) : null;
+
+    if (base && sameContent(base, next)) {
+      result.files.push({ file, status: 'unchanged', detail: locallyModified ? 'kept local changes' : undefined });
+      continue;
+    }
+
+    if (known && !locallyModified) {
+      writes.set(file, next);
+      result.files.push({ file, status: 'auto-merged', detail: 'updated from templates' });
+      continue;
+    }
+
+    if (Buffer.isBuffer(next)) {
+      result.conflicts++;
+      result.files.push({ file, status: 'conflicted', detail: 'binary file changed on both sides; kept local version' });
+      continue;
+    }
+
+    const merged = merge3(base?.toString('utf-8') ?? '', current.toString('utf-8'), next, {
+      oursLabel: 'local',
+      theirsLabel: `kickoff ${VERSION}`,
+    });
+    writes.set(file, merged.content);
+    if (merged.conflicts > 0) {
+      result.conflicts += merged.conflicts;
+      result.files.push({
+        file,
+        status: 'conflicted',
+        detail: `${merged.conflicts} conflict${merged.conflicts === 1 ? '' : 's'}${base ? '' : ' (no baseline to merge from)'}`,
+      });
+    } else {
+      result.files.push({ file, status: 'auto-merged' });
+    }
+  }
+
+  // 3. Apply changes and record the new baseline
+  if (!options.dryRun) {
+    for (const [file, content] of writes) {
+      const filePath = path.join(projectPath, file);
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, content);
+    }
+    for (const file of removals) {
+      await fs.remove(path.join(projectPath, file));
+    }
+
+    await writeManifest(projectPath, {
+      ...manifest,
+      kickoffVersion: VERSION,
+      upgradedAt: new Date().toISOString(),
+      templateSource: templates.source,
+      files: hashRendered(rendered),
+    });
+    await writeBaseline(projectPath, rendered);
+  }
+
+  result.success = true;
+  return result;
+}
+
+// Render the project described by a manifest with the given templates
+async function renderFromManifest(
+  projectPath: string,
+  manifest: ProjectManifest,
+  templates: TemplateSet,
+  warnings: string[]
+): Promise<RenderedFiles> {
+  const fragments: TemplateFragment[] = [];
+  for (const id of manifest.fragments) {
+    const fragment = templates.fragments.find(f => f.id === id);
+    if (fragment) {
+      fragments.push(fragment);
+    } else {
+      warnings.push(`Fragment '${id}' no longer exists; its files are treated as removed`);
+    }
+  }
+
+  // Fragments added later with `kickoff add`; every fragment of a scaffolder project was
+  const added = new Set(manifest.generator === 'fragments' ? manifest.addedFragments ?? [] : manifest.fragments);
+
+  let rendered: RenderedFiles;
+  if (manifest.generator === 'fragments') {
+    if (!manifest.context) {
+      throw new Error(`${MANIFEST_FILE} has no generator context`);
+    }
+    const generated = fragments.filter(fragment => !added.has(fragment.id));
+    const plan = createGenerationPlan(resolveFragmentOrder(generated), manifest.context);
+    rendered = await renderGeneratedFiles(plan, manifest.context, templates.dirs);
+  } else {
+    if (!manifest.config) {
+      throw new Error(`${MANIFEST_FILE} has no project config`);
+    }
+    rendered = await new ProjectScaffolder().render(manifest.config, manifest.templates);
+  }
+
+  const later = fragments.filter(fragment => added.has(fragment.id));
+  if (later.length > 0) {
+    const context = await loadProjectContext(projectPath);
+    const fragmentFiles = await renderFragmentFiles(later, context, templates.dirs);
+    for (const [file, content] of fragmentFiles) {
+      // `kickoff add` never overwrites template files, and a file it skipped because the
+      // project already had one is not the fragment's either
+      const skipped = !(file in manifest.files) && await fs.pathExists(path.join(projectPath, file));
+      if (!rendered.has(file) && !skipped) {
+        rendered.set(file, content);
+      }
+    }
+  }
+
+  return rendered;
+}
+
+function sameContent(a: string | Buffer, b: string | Buffer): boolean {
+  return Buffer.from(a).equals(Buffer.from(b));
+}
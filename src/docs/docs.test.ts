@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { Command } from 'commander';
+import { renderStacksPage, renderUsagePage } from './index.js';
+import { escapeHtml } from './html.js';
+import { getAllOptions } from '../knowledge/index.js';
+import { CONSTRAINTS } from '../core/constraints.js';
+import { PRESETS } from '../lib/presets.js';
+
+describe('renderStacksPage', () => {
+  const page = renderStacksPage();
+
+  it('should include every knowledge base option, preset and constraint', () => {
+    for (const option of getAllOptions().filter(option => option.id !== 'none')) {
+      expect(page).toContain(`<span class="card-name">${option.id}</span>`);
+    }
+    for (const preset of Object.keys(PRESETS)) {
+      expect(page).toContain(`kickoff create my-app --preset ${preset}`);
+    }
+    for (const constraint of CONSTRAINTS) {
+      expect(page).toContain(escapeHtml(constraint.message));
+    }
+  });
+
+  it('should be deterministic', () => {
+    expect(renderStacksPage()).toBe(page);
+  });
+});
+
+describe('renderUsagePage', () => {
+  it('should document commands, subcommands and their options', () => {
+    const program = new Command().name('kickoff');
+    program.command('create').description('Create a new project').option('-p, --preset <name>', 'Use a preset');
+    program.command('docs').description('Open usage guide').command('build').description('Render the docs');
+
+    const page = renderUsagePage(program);
+
+    expect(page).toContain('<h3 id="cmd-create">kickoff create</h3>');
+    expect(page).toContain('<code>-p, --preset &lt;name&gt;</code>');
+    expect(page).toContain('<h3 id="cmd-docs-build">kickoff docs build</h3>');
+  });
+});
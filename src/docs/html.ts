@@ -0,0 +1,171 @@
+/**
+ * HTML Helpers
+ * Shared layout, styles and escaping for the generated documentation pages
+ */
+
+import { VERSION } from '../version.js';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Tagged template that escapes every interpolated value; pass `raw()` output to skip escaping
+export function html(strings: TemplateStringsArray, ...values: Array<string | number | RawHtml | RawHtml[]>): RawHtml {
+  let out = strings[0];
+  values.forEach((value, index) => {
+    const parts = Array.isArray(value) ? value : [value];
+    out += parts.map(part => (part instanceof RawHtml ? part.value : escapeHtml(String(part)))).join('');
+    out += strings[index + 1];
+  });
+  return new RawHtml(out);
+}
+
+export class RawHtml {
+  constructor(readonly value: string) {}
+}
+
+export function raw(value: string): RawHtml {
+  return new RawHtml(value);
+}
+
+export interface NavLink {
+  href: string;
+  label: string;
+  // Links to the other page are highlighted
+  external?: boolean;
+}
+
+export interface PageOptions {
+  title: string;
+  heading: string;
+  subtitle: string;
+  stats?: Array<{ value: number; label: string }>;
+  search?: { placeholder: string; filters: string[] };
+  nav: NavLink[];
+  sections: RawHtml[];
+}
+
+const STYLE = `
+    :root{--bg:#0d1117;--bg2:#161b22;--bg3:#21262d;--border:#30363d;--text:#e6edf3;--muted:#8b949e;--blue:#58a6ff;--green:#3fb950;--purple:#a371f7;--orange:#d29922;--pink:#db61a2;--cyan:#39c5cf;--red:#f85149}
+    *{box-sizing:border-box;margin:0;padding:0}body{font-family:'Inter',sans-serif;background:var(--bg);color:var(--text);line-height:1.6}
+    .container{max-width:1400px;margin:0 auto;padding:2rem}
+    header{text-align:center;padding:3rem 0;border-bottom:1px solid var(--border);margin-bottom:2rem}
+    h1{font-size:2.5rem;background:linear-gradient(135deg,var(--blue),var(--purple));-webkit-background-clip:text;-webkit-text-fill-color:transparent}
+    .subtitle{color:var(--muted);font-size:1.1rem;margin-top:.5rem}
+    .version{display:inline-block;margin-top:.75rem;font-family:'JetBrains Mono',monospace;font-size:.85rem;color:var(--muted)}
+    .stats{display:flex;justify-content:center;gap:2rem;margin-top:1.5rem;flex-wrap:wrap}
+    .stat{background:var(--bg2);padding:.75rem 1.5rem;border-radius:8px;border:1px solid var(--border)}
+    .stat-num{font-size:1.5rem;font-weight:700;color:var(--blue)}.stat-label{font-size:.85rem;color:var(--muted)}
+    .search-bar{display:flex;gap:1rem;margin-bottom:2rem;flex-wrap:wrap}
+    .search-input{flex:1;min-width:250px;padding:.75rem 1rem;background:var(--bg2);border:1px solid var(--border);border-radius:8px;color:var(--text);font-size:1rem}
+    .search-input:focus{outline:none;border-color:var(--blue)}
+    .filter-btn{padding:.75rem 1.25rem;background:var(--bg2);border:1px solid var(--border);border-radius:8px;color:var(--muted);cursor:pointer;font-size:.9rem;transition:all .2s}
+    .filter-btn:hover,.filter-btn.active{background:var(--bg3);color:var(--text);border-color:var(--blue)}
+    nav{display:flex;flex-wrap:wrap;gap:.5rem;margin-bottom:2rem;padding:1rem;background:var(--bg2);border-radius:12px;border:1px solid var(--border)}
+    nav a{padding:.5rem 1rem;color:var(--muted);text-decoration:none;border-radius:6px;font-size:.9rem;transition:all .2s}
+    nav a:hover{background:var(--bg3);color:var(--text)}nav a.external{color:var(--green)}
+    section{margin-bottom:3rem;scroll-margin-top:2rem}
+    h2{font-size:1.5rem;font-weight:600;margin-bottom:1rem;padding-bottom:.5rem;border-bottom:2px solid var(--border);display:flex;align-items:center;gap:.75rem}
+    h2 .count{font-size:.85rem;color:var(--muted);font-weight:500;margin-left:auto}
+    h3{font-size:1.1rem;margin:1.5rem 0 .75rem}
+    p{color:var(--muted);margin-bottom:1rem}
+    .cards{display:grid;grid-template-columns:repeat(auto-fill,minmax(320px,1fr));gap:1rem}
+    .card{background:var(--bg2);border:1px solid var(--border);border-radius:12px;padding:1.25rem;transition:all .2s}
+    .card:hover{border-color:var(--blue);transform:translateY(-2px)}
+    .card-header{display:flex;align-items:center;gap:.75rem;margin-bottom:.75rem;flex-wrap:wrap}
+    .card-name{font-family:'JetBrains Mono',monospace;font-weight:600;font-size:1rem;color:var(--blue)}
+    .card-title{color:var(--text);font-size:.9rem}
+    .badge{font-size:.7rem;padding:.2rem .5rem;border-radius:4px;font-weight:500;text-transform:uppercase}
+    .badge-free{background:rgba(63,185,80,.2);color:var(--green)}.badge-paid{background:rgba(210,153,34,.2);color:var(--orange)}
+    .badge-oss{background:rgba(163,113,247,.2);color:var(--purple)}.badge-local{background:rgba(57,197,207,.2);color:var(--cyan)}
+    .badge-error{background:rgba(248,81,73,.2);color:var(--red)}.badge-warning{background:rgba(210,153,34,.2);color:var(--orange)}
+    .card-desc{color:var(--muted);font-size:.9rem;margin-bottom:.75rem;line-height:1.5}
+    .card-meta{display:flex;flex-wrap:wrap;gap:.5rem;font-size:.8rem}
+    .meta-tag{background:var(--bg3);padding:.25rem .5rem;border-radius:4px;color:var(--muted)}
+    .card details{margin-top:.75rem;font-size:.85rem;color:var(--muted)}
+    .card summary{cursor:pointer;color:var(--text)}
+    .card details ul{margin:.5rem 0 .5rem 1.25rem}
+    .compat{margin-top:.5rem}.compat b{color:var(--text);font-weight:500}
+    .card a,td a{color:var(--blue);text-decoration:none}
+    .preset-card{background:linear-gradient(135deg,var(--bg2),var(--bg3));border:1px solid var(--border);border-radius:12px;padding:1.5rem;transition:all .2s}
+    .preset-card:hover{border-color:var(--purple);transform:translateY(-2px)}
+    .preset-name{font-family:'JetBrains Mono',monospace;font-weight:600;font-size:1.1rem;color:var(--purple);margin-bottom:.5rem}
+    .preset-desc{color:var(--muted);font-size:.9rem;margin-bottom:1rem}
+    .preset-stack{display:flex;flex-wrap:wrap;gap:.5rem}
+    .stack-item{background:var(--bg);padding:.25rem .6rem;border-radius:4px;font-size:.8rem;color:var(--muted);font-family:'JetBrains Mono',monospace}
+    .preset-cmd{margin-top:1rem;padding:.75rem;background:var(--bg);border-radius:6px;font-family:'JetBrains Mono',monospace;font-size:.85rem;color:var(--green);display:flex;align-items:center;justify-content:space-between;gap:.5rem}
+    .copy-btn{background:transparent;border:none;color:var(--muted);cursor:pointer;padding:.25rem;border-radius:4px;transition:all .2s}
+    .copy-btn:hover{color:var(--blue);background:var(--bg3)}
+    table{width:100%;border-collapse:collapse;margin-bottom:1.5rem;font-size:.9rem}
+    th,td{text-align:left;padding:.5rem .75rem;border-bottom:1px solid var(--border);vertical-align:top}
+    th{color:var(--muted);font-weight:500}
+    code{font-family:'JetBrains Mono',monospace;font-size:.85rem;color:var(--blue)}
+    footer{text-align:center;padding:2rem;border-top:1px solid var(--border);color:var(--muted);font-size:.9rem}
+    footer a{color:var(--blue);text-decoration:none}footer a:hover{text-decoration:underline}
+    @media(max-width:768px){.container{padding:1rem}h1{font-size:1.75rem}.cards{grid-template-columns:1fr}}
+    .hidden{display:none!important}`;
+
+const SCRIPT = `
+function copyToClipboard(btn){const t=btn.previousElementSibling.textContent.trim();navigator.clipboard.writeText(t).then(()=>{const o=btn.textContent;btn.textContent='Done';setTimeout(()=>btn.textContent=o,1500)})}
+const searchInput=document.getElementById('search'),cards=document.querySelectorAll('.card,.preset-card');
+if(searchInput){searchInput.addEventListener('input',e=>{const q=e.target.value.toLowerCase();cards.forEach(c=>{const t=c.textContent.toLowerCase(),tags=c.dataset.tags||'';c.classList.toggle('hidden',!t.includes(q)&&!tags.includes(q))})})}
+const filterBtns=document.querySelectorAll('.filter-btn');
+filterBtns.forEach(btn=>btn.addEventListener('click',()=>{filterBtns.forEach(b=>b.classList.remove('active'));btn.classList.add('active');const f=btn.dataset.filter;cards.forEach(c=>{const tags=(c.dataset.tags||'').split(' ');c.classList.toggle('hidden',f!=='all'&&!tags.includes(f))})}));
+document.querySelectorAll('nav a[href^="#"]').forEach(l=>l.addEventListener('click',e=>{e.preventDefault();document.querySelector(l.getAttribute('href')).scrollIntoView({behavior:'smooth'})}));
+`;
+
+export function copyCommand(command: string): RawHtml {
+  return html`<div class="preset-cmd"><span>${command}</span><button class="copy-btn" onclick="copyToClipboard(this)">Copy</button></div>`;
+}
+
+/**
+ * Render a complete page; the output only depends on its inputs so rebuilt docs diff cleanly
+ */
+export function renderPage(options: PageOptions): string {
+  const stats = options.stats
+    ? html`<div class="stats">${options.stats.map(stat => html`<div class="stat"><span class="stat-num">${stat.value}</span><div class="stat-label">${stat.label}</div></div>`)}</div>`
+    : raw('');
+  const search = options.search
+    ? html`
+  <div class="search-bar">
+    <input type="text" class="search-input" id="search" placeholder="${options.search.placeholder}">
+    ${['all', ...options.search.filters].map((filter, index) => html`<button class="filter-btn${index === 0 ? ' active' : ''}" data-filter="${filter}">${filter === 'all' ? 'All' : filter}</button>`)}
+  </div>`
+    : raw('');
+  const nav = options.nav.map(link => html`<a href="${link.href}"${raw(link.external ? ' class="external"' : '')}>${link.label}</a>`);
+
+  return html`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${options.title}</title>
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&family=JetBrains+Mono:wght@400;500&display=swap" rel="stylesheet">
+  <style>${raw(STYLE)}
+  </style>
+</head>
+<body>
+<div class="container">
+  <header>
+    <h1>${options.heading}</h1>
+    <p class="subtitle">${options.subtitle}</p>
+    <span class="version">v${VERSION}</span>
+    ${stats}
+  </header>
+${search}
+  <nav>
+    ${nav}
+  </nav>
+${options.sections}
+  <footer>Generated from the kickoff knowledge base. Rebuild with <code>kickoff docs build</code></footer>
+</div>
+<script>${raw(SCRIPT)}</script>
+</body>
+</html>
+`.value;
+}
@@ -0,0 +1,33 @@
+/**
+ * Documentation Builder
+ * Writes the stack explorer and usage guide generated from the knowledge base
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import type { Command } from 'commander';
+import { renderStacksPage } from './stacks.js';
+import { renderUsagePage } from './usage.js';
+
+export type DocsPage = 'stacks' | 'usage';
+
+export const DOCS_FILES: Record<DocsPage, string> = {
+  stacks: 'stacks.html',
+  usage: 'USAGE.html',
+};
+
+export { renderStacksPage, renderUsagePage };
+
+/**
+ * Render both pages into a directory and return the written paths
+ */
+export async function buildDocs(outDir: string, program: Command): Promise<Record<DocsPage, string>> {
+  await fs.ensureDir(outDir);
+  const written: Record<DocsPage, string> = {
+    stacks: path.join(outDir, DOCS_FILES.stacks),
+    usage: path.join(outDir, DOCS_FILES.usage),
+  };
+  await fs.writeFile(written.stacks, renderStacksPage());
+  await fs.writeFile(written.usage, renderUsagePage(program));
+  return written;
+}
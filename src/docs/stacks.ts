@@ -0,0 +1,168 @@
+/**
+ * Stack Explorer Page
+ * Renders stacks.html from the knowledge base, compatibility matrix, constraints and presets
+ */
+
+import { html, raw, renderPage, copyCommand, type RawHtml } from './html.js';
+import { knowledgeBase, compatibilityMatrix } from '../knowledge/index.js';
+import type { AnyStackOption } from '../knowledge/types.js';
+import { CONSTRAINTS } from '../core/constraints.js';
+import { PRESETS, PRESET_CHOICES, type PresetConfig } from '../lib/presets.js';
+import { optionTags } from '../lib/search.js';
+
+interface CategorySection {
+  id: string;
+  title: string;
+  options: AnyStackOption[];
+}
+
+function categorySections(): CategorySection[] {
+  return [
+    { id: 'databases', title: 'Databases', options: knowledgeBase.databases },
+    { id: 'orms', title: 'ORMs and Query Builders', options: knowledgeBase.orms },
+    { id: 'auth', title: 'Auth Providers', options: knowledgeBase.auth },
+    { id: 'frontends', title: 'Frontend Frameworks', options: knowledgeBase.frontends },
+    { id: 'backends', title: 'Backend Frameworks', options: knowledgeBase.backends },
+    { id: 'ai-frameworks', title: 'AI Frameworks', options: knowledgeBase.ai },
+    { id: 'vector-dbs', title: 'Vector Databases', options: knowledgeBase.vectorDbs },
+    { id: 'embeddings', title: 'Embedding Providers', options: knowledgeBase.embeddings },
+    { id: 'local-ai', title: 'Local AI Providers', options: knowledgeBase.localAi },
+  ].map(section => ({ ...section, options: section.options.filter(option => option.id !== 'none') }));
+}
+
+// Preset config fields shown as stack items, in display order
+const PRESET_STACK_FIELDS: Array<keyof PresetConfig> = [
+  'type',
+  'runtime',
+  'databaseProvider',
+  'orm',
+  'authProvider',
+  'aiFramework',
+  'vectorDB',
+  'embeddingProvider',
+  'localAI',
+  'pythonPackageManager',
+];
+
+function renderList(title: string, items: string[]): RawHtml {
+  if (items.length === 0) return raw('');
+  return html`<div class="compat"><b>${title}</b><ul>${items.map(item => html`<li>${item}</li>`)}</ul></div>`;
+}
+
+function renderCompatibility(id: string): RawHtml {
+  const entry = compatibilityMatrix[id];
+  if (!entry) return raw('');
+  const notes = Object.entries(entry.notes ?? {}).map(([target, note]) => `${target}: ${note}`);
+  return html`${entry.compatibleWith.length > 0 ? html`<div class="compat"><b>Works with:</b> ${entry.compatibleWith.join(', ')}</div>` : raw('')}${entry.incompatibleWith.length > 0 ? html`<div class="compat"><b>Conflicts with:</b> ${entry.incompatibleWith.join(', ')}</div>` : raw('')}${renderList('Notes', notes)}`;
+}
+
+function renderOption(option: AnyStackOption): RawHtml {
+  const tags = optionTags(option);
+  const cost = option.monthlyCost.hobbyist ?? option.monthlyCost.startup ?? option.monthlyCost.enterprise;
+  const badge = option.monthlyCost.free
+    ? html`<span class="badge badge-free">Free Tier</span>`
+    : html`<span class="badge badge-paid">Paid</span>`;
+  const meta = [
+    ...(cost ? [cost] : []),
+    `${option.complexity} complexity`,
+    ...option.requiredEnvVars,
+    ...tags.filter(tag => tag !== option.category && tag !== 'free'),
+  ];
+
+  return html`
+      <div class="card" data-tags="${[option.id, ...tags].join(' ')}">
+        <div class="card-header">${option.logoEmoji ? html`<span>${option.logoEmoji}</span>` : raw('')}<span class="card-name">${option.id}</span><span class="card-title">${option.name}</span>${badge}</div>
+        <div class="card-desc">${option.description}</div>
+        <div class="card-meta">${meta.map(item => html`<span class="meta-tag">${item}</span>`)}</div>
+        <details>
+          <summary>Pros, cons and compatibility</summary>
+          ${renderList('Pros', option.pros)}${renderList('Cons', option.cons)}${renderList('Best for', option.bestFor)}${renderCompatibility(option.id)}
+          ${option.documentationUrl ? html`<div class="compat"><a href="${option.documentationUrl}">Documentation →</a></div>` : raw('')}
+        </details>
+      </div>`;
+}
+
+function renderPresets(): RawHtml {
+  const cards = (Object.entries(PRESETS) as Array<[string, PresetConfig]>).map(([id, config]) => {
+    const choice = PRESET_CHOICES.find(preset => preset.value === id);
+    const stack = PRESET_STACK_FIELDS.flatMap(field => {
+      const value = config[field];
+      return typeof value === 'string' && value !== 'none' ? [value] : [];
+    });
+    return html`
+      <div class="preset-card" data-tags="${['preset', id, ...stack].join(' ')}">
+        <div class="preset-name">${id}</div>
+        <div class="preset-desc">${choice?.description ?? choice?.name ?? ''}</div>
+        <div class="preset-stack">${stack.map(item => html`<span class="stack-item">${item}</span>`)}</div>
+        ${copyCommand(`kickoff create my-app --preset ${id}`)}
+      </div>`;
+  });
+
+  return html`
+  <section id="presets">
+    <h2>Presets <span class="count">${cards.length} options</span></h2>
+    <p>Pre-configured stacks. Use <code>--preset &lt;name&gt;</code> to skip the wizard.</p>
+    <div class="cards">${cards}
+    </div>
+  </section>`;
+}
+
+function renderConstraints(): RawHtml {
+  const cards = CONSTRAINTS.map(constraint => html`
+      <div class="card" data-tags="rule ${constraint.severity} ${constraint.id}">
+        <div class="card-header"><span class="card-name">${constraint.id}</span><span class="badge badge-${constraint.severity}">${constraint.severity}</span></div>
+        <div class="card-desc">${constraint.message}</div>
+        ${constraint.docs ? html`<div class="card-meta"><a href="${constraint.docs}">Reference →</a></div>` : raw('')}
+      </div>`);
+
+  return html`
+  <section id="rules">
+    <h2>Stack Rules <span class="count">${cards.length} rules</span></h2>
+    <p>Checked by <code>kickoff validate</code> and before every <code>kickoff create</code>. Errors block scaffolding; warnings are shown.</p>
+    <div class="cards">${cards}
+    </div>
+  </section>`;
+}
+
+/**
+ * Render the stack explorer page
+ */
+export function renderStacksPage(): string {
+  const sections = categorySections();
+  const count = (...ids: string[]) =>
+    sections.filter(section => ids.includes(section.id)).reduce((sum, section) => sum + section.options.length, 0);
+
+  return renderPage({
+    title: 'Kickoff Stacks - Complete Technology Reference',
+    heading: 'Kickoff Stacks',
+    subtitle: 'Complete technology reference for project scaffolding',
+    stats: [
+      { value: Object.keys(PRESETS).length, label: 'Presets' },
+      { value: count('databases'), label: 'Databases' },
+      { value: count('orms'), label: 'ORMs' },
+      { value: count('auth'), label: 'Auth Providers' },
+      { value: count('frontends', 'backends'), label: 'Frameworks' },
+      { value: count('ai-frameworks', 'vector-dbs', 'embeddings', 'local-ai'), label: 'AI/ML Options' },
+    ],
+    search: {
+      placeholder: 'Search technologies... (e.g., postgres, python, rag)',
+      filters: ['free', 'serverless', 'self-hosted', 'edge', 'realtime'],
+    },
+    nav: [
+      { href: 'USAGE.html', label: '← Usage Guide', external: true },
+      { href: '#presets', label: 'Presets' },
+      ...sections.map(section => ({ href: `#${section.id}`, label: section.title })),
+      { href: '#rules', label: 'Stack Rules' },
+    ],
+    sections: [
+      renderPresets(),
+      ...sections.map(section => html`
+  <section id="${section.id}">
+    <h2>${section.title} <span class="count">${section.options.length} options</span></h2>
+    <div class="cards">${section.options.map(renderOption)}
+    </div>
+  </section>`),
+      renderConstraints(),
+    ],
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Usage Guide Page
+ * Renders USAGE.html from the CLI's commands, presets, constraints and knowledge base env vars
+ */
+
+import type { Command, Option } from 'commander';
+import { html, raw, renderPage, copyCommand, type RawHtml } from './html.js';
+import { getAllOptions } from '../knowledge/index.js';
+import { CONSTRAINTS } from '../core/constraints.js';
+import { PRESETS, PRESET_CHOICES } from '../lib/presets.js';
+import { ExitCode } from '../utils/output.js';
+
+const EXIT_CODE_MEANINGS: Record<keyof typeof ExitCode, string> = {
+  Success: 'Success',
+  Error: 'Unexpected failure (I/O, rendering, ...)',
+  InvalidInput: 'Invalid input: arguments, spec, preset, fragment or project state',
+  ValidationFailed: 'Stack validation failed',
+  Conflicts: '`kickoff upgrade` left merge conflicts',
+  MissingTools: 'Required toolchains are missing',
+};
+
+// Defaults that depend on where the CLI runs are described instead of printed
+function describeDefault(option: Option): string {
+  if (option.defaultValue === undefined || typeof option.defaultValue === 'boolean') return '';
+  if (option.defaultValue === process.cwd()) return 'current directory';
+  return String(option.defaultValue);
+}
+
+function renderCommand(command: Command): RawHtml {
+  const name = [command.parent?.parent ? command.parent.name() : '', command.name()].filter(Boolean).join(' ');
+  const options = command.options.filter(option => !option.hidden);
+  const rows = options.map(option => html`
+        <tr><td><code>${option.flags}</code></td><td>${option.description}</td><td>${describeDefault(option)}</td></tr>`);
+
+  return html`
+    <h3 id="cmd-${name.replace(' ', '-')}">kickoff ${name}</h3>
+    <p>${command.description()}</p>
+    ${copyCommand(`kickoff ${name} ${command.usage()}`)}
+    ${rows.length > 0 ? html`
+    <table>
+      <tr><th>Option</th><th>Description</th><th>Default</th></tr>${rows}
+    </table>` : raw('')}`;
+}
+
+function renderEnvVars(): RawHtml {
+  const rows = getAllOptions()
+    .filter(option => option.requiredEnvVars.length > 0)
+    .map(option => html`
+      <tr><td><code>${option.id}</code></td><td>${option.category}</td><td>${option.requiredEnvVars.map(name => html`<code>${name}</code> `)}</td></tr>`);
+
+  return html`
+  <section id="env-vars">
+    <h2>Environment Variables <span class="count">${rows.length} options</span></h2>
+    <p>Generated projects list these in <code>.env.example</code> when the option is selected.</p>
+    <table>
+      <tr><th>Option</th><th>Category</th><th>Variables</th></tr>${rows}
+    </table>
+  </section>`;
+}
+
+/**
+ * Render the usage guide for a CLI program
+ */
+export function renderUsagePage(program: Command): string {
+  // Subcommands such as `docs build` follow their parent
+  const commands = program.commands.flatMap(command => [command, ...command.commands]);
+
+  const presetRows = Object.keys(PRESETS).map(id => {
+    const choice = PRESET_CHOICES.find(preset => preset.value === id);
+    return html`
+      <tr><td><code>${id}</code></td><td>${choice?.name.split(' - ')[1] ?? ''}</td><td>${choice?.description ?? ''}</td></tr>`;
+  });
+
+  const ruleRows = CONSTRAINTS.map(constraint => html`
+      <tr><td><code>${constraint.id}</code></td><td><span class="badge badge-${constraint.severity}">${constraint.severity}</span></td><td>${constraint.message}</td></tr>`);
+
+  const exitRows = (Object.entries(ExitCode) as Array<[keyof typeof ExitCode, number]>).map(([name, code]) => html`
+      <tr><td><code>${code}</code></td><td>${EXIT_CODE_MEANINGS[name]}</td></tr>`);
+
+  return renderPage({
+    title: 'Kickoff - Usage Guide',
+    heading: 'Kickoff',
+    subtitle: 'Modern project scaffolding for 2025 tech stacks',
+    nav: [
+      { href: '#installation', label: 'Installation' },
+      { href: '#quick-start', label: 'Quick Start' },
+      { href: '#commands', label: 'Commands' },
+      { href: '#presets', label: 'Presets' },
+      { href: '#rules', label: 'Stack Rules' },
+      { href: '#env-vars', label: 'Environment' },
+      { href: '#exit-codes', label: 'Exit Codes' },
+      { href: 'stacks.html', label: 'Stack Reference →', external: true },
+    ],
+    sections: [
+      html`
+  <section id="installation">
+    <h2>Installation</h2>
+    ${copyCommand('npm install -g project-kickoff')}
+    <p>Or run it without installing: <code>npx project-kickoff create my-app</code>. Check the toolchains your stack needs with <code>kickoff doctor</code>.</p>
+  </section>`,
+      html`
+  <section id="quick-start">
+    <h2>Quick Start</h2>
+    <p>Run the interactive wizard, or skip it with a preset or a checked-in spec file.</p>
+    ${copyCommand('kickoff create my-app')}
+    ${copyCommand('kickoff create my-app --preset saas-starter')}
+    ${copyCommand('kickoff create --spec kickoff.yaml')}
+  </section>`,
+      html`
+  <section id="commands">
+    <h2>Commands <span class="count">${commands.length} commands</span></h2>
+    <p>Every command accepts <code>--json</code> for machine-readable output.</p>
+    ${commands.map(renderCommand)}
+  </section>`,
+      html`
+  <section id="presets">
+    <h2>Presets <span class="count">${presetRows.length} options</span></h2>
+    <table>
+      <tr><th>Preset</th><th>Stack</th><th>Best for</th></tr>${presetRows}
+    </table>
+  </section>`,
+      html`
+  <section id="rules">
+    <h2>Stack Rules <span class="count">${ruleRows.length} rules</span></h2>
+    <p>Rule-based validation runs before every <code>create</code>; add <code>--validate</code> for an AI review on top.</p>
+    <table>
+      <tr><th>Rule</th><th>Severity</th><th>Message</th></tr>${ruleRows}
+    </table>
+  </section>`,
+      renderEnvVars(),
+      html`
+  <section id="exit-codes">
+    <h2>Exit Codes</h2>
+    <table>
+      <tr><th>Code</th><th>Meaning</th></tr>${exitRows}
+    </table>
+  </section>`,
+    ],
+  });
+}
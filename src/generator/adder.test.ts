@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { addFragment, checkFragmentCompatibility, detectInstalledFragments } from './adder.js';
+import { getFragmentById } from './fragments/index.js';
+
+describe('addFragment', () => {
+  let dir: string;
+
+  const read = (file: string) => fs.readFile(path.join(dir, file), 'utf-8');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-adder-test-'));
+    for (const file of ['README.md', 'CLAUDE.md', '.gitignore']) {
+      await fs.outputFile(path.join(dir, file), `# ${file}\n`);
+    }
+    await fs.outputFile(path.join(dir, '.env.example'), 'NODE_ENV=development\n');
+    await fs.outputJson(path.join(dir, 'package.json'), {
+      name: 'app',
+      scripts: { build: 'tsc' },
+      dependencies: { 'drizzle-orm': '^0.38.0', zod: '^3.24.0' },
+    });
+    await fs.outputFile(path.join(dir, 'src/db/schema.ts'), '// mine\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should detect fragments by their files and check compatibility', async () => {
+    expect((await detectInstalledFragments(dir)).map(f => f.id)).toEqual(['base']);
+
+    await addFragment('drizzle', dir);
+    const installed = await detectInstalledFragments(dir);
+    expect(installed.map(f => f.id)).toEqual(['base', 'drizzle']);
+
+    expect(checkFragmentCompatibility(getFragmentById('prisma')!, installed)).toEqual({
+      conflicts: ['Prisma is incompatible with Drizzle ORM'],
+      missingDeps: [],
+    });
+    expect(checkFragmentCompatibility(getFragmentById('drizzle')!, []).missingDeps).toEqual(['drizzle requires base']);
+  });
+
+  it('should skip existing files and merge dependencies, scripts and env vars', async () => {
+    const result = await addFragment('drizzle', dir);
+
+    expect(result.success).toBe(true);
+    expect(result.filesCreated).toEqual(['drizzle.config.ts', 'src/db/index.ts']);
+    expect(result.filesSkipped).toEqual(['src/db/schema.ts']);
+    expect(await read('src/db/schema.ts')).toBe('// mine\n');
+
+    // drizzle-orm was already a dependency; its range is narrowed, not reported as added
+    expect(result.dependenciesAdded).toEqual(['drizzle-kit']);
+    const pkg = await fs.readJson(path.join(dir, 'package.json'));
+    expect(pkg.dependencies).toEqual({ 'drizzle-orm': '^0.38.3', zod: '^3.24.0' });
+    expect(pkg.devDependencies).toEqual({ 'drizzle-kit': '^0.30.1' });
+    expect(pkg.scripts).toMatchObject({ build: 'tsc', 'db:generate': 'drizzle-kit generate' });
+
+    expect(result.envVarsAdded).toEqual(['DATABASE_URL']);
+    expect(await read('.env.example')).toMatch(/^NODE_ENV=development\n[\s\S]*DATABASE_URL=/);
+  });
+
+  it('should refuse incompatible or already present fragments', async () => {
+    await addFragment('drizzle', dir);
+
+    const prisma = await addFragment('prisma', dir);
+    expect(prisma.success).toBe(false);
+    expect(prisma.errors).toEqual(['Prisma is incompatible with Drizzle ORM']);
+    expect(await fs.pathExists(path.join(dir, 'prisma/schema.prisma'))).toBe(false);
+    expect((await fs.readJson(path.join(dir, 'package.json'))).dependencies['@prisma/client']).toBeUndefined();
+
+    const again = await addFragment('drizzle', dir);
+    expect(again.success).toBe(false);
+    expect(again.errors).toEqual(['Drizzle ORM is already present in this project']);
+
+    expect((await addFragment('nope', dir)).errors).toEqual(['Unknown fragment: nope']);
+  });
+
+  it('should overwrite existing files and add incompatible fragments with --force', async () => {
+    await addFragment('drizzle', dir);
+
+    const again = await addFragment('drizzle', dir, { force: true });
+    expect(again.success).toBe(true);
+    expect(again.warnings).toContain('Drizzle ORM is already present in this project');
+    expect(again.filesCreated).toContain('src/db/schema.ts');
+    expect(await read('src/db/schema.ts')).not.toBe('// mine\n');
+
+    const prisma = await addFragment('prisma', dir, { force: true });
+    expect(prisma.success).toBe(true);
+    expect(prisma.warnings).toContain('Prisma is incompatible with Drizzle ORM');
+    expect(prisma.filesCreated).toContain('prisma/schema.prisma');
+    expect((await fs.readJson(path.join(dir, 'package.json'))).dependencies).toHaveProperty('@prisma/client');
+  });
+});
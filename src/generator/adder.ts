@@ -0,0 +1,262 @@
+/**
+ * Fragment Adder
+ * Applies a single fragment to an already generated project
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import type { TemplateFragment, GeneratorContext, PackageJsonFragment } from './types.js';
+import { getFragmentById, allFragments } from './fragments/index.js';
+import { mergePackageJson, mergeEnvExample, renderTemplate } from './merger.js';
+import { fileApplies } from './conditions.js';
+import { getTemplatesDir } from './engine.js';
+import { mapConfigToContext } from '../lib/mapper.js';
+import { createProjectConfig } from '../lib/prompter.js';
+import { readManifest, writeManifest, hashFiles, addToBaseline, type RenderedFiles } from '../core/manifest.js';
+
+export interface AddFragmentOptions {
+  force?: boolean;
+}
+
+export interface AddFragmentResult {
+  success: boolean;
+  fragment?: TemplateFragment;
+  filesCreated: string[];
+  filesSkipped: string[];
+  dependenciesAdded: string[];
+  envVarsAdded: string[];
+  warnings: string[];
+  errors: string[];
+}
+
+// Detect which fragments are already present from the manifest, or by looking for their files
+// and runtime dependencies (fragments may share a file, e.g. src/db/index.ts)
+export async function detectInstalledFragments(projectDir: string): Promise<TemplateFragment[]> {
+  const installed: TemplateFragment[] = [];
+  const manifest = await readManifest(projectDir);
+  const packageJsonPath = path.join(projectDir, 'package.json');
+  const pkg = await fs.pathExists(packageJsonPath) ? await fs.readJson(packageJsonPath) : {};
+  const declared = new Set([...Object.keys(pkg.dependencies ?? {}), ...Object.keys(pkg.devDependencies ?? {})]);
+
+  for (const fragment of allFragments) {
+    if (manifest?.fragments.includes(fragment.id)) {
+      installed.push(fragment);
+      continue;
+    }
+
+    const files = fragment.files.filter(f => !f.condition);
+    if (files.length === 0) continue;
+    if (!Object.keys(fragment.packageJson?.dependencies ?? {}).every(dep => declared.has(dep))) continue;
+
+    let present = true;
+    for (const file of files) {
+      if (!await fs.pathExists(path.join(projectDir, file.destination))) {
+        present = false;
+        break;
+      }
+    }
+
+    if (present) {
+      installed.push(fragment);
+    }
+  }
+
+  return installed;
+}
+
+// Check a fragment against the fragments already in a project
+export function checkFragmentCompatibility(
+  fragment: TemplateFragment,
+  installed: TemplateFragment[]
+): { conflicts: string[]; missingDeps: string[] } {
+  const installedIds = new Set(installed.map(f => f.id));
+  const conflicts: string[] = [];
+  const missingDeps: string[] = [];
+
+  for (const other of installed) {
+    if (other.id === fragment.id) continue;
+    if (fragment.incompatibleWith?.includes(other.id) || other.incompatibleWith?.includes(fragment.id)) {
+      conflicts.push(`${fragment.name} is incompatible with ${other.name}`);
+    }
+  }
+
+  for (const dep of fragment.dependencies ?? []) {
+    if (!installedIds.has(dep)) {
+      missingDeps.push(`${fragment.id} requires ${dep}`);
+    }
+  }
+
+  return { conflicts, missingDeps };
+}
+
+// Build a generator context for an existing project from its manifest or package.json
+export async function loadProjectContext(projectDir: string): Promise<GeneratorContext> {
+  const manifest = await readManifest(projectDir);
+  if (manifest?.context) {
+    return manifest.context;
+  }
+  if (manifest?.config) {
+    return mapConfigToContext(manifest.config);
+  }
+
+  const packageJsonPath = path.join(projectDir, 'package.json');
+  let name = path.basename(path.resolve(projectDir));
+  let description: string | undefined;
+
+  if (await fs.pathExists(packageJsonPath)) {
+    const pkg = await fs.readJson(packageJsonPath);
+    if (typeof pkg.name === 'string') name = pkg.name;
+    if (typeof pkg.description === 'string') description = pkg.description;
+  }
+
+  return mapConfigToContext(createProjectConfig(name, { description }));
+}
+
+// Add a fragment to an existing project
+export async function addFragment(
+  fragmentId: string,
+  projectDir: string,
+  options: AddFragmentOptions = {}
+): Promise<AddFragmentResult> {
+  const result: AddFragmentResult = {
+    success: false,
+    filesCreated: [],
+    filesSkipped: [],
+    dependenciesAdded: [],
+    envVarsAdded: [],
+    warnings: [],
+    errors: [],
+  };
+
+  const fragment = getFragmentById(fragmentId);
+  if (!fragment) {
+    result.errors.push(`Unknown fragment: ${fragmentId}`);
+    return result;
+  }
+  result.fragment = fragment;
+
+  const projectPath = path.resolve(projectDir);
+  if (!await fs.pathExists(projectPath)) {
+    result.errors.push(`Project directory ${projectPath} does not exist`);
+    return result;
+  }
+
+  // 1. Check against what is already there
+  const installed = await detectInstalledFragments(projectPath);
+  if (installed.some(f => f.id === fragment.id)) {
+    const message = `${fragment.name} is already present in this project`;
+    if (!options.force) {
+      result.errors.push(message);
+      return result;
+    }
+    result.warnings.push(message);
+  }
+
+  const { conflicts, missingDeps } = checkFragmentCompatibility(fragment, installed);
+  if (conflicts.length > 0 && !options.force) {
+    result.errors.push(...conflicts);
+    return result;
+  }
+  result.warnings.push(...conflicts, ...missingDeps);
+
+  // 2. Render fragment files
+  const context = await loadProjectContext(projectPath);
+  const fragmentTemplatePath = path.join(getTemplatesDir(), fragment.path);
+  const rendered: RenderedFiles = new Map();
+
+  for (const file of fragment.files) {
+    if (!fileApplies(file, context)) {
+      continue;
+    }
+
+    const sourcePath = path.join(fragmentTemplatePath, file.source);
+    const destPath = path.join(projectPath, file.destination);
+
+    if (!await fs.pathExists(sourcePath)) {
+      result.warnings.push(`Template ${fragment.path}/${file.source} not found`);
+      continue;
+    }
+
+    if (await fs.pathExists(destPath) && !options.force) {
+      result.filesSkipped.push(file.destination);
+      continue;
+    }
+
+    try {
+      const content = await renderTemplate(sourcePath, context);
+      await fs.ensureDir(path.dirname(destPath));
+      await fs.writeFile(destPath, content);
+      rendered.set(file.destination, content);
+      result.filesCreated.push(file.destination);
+    } catch (error) {
+      result.errors.push(`Failed to render ${file.source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // 3. Merge package.json
+  if (fragment.packageJson) {
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    if (await fs.pathExists(packageJsonPath)) {
+      const pkg = await fs.readJson(packageJsonPath);
+      const existing: PackageJsonFragment = {
+        dependencies: pkg.dependencies ?? {},
+        devDependencies: pkg.devDependencies ?? {},
+        scripts: pkg.scripts ?? {},
+        peerDependencies: pkg.peerDependencies ?? {},
+      };
+      const before = new Set([
+        ...Object.keys(existing.dependencies ?? {}),
+        ...Object.keys(existing.devDependencies ?? {}),
+      ]);
+
+      for (const conflict of mergePackageJson(existing, fragment.packageJson)) {
+        result.warnings.push(
+          `${conflict.name} ${conflict.existing} (package.json) and ${conflict.incoming} (${fragment.name}) ` +
+          `have no version in common; using ${conflict.incoming}`
+        );
+      }
+
+      for (const key of ['scripts', 'dependencies', 'devDependencies', 'peerDependencies'] as const) {
+        if (Object.keys(existing[key] ?? {}).length > 0) {
+          pkg[key] = existing[key];
+        }
+      }
+      await fs.writeFile(packageJsonPath, JSON.stringify(pkg, null, 2) + '\n');
+
+      result.dependenciesAdded = [
+        ...Object.keys(fragment.packageJson.dependencies ?? {}),
+        ...Object.keys(fragment.packageJson.devDependencies ?? {}),
+      ].filter(dep => !before.has(dep));
+    } else {
+      result.warnings.push('No package.json found; skipped dependency merge');
+    }
+  }
+
+  // 4. Append env vars
+  if (fragment.envVars && fragment.envVars.length > 0) {
+    const envExamplePath = path.join(projectPath, '.env.example');
+    const existingEnv = await fs.pathExists(envExamplePath)
+      ? await fs.readFile(envExamplePath, 'utf-8')
+      : '';
+    const merged = mergeEnvExample(existingEnv, fragment.envVars, fragment.name);
+    if (merged.added.length > 0) {
+      await fs.writeFile(envExamplePath, merged.content);
+      result.envVarsAdded = merged.added;
+    }
+  }
+
+  // 5. Record the fragment in the manifest
+  const manifest = await readManifest(projectPath);
+  if (manifest) {
+    if (!manifest.fragments.includes(fragment.id)) {
+      manifest.fragments.push(fragment.id);
+      manifest.addedFragments = [...manifest.addedFragments ?? [], fragment.id];
+    }
+    Object.assign(manifest.files, await hashFiles(projectPath, result.filesCreated));
+    await writeManifest(projectPath, manifest);
+    await addToBaseline(projectPath, rendered);
+  }
+
+  result.success = result.errors.length === 0;
+  return result;
+}
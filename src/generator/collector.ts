@@ -3,8 +3,8 @@
  * Collects required fragments based on user selections
  */
 
-import type { TemplateFragment, GeneratorContext, FragmentCategory } from './types';
-import { allFragments, getFragmentById } from './fragments';
+import type { TemplateFragment, GeneratorContext, FragmentCategory } from './types.js';
+import { allFragments, getFragmentById } from './fragments/index.js';
 
 // Category to answer key mapping
 const categoryAnswerMap: Record<FragmentCategory, string> = {
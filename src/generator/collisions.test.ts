@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { resolveCollisions, CollisionError, NEW_FILE_SUFFIX } from './collisions.js';
+import type { RenderedFiles } from '../core/manifest.js';
+import type { FileCollision } from './types.js';
+
+describe('resolveCollisions', () => {
+  let dir: string;
+
+  const rendered = (): RenderedFiles => new Map<string, string | Buffer>([
+    ['README.md', '# generated\n'],
+    ['package.json', JSON.stringify({ name: 'app', scripts: { build: 'tsc' } }, null, 2) + '\n'],
+    ['src/index.ts', 'export {};\n'],
+  ]);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-collisions-test-'));
+    await fs.outputFile(path.join(dir, 'README.md'), '# mine\n');
+    await fs.outputFile(path.join(dir, 'package.json'), JSON.stringify({ name: 'app', scripts: { lint: 'eslint .' } }));
+    // Same content as generated, so not a collision
+    await fs.outputFile(path.join(dir, 'src/index.ts'), 'export {};\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should refuse to touch existing files without a policy', async () => {
+    const error = await resolveCollisions(rendered(), dir).catch(e => e);
+
+    expect(error).toBeInstanceOf(CollisionError);
+    expect(error.files).toEqual(['README.md', 'package.json']);
+  });
+
+  it('should overwrite with --force and keep with --skip-existing', async () => {
+    const forced = await resolveCollisions(rendered(), dir, { overwrite: true });
+    expect([...forced.files.keys()]).toEqual(['README.md', 'package.json', 'src/index.ts']);
+    expect(forced.collisions).toEqual([
+      { file: 'README.md', resolution: 'overwrite' },
+      { file: 'package.json', resolution: 'overwrite' },
+    ]);
+
+    const skipped = await resolveCollisions(rendered(), dir, { skipExisting: true });
+    expect([...skipped.files.keys()]).toEqual(['src/index.ts']);
+    expect(skipped.collisions.map(c => c.resolution)).toEqual(['keep', 'keep']);
+  });
+
+  it('should apply the resolution chosen for each file', async () => {
+    const asked: FileCollision[] = [];
+    const { files, collisions } = await resolveCollisions(rendered(), dir, {
+      resolveCollision: async collision => {
+        asked.push(collision);
+        return collision.file === 'README.md' ? 'kickoff-new' : 'merge';
+      },
+    });
+
+    expect(asked.map(c => c.file)).toEqual(['README.md', 'package.json']);
+    expect(asked[0].existing.toString()).toBe('# mine\n');
+    expect(files.has('README.md')).toBe(false);
+    expect(files.get(`README.md${NEW_FILE_SUFFIX}`)).toBe('# generated\n');
+    expect(JSON.parse(files.get('package.json') as string).scripts).toEqual({ lint: 'eslint .', build: 'tsc' });
+    expect(collisions).toEqual([
+      { file: 'README.md', resolution: 'kickoff-new', writtenTo: `README.md${NEW_FILE_SUFFIX}` },
+      { file: 'package.json', resolution: 'merge' },
+    ]);
+  });
+});
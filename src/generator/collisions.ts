@@ -0,0 +1,100 @@
+/**
+ * Output Collisions
+ * Decide what happens to generated files whose path already exists in the output directory
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import { mergeFileContent } from './strategies.js';
+import type { CollisionDecision, CollisionResolution, FileCollision, FileGenerationOptions } from './types.js';
+import type { RenderedFiles } from '../core/manifest.js';
+
+// Appended to the generated file's name when it is written next to the existing one
+export const NEW_FILE_SUFFIX = '.kickoff-new';
+
+export class CollisionError extends Error {
+  constructor(
+    public readonly outputDir: string,
+    public readonly files: string[]
+  ) {
+    super(`${files.length} generated file(s) already exist in ${outputDir} with other content: ${files.join(', ')}. ` +
+      'Overwrite them (--force) or keep them (--skip-existing)');
+    this.name = 'CollisionError';
+  }
+}
+
+// The existing file with the generated one merged in, when both are text the 'merge' strategy can combine
+function tryMerge(file: string, existing: Buffer, generated: string | Buffer): string | undefined {
+  if (Buffer.isBuffer(generated) || existing.includes(0)) {
+    return undefined;
+  }
+  try {
+    return mergeFileContent(file, existing.toString('utf-8'), generated, 'merge') as string;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compare rendered files with what the output directory already holds and apply a resolution to
+ * every file that would change: `overwrite` and `skipExisting` settle them all, otherwise
+ * `resolveCollision` is asked per file. With none of them, any collision throws a CollisionError.
+ * Returns the files to write; identical files are not collisions and are written as they are
+ */
+export async function resolveCollisions(
+  rendered: RenderedFiles,
+  outputDir: string,
+  options: FileGenerationOptions = {}
+): Promise<{ files: RenderedFiles; collisions: CollisionDecision[] }> {
+  const colliding: FileCollision[] = [];
+  for (const [file, generated] of rendered) {
+    const target = path.join(outputDir, file);
+    const stat = await fs.stat(target).catch(() => null);
+    // Directories in the way are reported when the files are moved into place
+    if (!stat?.isFile()) continue;
+
+    const existing = await fs.readFile(target);
+    if (existing.equals(Buffer.from(generated))) continue;
+    colliding.push({ file, existing, generated, merged: tryMerge(file, existing, generated) });
+  }
+
+  const files: RenderedFiles = new Map(rendered);
+  if (colliding.length === 0) {
+    return { files, collisions: [] };
+  }
+  if (!options.overwrite && !options.skipExisting && !options.resolveCollision) {
+    throw new CollisionError(outputDir, colliding.map(collision => collision.file));
+  }
+
+  const collisions: CollisionDecision[] = [];
+  for (const collision of colliding) {
+    const resolution: CollisionResolution = options.overwrite
+      ? 'overwrite'
+      : options.skipExisting ? 'keep' : await options.resolveCollision!(collision);
+
+    switch (resolution) {
+      case 'keep':
+        files.delete(collision.file);
+        break;
+      case 'kickoff-new':
+        files.delete(collision.file);
+        files.set(collision.file + NEW_FILE_SUFFIX, collision.generated);
+        break;
+      case 'merge':
+        if (collision.merged === undefined) {
+          throw new Error(`${collision.file} cannot be merged with the generated file`);
+        }
+        files.set(collision.file, collision.merged);
+        break;
+      case 'overwrite':
+        break;
+    }
+    collisions.push({
+      file: collision.file,
+      resolution,
+      ...(resolution === 'kickoff-new' && { writtenTo: collision.file + NEW_FILE_SUFFIX }),
+    });
+  }
+
+  return { files, collisions };
+}
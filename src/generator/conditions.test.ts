@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { compileCondition, evaluateCondition, fileApplies, ConditionError } from './conditions.js';
+import { mapConfigToContext } from '../lib/mapper.js';
+import { createProjectConfig } from '../lib/prompter.js';
+
+describe('fragment file conditions', () => {
+  const context = mapConfigToContext(createProjectConfig('api', {
+    type: 'hono-api',
+    runtime: 'node',
+    databaseProvider: 'postgres-local',
+    orm: 'prisma',
+  }));
+
+  it('should evaluate comparisons, membership and boolean operators', () => {
+    expect(evaluateCondition("features.docker && selections.database == 'postgres-local'", context)).toBe(true);
+    expect(evaluateCondition("selections.orm != 'prisma' || !features.docker", context)).toBe(false);
+    expect(evaluateCondition("runtime in ['bun', \"node\"] && (projectType == 'api')", context)).toBe(true);
+    // Paths that do not resolve read as null
+    expect(evaluateCondition('selections.vectorDb == null && !metadata.nothing.here', context)).toBe(true);
+  });
+
+  it('should point at the first problem in an invalid expression', () => {
+    const error = (expression: string) => {
+      try {
+        compileCondition(expression);
+      } catch (caught) {
+        return caught as ConditionError;
+      }
+      throw new Error(`${expression} compiled`);
+    };
+
+    expect(error('features.docker &&')).toMatchObject({ position: 18, reason: 'unexpected end of expression' });
+    expect(error("process.env.CI == 'true'")).toMatchObject({ position: 0 });
+    expect(error("selections.orm = 'prisma'").reason).toBe("unexpected '='");
+    expect(error("selections.orm == 'prisma").message).toBe(
+      `Invalid condition "selections.orm == 'prisma" at column 19: unterminated string`
+    );
+  });
+
+  it('should render files without a condition unconditionally', () => {
+    expect(fileApplies({ source: 'a.ejs', destination: 'a' }, context)).toBe(true);
+    expect(fileApplies({ source: 'a.ejs', destination: 'a', condition: "selections.orm == 'drizzle'" }, context)).toBe(false);
+  });
+});
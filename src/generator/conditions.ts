@@ -0,0 +1,243 @@
+/**
+ * Fragment File Conditions
+ * Declarative expressions deciding whether a fragment file is rendered
+ */
+
+import type { FragmentFile, GeneratorContext } from './types.js';
+
+/*
+ * Grammar, loosest binding first:
+ *
+ *   expression := and ('||' and)*
+ *   and        := not ('&&' not)*
+ *   not        := '!' not | comparison
+ *   comparison := operand (('==' | '!=') operand | 'in' '[' operand (',' operand)* ']')?
+ *   operand    := 'string' | "string" | number | true | false | null | path | '(' expression ')'
+ *   path       := name ('.' name)*, rooted at a generator context field
+ *
+ * e.g. `features.docker && selections.database == 'postgres-local'`
+ */
+
+// Context fields a path may start from
+export const CONDITION_ROOTS = [
+  'projectName', 'projectType', 'runtime', 'selections', 'options', 'features', 'metadata', 'config',
+];
+
+export class ConditionError extends Error {
+  constructor(
+    public readonly expression: string,
+    // Zero-based offset of the problem within the expression
+    public readonly position: number,
+    public readonly reason: string
+  ) {
+    super(`Invalid condition "${expression}" at column ${position + 1}: ${reason}`);
+    this.name = 'ConditionError';
+  }
+}
+
+type Token =
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'literal'; value: string | number | boolean | null; position: number }
+  | { kind: 'path'; value: string[]; position: number }
+  | { kind: 'end'; position: number };
+
+type Evaluate = (context: GeneratorContext) => unknown;
+
+const OPERATORS = ['||', '&&', '==', '!=', '!', '(', ')', '[', ']', ','];
+const KEYWORDS: Record<string, boolean | null> = { true: true, false: false, null: null };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const rest = expression.slice(index);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      index += whitespace[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if (rest[0] === "'" || rest[0] === '"') {
+      const end = rest.indexOf(rest[0], 1);
+      if (end === -1) {
+        throw new ConditionError(expression, index, 'unterminated string');
+      }
+      tokens.push({ kind: 'literal', value: rest.slice(1, end), position: index });
+      index += end + 1;
+      continue;
+    }
+
+    const number = rest.match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ kind: 'literal', value: Number(number[0]), position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const name = rest.match(/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/);
+    if (name) {
+      if (name[0] === 'in') {
+        tokens.push({ kind: 'operator', value: 'in', position: index });
+      } else if (name[0] in KEYWORDS) {
+        tokens.push({ kind: 'literal', value: KEYWORDS[name[0]], position: index });
+      } else {
+        tokens.push({ kind: 'path', value: name[0].split('.'), position: index });
+      }
+      index += name[0].length;
+      continue;
+    }
+
+    throw new ConditionError(expression, index, `unexpected '${rest[0]}'`);
+  }
+
+  tokens.push({ kind: 'end', position: expression.length });
+  return tokens;
+}
+
+// Missing paths read as null so `selections.auth == null` holds when nothing was picked
+function resolvePath(context: GeneratorContext, segments: string[]): unknown {
+  let value: unknown = context;
+  for (const segment of segments) {
+    if (typeof value !== 'object' || value === null || !Object.hasOwn(value, segment)) {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value ?? null;
+}
+
+function parse(expression: string): Evaluate {
+  const tokens = tokenize(expression);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token.kind === 'operator' && token.value === value;
+  };
+  const fail = (reason: string): never => {
+    throw new ConditionError(expression, peek().position, reason);
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) fail(`expected '${value}'`);
+    current++;
+  };
+
+  const parseOperand = (): Evaluate => {
+    const token = peek();
+    if (token.kind === 'literal') {
+      current++;
+      return () => token.value;
+    }
+    if (token.kind === 'path') {
+      if (!CONDITION_ROOTS.includes(token.value[0])) {
+        fail(`unknown name '${token.value[0]}' (expected one of ${CONDITION_ROOTS.join(', ')})`);
+      }
+      current++;
+      return context => resolvePath(context, token.value);
+    }
+    if (isOperator('(')) {
+      current++;
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    return fail(token.kind === 'end' ? 'unexpected end of expression' : 'expected a value');
+  };
+
+  const parseComparison = (): Evaluate => {
+    const left = parseOperand();
+    if (isOperator('==') || isOperator('!=')) {
+      const negate = isOperator('!=');
+      current++;
+      const right = parseOperand();
+      return context => (left(context) === right(context)) !== negate;
+    }
+    if (isOperator('in')) {
+      current++;
+      expect('[');
+      const items: Evaluate[] = [];
+      while (!isOperator(']')) {
+        if (items.length > 0) expect(',');
+        items.push(parseOperand());
+      }
+      current++;
+      return context => {
+        const value = left(context);
+        return items.some(item => item(context) === value);
+      };
+    }
+    return left;
+  };
+
+  const parseNot = (): Evaluate => {
+    if (isOperator('!')) {
+      current++;
+      const operand = parseNot();
+      return context => !operand(context);
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): Evaluate => {
+    let left = parseNot();
+    while (isOperator('&&')) {
+      current++;
+      const [a, b] = [left, parseNot()];
+      left = context => Boolean(a(context)) && Boolean(b(context));
+    }
+    return left;
+  };
+
+  function parseOr(): Evaluate {
+    let left = parseAnd();
+    while (isOperator('||')) {
+      current++;
+      const [a, b] = [left, parseAnd()];
+      left = context => Boolean(a(context)) || Boolean(b(context));
+    }
+    return left;
+  }
+
+  const evaluate = parseOr();
+  if (peek().kind !== 'end') fail('unexpected input after the expression');
+  return evaluate;
+}
+
+const compiled = new Map<string, Evaluate>();
+
+/**
+ * Parse a condition expression, throwing a ConditionError that points at the first problem.
+ * Parsed expressions are cached, so checking the same condition again is cheap
+ */
+export function compileCondition(expression: string): (context: GeneratorContext) => boolean {
+  let evaluate = compiled.get(expression);
+  if (!evaluate) {
+    evaluate = parse(expression);
+    compiled.set(expression, evaluate);
+  }
+  const run = evaluate;
+  return context => Boolean(run(context));
+}
+
+/**
+ * Evaluate a condition expression against a generation context
+ */
+export function evaluateCondition(expression: string, context: GeneratorContext): boolean {
+  return compileCondition(expression)(context);
+}
+
+/**
+ * Whether a fragment file is rendered for this context; files without a condition always are
+ */
+export function fileApplies(file: FragmentFile, context: GeneratorContext): boolean {
+  return file.condition === undefined || evaluateCondition(file.condition, context);
+}
@@ -4,86 +4,135 @@
  */
 
 import * as path from 'path';
-import * as fs from 'fs-extra';
-import type { GeneratorContext, GenerationResult, TemplateFragment } from './types';
-import { collectFragments } from './collector';
-import { resolveFragmentOrder, validateFragmentDependencies, createFragmentRegistry } from './registry';
-import { createGenerationPlan, writeGeneratedFiles } from './merger';
-import { allFragments } from './fragments';
-
-// Get templates directory path
-function getTemplatesDir(): string {
-  // In development, use src/templates
-  // In production (dist), templates are copied to dist/templates
-  const srcPath = path.join(__dirname, '..', 'templates');
-  const distPath = path.join(__dirname, 'templates');
-
-  if (fs.existsSync(srcPath)) {
-    return srcPath;
-  }
-  return distPath;
+import type {
+  FileGenerationOptions,
+  GeneratorContext,
+  GenerationPlan,
+  GenerationResult,
+  TemplateFragment,
+} from './types.js';
+import { collectFragments } from './collector.js';
+import { resolveCollisions } from './collisions.js';
+import { resolveFragmentOrder, validateFragmentDependencies, createFragmentRegistry } from './registry.js';
+import { createGenerationPlan, GenerationError, renderGeneratedFiles, writeProjectFiles } from './merger.js';
+import { allFragments } from './fragments/index.js';
+import { getTemplatesDir } from './loader.js';
+import type { TemplateSourceRecord } from '../core/manifest.js';
+import { stageOutput } from '../core/staging.js';
+
+// Defined with the fragment loader, which reads the bundled manifests from it
+export { getTemplatesDir };
+
+// Templates and fragment definitions a project is generated from
+export interface TemplateSet {
+  // Searched in order for each fragment file; the first directory that has it wins
+  dirs: string[];
+  fragments: TemplateFragment[];
+  // Fragments applied to every project on top of the ones its config selects
+  include: string[];
+  // Custom template source, recorded in the manifest
+  source?: TemplateSourceRecord;
 }
 
-// Generate a project from context
-export async function generateProject(
+/**
+ * The templates and fragments kickoff ships with
+ */
+export function bundledTemplates(): TemplateSet {
+  return { dirs: [getTemplatesDir()], fragments: allFragments, include: [] };
+}
+
+export interface GenerationPlanning {
+  plan: GenerationPlan;
+  warnings: string[];
+  errors: string[];
+}
+
+// Validate, order and plan a set of fragments
+export function planGeneration(
+  fragments: TemplateFragment[],
   context: GeneratorContext,
-  outputDir: string
-): Promise<GenerationResult> {
+  registryFragments: TemplateFragment[] = allFragments
+): GenerationPlanning {
   const warnings: string[] = [];
   const errors: string[] = [];
 
+  // 1. Validate against the registry
+  const registry = createFragmentRegistry(registryFragments);
+  const validation = validateFragmentDependencies(fragments, registry);
+
+  if (!validation.valid) {
+    warnings.push(...validation.missingDeps);
+    warnings.push(...validation.conflicts);
+  }
+
+  // 2. Resolve fragment order
+  let orderedFragments: TemplateFragment[];
   try {
-    // 1. Collect fragments based on selections
-    const fragments = collectFragments(context);
+    orderedFragments = resolveFragmentOrder(fragments);
+  } catch (error) {
+    errors.push(`Dependency resolution error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    orderedFragments = fragments;
+  }
 
-    // 2. Create registry and validate
-    const registry = createFragmentRegistry(allFragments);
-    const validation = validateFragmentDependencies(fragments, registry);
+  // 3. Create generation plan
+  const plan = createGenerationPlan(orderedFragments, context);
 
-    if (!validation.valid) {
-      warnings.push(...validation.missingDeps);
-      warnings.push(...validation.conflicts);
-    }
+  for (const conflict of plan.conflicts) {
+    warnings.push(conflict.reason);
+  }
 
-    // 3. Resolve fragment order
-    let orderedFragments: TemplateFragment[];
-    try {
-      orderedFragments = resolveFragmentOrder(fragments);
-    } catch (error) {
-      errors.push(`Dependency resolution error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      orderedFragments = fragments;
-    }
+  return { plan, warnings, errors };
+}
 
-    // 4. Create generation plan
-    const plan = createGenerationPlan(orderedFragments, context);
+/**
+ * Generate a project from context. The output directory may already exist: `options` decide
+ * what happens to the files in it that generation would change (see resolveCollisions), and
+ * nothing is written unless every file renders
+ */
+export async function generateProject(
+  context: GeneratorContext,
+  outputDir: string,
+  options: FileGenerationOptions = {}
+): Promise<GenerationResult> {
+  const warnings: string[] = [];
+  const errors: string[] = [];
 
-    if (plan.conflicts.length > 0) {
-      for (const conflict of plan.conflicts) {
-        warnings.push(conflict.reason);
-      }
-    }
+  try {
+    // 1. Collect fragments based on selections, then validate, order and plan them
+    const planning = planGeneration(collectFragments(context), context);
+    const { plan } = planning;
+    const orderedFragments = plan.fragments;
+    warnings.push(...planning.warnings);
+    errors.push(...planning.errors);
 
-    // 5. Ensure output directory exists and is empty or doesn't exist
     const outputPath = path.resolve(outputDir);
-    if (await fs.pathExists(outputPath)) {
-      const files = await fs.readdir(outputPath);
-      if (files.length > 0) {
-        warnings.push(`Output directory ${outputPath} is not empty`);
-      }
+    if (errors.length > 0) {
+      return { success: false, outputPath, filesCreated: [], collisions: [], warnings, errors, nextSteps: [] };
     }
-    await fs.ensureDir(outputPath);
 
-    // 6. Generate files
+    // 2. Render everything in memory; a template that fails stops generation before anything is written
     const templatesDir = getTemplatesDir();
-    const filesCreated = await writeGeneratedFiles(plan, context, outputPath, templatesDir);
-
-    // 7. Determine next steps
+    const rendered = await renderGeneratedFiles(plan, context, templatesDir);
+    const { files, collisions } = await resolveCollisions(rendered, outputPath, options);
+
+    // 3. Write the files and record how the project was generated, then move them into place
+    const filesCreated = options.dryRun ? [...files.keys()] : await stageOutput(outputPath, stagingDir =>
+      writeProjectFiles(stagingDir, rendered, files, {
+        generator: 'fragments',
+        config: context.config,
+        context,
+        fragments: orderedFragments.map(f => f.id),
+      })
+    );
+
+    // 4. Determine next steps
     const nextSteps = generateNextSteps(context, plan);
 
     return {
-      success: errors.length === 0,
+      success: true,
       outputPath,
       filesCreated,
+      collisions,
       warnings,
       errors,
       nextSteps,
@@ -93,8 +142,9 @@ export async function generateProject(
       success: false,
       outputPath: outputDir,
       filesCreated: [],
+      collisions: [],
       warnings,
-      errors: [error instanceof Error ? error.message : 'Unknown error occurred'],
+      errors: error instanceof GenerationError ? error.errors : [error instanceof Error ? error.message : 'Unknown error occurred'],
       nextSteps: [],
     };
   }
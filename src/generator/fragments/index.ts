@@ -1,23 +1,13 @@
 /**
  * Fragment Index
- * Export all template fragments
+ * The bundled fragments, loaded from the fragment manifests in the templates directory
  */
 
-export * from './base';
-export * from './frontend';
-export * from './backend';
-
-import { baseFragments } from './base';
-import { frontendFragments } from './frontend';
-import { backendFragments } from './backend';
-import type { TemplateFragment } from '../types';
+import { createFragmentLoader, getTemplatesDir } from '../loader.js';
+import type { TemplateFragment } from '../types.js';
 
 // All fragments combined
-export const allFragments: TemplateFragment[] = [
-  ...baseFragments,
-  ...frontendFragments,
-  ...backendFragments,
-];
+export const allFragments: TemplateFragment[] = await createFragmentLoader(getTemplatesDir()).loadAllFragments();
 
 // Get fragment by ID
 export function getFragmentById(id: string): TemplateFragment | undefined {
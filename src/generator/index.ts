@@ -4,10 +4,10 @@
  */
 
 // Export types
-export * from './types';
+export * from './types.js';
 
 // Export registry
-export { createFragmentRegistry, validateFragmentDependencies, resolveFragmentOrder } from './registry';
+export { createFragmentRegistry, validateFragmentDependencies, resolveFragmentOrder } from './registry.js';
 
 // Export collector
 export {
@@ -15,41 +15,54 @@ export {
   getAvailableFragments,
   isFragmentCompatible,
   getSuggestedFragments,
-} from './collector';
+} from './collector.js';
 
 // Export merger
 export {
   createGenerationPlan,
+  GenerationError,
   generatePackageJson,
   generateEnvExample,
+  mergePackageJson,
+  mergeEnvExample,
   renderTemplate,
+  renderFragmentFiles,
+  renderGeneratedFiles,
   writeGeneratedFiles,
-} from './merger';
+  writeRenderedFiles,
+  writeProjectFiles,
+} from './merger.js';
+
+// Export collisions
+export { resolveCollisions, CollisionError, NEW_FILE_SUFFIX } from './collisions.js';
 
 // Export engine
 export {
   generateProject,
+  planGeneration,
   quickGenerate,
   validateContext,
-} from './engine';
+  getTemplatesDir,
+  bundledTemplates,
+  type TemplateSet,
+} from './engine.js';
+
+// Export adder
+export {
+  addFragment,
+  detectInstalledFragments,
+  checkFragmentCompatibility,
+  loadProjectContext,
+} from './adder.js';
 
 // Export fragments
+export { allFragments, getFragmentById, getFragmentsByCategory } from './fragments/index.js';
+
+// Export loader and conditions
 export {
-  allFragments,
-  getFragmentById,
-  getFragmentsByCategory,
-  baseFragments,
-  frontendFragments,
-  backendFragments,
-  baseFragment,
-  dockerFragment,
-  githubActionsFragment,
-  nextjsFragment,
-  viteReactFragment,
-  staticFragment,
-  honoFragment,
-  cliFragment,
-  mcpServerFragment,
-  workerFragment,
-  libraryFragment,
-} from './fragments';
+  createFragmentLoader,
+  validateFragmentManifest,
+  FragmentManifestError,
+  FRAGMENT_MANIFEST_FILES,
+} from './loader.js';
+export { compileCondition, evaluateCondition, fileApplies, ConditionError } from './conditions.js';
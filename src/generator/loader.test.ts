@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { createFragmentLoader, getTemplatesDir, FragmentManifestError } from './loader.js';
+import { allFragments } from './fragments/index.js';
+
+describe('fragment loader', () => {
+  let dir: string;
+
+  const write = (file: string, content: string) => fs.outputFile(path.join(dir, file), content);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-loader-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should load every bundled fragment from its manifest', async () => {
+    const fragments = await createFragmentLoader(getTemplatesDir()).loadAllFragments();
+
+    expect(fragments).toEqual(allFragments);
+    expect(new Set(fragments.map(f => f.id)).size).toBe(fragments.length);
+    expect(fragments[0].id).toBe('base');
+    expect(fragments.find(f => f.id === 'prisma')).toMatchObject({ path: 'integrations/prisma', category: 'orm' });
+    expect(fragments.find(f => f.id === 'openai')).toMatchObject({ path: 'integrations/openai', files: [] });
+  });
+
+  it('should take a fragment\'s path from its manifest\'s directory', async () => {
+    await write('observability/sentry/fragment.yaml', [
+      'id: sentry',
+      'name: Sentry',
+      'category: tooling',
+      'description: Error tracking',
+      'files:',
+      '  - source: sentry.ts.ejs',
+      '    destination: src/lib/sentry.ts',
+      "    condition: runtime == 'node'",
+    ].join('\n'));
+    await write('logging/fragment.json', JSON.stringify({ id: 'logging', name: 'Logging', category: 'base', description: 'Logger' }));
+
+    const loader = createFragmentLoader(dir);
+    expect((await loader.loadAllFragments()).map(f => [f.id, f.path])).toEqual([
+      ['logging', 'logging'],
+      ['sentry', 'observability/sentry'],
+    ]);
+    expect((await loader.loadFragment('sentry')).files[0].condition).toBe("runtime == 'node'");
+    await expect(loader.loadFragment('datadog')).rejects.toBeInstanceOf(FragmentManifestError);
+  });
+
+  it('should report every invalid manifest with its location', async () => {
+    await write('fragment.yaml', 'id: root\n');
+    await write('a/fragment.yaml', 'id: dup\nname: A\ncategory: base\ndescription: A\n');
+    await write('b/fragment.json', JSON.stringify({ id: 'dup', name: 'B', category: 'base', description: 'B' }));
+    await write('c/fragment.yaml', [
+      'id: c',
+      'name: C',
+      'category: base',
+      'description: C',
+      'path: elsewhere',
+      'files:',
+      '  - { source: c.ejs, destination: c, condition: "features.docker &&", strategy: overwrite }',
+    ].join('\n'));
+    await write('d/fragment.yaml', 'id: [d\n');
+    await write('e/fragment.yaml', 'id: e\n');
+    await write('e/fragment.json', '{}');
+
+    const loader = createFragmentLoader(dir);
+    const error = await loader.loadAllFragments().catch(caught => caught);
+    expect(error).toBeInstanceOf(FragmentManifestError);
+    expect(error.issues).toEqual([
+      "fragment.yaml: manifests go in the fragment's template directory, not the root",
+      'b/fragment.json: fragment \'dup\' is already defined by a/fragment.yaml',
+      'c/fragment.yaml: path is not a fragment field',
+      'c/fragment.yaml: files[0].strategy must be one of replace, merge, append, skip',
+      'c/fragment.yaml: files[0].condition must be a valid expression: unexpected end of expression at column 19',
+      expect.stringMatching(/^d\/fragment\.yaml: /),
+      'e/: found fragment.json and fragment.yaml; keep one fragment manifest',
+    ]);
+    expect(loader.validateFragment({ id: 'ok', name: 'Ok', category: 'ai', description: 'Ok', files: [] })).toEqual([]);
+  });
+});
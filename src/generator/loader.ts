@@ -0,0 +1,244 @@
+/**
+ * Fragment Loader
+ * Discover the fragment manifests next to template directories and validate them
+ */
+
+import * as path from 'path';
+import fs from 'fs-extra';
+import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { compileCondition, ConditionError } from './conditions.js';
+import type { FragmentCategory, FragmentLoader, MergeStrategy, TemplateFragment } from './types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Get templates directory path
+export function getTemplatesDir(): string {
+  // In development, use src/templates
+  // In production (dist), templates are copied to dist/templates
+  const srcPath = path.join(__dirname, '..', 'templates');
+  const distPath = path.join(__dirname, 'templates');
+
+  if (fs.existsSync(srcPath)) {
+    return srcPath;
+  }
+  return distPath;
+}
+
+// A directory holding one of these defines the fragment whose templates it contains
+export const FRAGMENT_MANIFEST_FILES = ['fragment.yaml', 'fragment.yml', 'fragment.json'];
+
+// Also the order fragments are listed in
+export const FRAGMENT_CATEGORIES: FragmentCategory[] = [
+  'base', 'runtime', 'frontend', 'backend', 'database', 'orm', 'auth', 'ai', 'deployment', 'tooling',
+];
+
+export class FragmentManifestError extends Error {
+  constructor(
+    public readonly templatesDir: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid fragment manifests in ${templatesDir}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'FragmentManifestError';
+  }
+}
+
+const MANIFEST_KEYS = [
+  'id', 'name', 'category', 'description', 'dependencies', 'incompatibleWith',
+  'files', 'packageJson', 'envVars', 'postInstallSteps', 'documentationUrl',
+];
+const MERGE_STRATEGIES: MergeStrategy[] = ['replace', 'merge', 'append', 'skip'];
+const PACKAGE_JSON_KEYS = ['dependencies', 'devDependencies', 'scripts', 'peerDependencies'];
+
+// Directories never searched for manifests
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  isObject(value) && Object.values(value).every(item => typeof item === 'string');
+
+// Relative and inside its root: no absolute paths or '..' segments
+function isContainedPath(value: unknown): value is string {
+  return typeof value === 'string' && value !== '' && !path.isAbsolute(value) &&
+    !value.split(/[\\/]/).includes('..');
+}
+
+/**
+ * Check a parsed fragment manifest against the fragment schema, returning one message per problem
+ */
+export function validateFragmentManifest(manifest: unknown): string[] {
+  if (!isObject(manifest)) {
+    return ['must be an object'];
+  }
+
+  const issues: string[] = [];
+  const issue = (key: string, message: string) => issues.push(`${key} ${message}`);
+
+  for (const key of Object.keys(manifest)) {
+    if (!MANIFEST_KEYS.includes(key)) issue(key, 'is not a fragment field');
+  }
+  if (typeof manifest.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(manifest.id)) {
+    issue('id', 'must be a kebab-case string');
+  }
+  if (typeof manifest.name !== 'string') issue('name', 'must be a string');
+  if (typeof manifest.description !== 'string') issue('description', 'must be a string');
+  if (!FRAGMENT_CATEGORIES.includes(manifest.category as FragmentCategory)) {
+    issue('category', `must be one of ${FRAGMENT_CATEGORIES.join(', ')}`);
+  }
+
+  if (manifest.files !== undefined && !Array.isArray(manifest.files)) {
+    issue('files', 'must be a list of { source, destination }');
+  } else {
+    (manifest.files ?? []).forEach((file: unknown, index: number) => {
+      if (!isObject(file) || !isContainedPath(file.source) || !isContainedPath(file.destination)) {
+        issue(`files[${index}]`, 'must have a relative source and destination');
+        return;
+      }
+      if (file.strategy !== undefined && !MERGE_STRATEGIES.includes(file.strategy as MergeStrategy)) {
+        issue(`files[${index}].strategy`, `must be one of ${MERGE_STRATEGIES.join(', ')}`);
+      }
+      if (file.condition !== undefined && typeof file.condition !== 'string') {
+        issue(`files[${index}].condition`, 'must be a string');
+      } else if (file.condition !== undefined) {
+        try {
+          compileCondition(file.condition);
+        } catch (error) {
+          if (!(error instanceof ConditionError)) throw error;
+          issue(`files[${index}].condition`, `must be a valid expression: ${error.reason} at column ${error.position + 1}`);
+        }
+      }
+    });
+  }
+
+  for (const key of ['dependencies', 'incompatibleWith', 'postInstallSteps'] as const) {
+    if (manifest[key] !== undefined && !isStringArray(manifest[key])) issue(key, 'must be a list of strings');
+  }
+  if (manifest.documentationUrl !== undefined && typeof manifest.documentationUrl !== 'string') {
+    issue('documentationUrl', 'must be a string');
+  }
+  if (manifest.packageJson !== undefined) {
+    if (!isObject(manifest.packageJson)) {
+      issue('packageJson', 'must be an object');
+    } else {
+      for (const [key, entries] of Object.entries(manifest.packageJson)) {
+        if (!PACKAGE_JSON_KEYS.includes(key)) issue(`packageJson.${key}`, 'is not a package.json section');
+        else if (!isStringRecord(entries)) issue(`packageJson.${key}`, 'must map names to strings');
+      }
+    }
+  }
+  if (manifest.envVars !== undefined) {
+    if (!Array.isArray(manifest.envVars)) {
+      issue('envVars', 'must be a list');
+    } else {
+      manifest.envVars.forEach((envVar, index) => {
+        if (!isObject(envVar) || typeof envVar.key !== 'string' || typeof envVar.description !== 'string' ||
+          typeof envVar.required !== 'boolean') {
+          issue(`envVars[${index}]`, 'must have a key, a description and required: true|false');
+        }
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Find every manifest under the templates directory; a fragment's path is the directory its manifest is in
+async function discoverFragments(templatesDir: string): Promise<{ fragments: TemplateFragment[]; issues: string[] }> {
+  const fragments: TemplateFragment[] = [];
+  const issues: string[] = [];
+  const definedIn = new Map<string, string>();
+
+  const readManifest = async (dir: string, file: string) => {
+    const relativeDir = path.relative(templatesDir, dir).split(path.sep).join('/');
+    const location = relativeDir ? `${relativeDir}/${file}` : file;
+    if (!relativeDir) {
+      issues.push(`${location}: manifests go in the fragment's template directory, not the root`);
+      return;
+    }
+
+    let manifest: unknown;
+    try {
+      const content = await fs.readFile(path.join(dir, file), 'utf-8');
+      manifest = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+      issues.push(`${location}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+      return;
+    }
+
+    const problems = validateFragmentManifest(manifest);
+    if (problems.length > 0) {
+      issues.push(...problems.map(problem => `${location}: ${problem}`));
+      return;
+    }
+
+    const fragment = manifest as Omit<TemplateFragment, 'path' | 'files'> & Partial<TemplateFragment>;
+    const previous = definedIn.get(fragment.id);
+    if (previous) {
+      issues.push(`${location}: fragment '${fragment.id}' is already defined by ${previous}`);
+      return;
+    }
+    definedIn.set(fragment.id, location);
+    fragments.push({ ...fragment, path: relativeDir, files: fragment.files ?? [] });
+  };
+
+  const walk = async (dir: string): Promise<void> => {
+    const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    const manifests = entries
+      .filter(entry => entry.isFile() && FRAGMENT_MANIFEST_FILES.includes(entry.name))
+      .map(entry => entry.name);
+    if (manifests.length > 1) {
+      const relativeDir = path.relative(templatesDir, dir).split(path.sep).join('/') || '.';
+      issues.push(`${relativeDir}/: found ${manifests.join(' and ')}; keep one fragment manifest`);
+    } else if (manifests.length === 1) {
+      await readManifest(dir, manifests[0]);
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) {
+        await walk(path.join(dir, entry.name));
+      }
+    }
+  };
+
+  await walk(templatesDir);
+  fragments.sort((a, b) =>
+    FRAGMENT_CATEGORIES.indexOf(a.category) - FRAGMENT_CATEGORIES.indexOf(b.category) || a.id.localeCompare(b.id));
+  return { fragments, issues };
+}
+
+/**
+ * Create a loader for the fragments defined in a templates directory. The directory is read once,
+ * on first use; any invalid manifest fails the whole load with a FragmentManifestError
+ */
+export function createFragmentLoader(templatesDir: string): FragmentLoader {
+  let loaded: Promise<TemplateFragment[]> | undefined;
+
+  const loadAllFragments = () => {
+    loaded ??= discoverFragments(templatesDir).then(({ fragments, issues }) => {
+      if (issues.length > 0) {
+        throw new FragmentManifestError(templatesDir, issues);
+      }
+      return fragments;
+    });
+    return loaded;
+  };
+
+  return {
+    loadAllFragments,
+
+    async loadFragment(id: string): Promise<TemplateFragment> {
+      const fragment = (await loadAllFragments()).find(f => f.id === id);
+      if (!fragment) {
+        throw new FragmentManifestError(templatesDir, [`no fragment manifest defines '${id}'`]);
+      }
+      return fragment;
+    },
+
+    validateFragment: validateFragmentManifest,
+  };
+}
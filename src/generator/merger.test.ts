@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { createGenerationPlan, mergePackageJson, renderGeneratedFiles, renderTemplate } from './merger.js';
+import { allFragments, getFragmentById } from './fragments/index.js';
+import { getTemplatesDir } from './loader.js';
+import { mapConfigToContext } from '../lib/mapper.js';
+import { createProjectConfig } from '../lib/prompter.js';
+import type { TemplateFragment } from './types.js';
+
+function fragment(id: string, packageJson: TemplateFragment['packageJson']): TemplateFragment {
+  return { id, name: id.toUpperCase(), category: 'tooling', path: id, description: id, files: [], packageJson };
+}
+
+describe('createGenerationPlan', () => {
+  const context = mapConfigToContext(createProjectConfig('app', { port: 3000 }));
+
+  it('should intersect the ranges fragments ask for', () => {
+    const plan = createGenerationPlan([
+      fragment('api', { devDependencies: { typescript: '^5.4.0' } }),
+      fragment('orm', { devDependencies: { typescript: '^5.7.0' } }),
+    ], context);
+
+    expect(plan.mergedPackageJson.devDependencies).toEqual({ typescript: '^5.7.0' });
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it('should name both fragments when ranges do not overlap', () => {
+    const plan = createGenerationPlan([
+      fragment('api', { devDependencies: { '@types/node': '^20.0.0' } }),
+      fragment('cli', { devDependencies: { '@types/node': '^20.11.0' } }),
+      fragment('edge', { devDependencies: { '@types/node': '^22.0.0' } }),
+    ], context);
+
+    expect(plan.mergedPackageJson.devDependencies).toEqual({ '@types/node': '^22.0.0' });
+    expect(plan.conflicts).toEqual([{
+      fragmentA: 'cli',
+      fragmentB: 'edge',
+      reason: '@types/node ^20.11.0 (API, CLI) and ^22.0.0 (EDGE) have no version in common; using ^22.0.0',
+    }]);
+  });
+
+  it('should keep packages listed in both sections in dependencies only', () => {
+    const plan = createGenerationPlan([
+      fragment('worker', { dependencies: { tsx: '^4.0.0' } }),
+      fragment('api', { devDependencies: { tsx: '^4.9.0', vitest: '^2.0.0' } }),
+    ], context);
+
+    expect(plan.mergedPackageJson.dependencies).toEqual({ tsx: '^4.9.0' });
+    expect(plan.mergedPackageJson.devDependencies).toEqual({ vitest: '^2.0.0' });
+    expect(plan.conflicts).toMatchObject([{
+      fragmentA: 'worker',
+      fragmentB: 'api',
+      reason: 'tsx is in both dependencies (^4.0.0, WORKER) and devDependencies (^4.9.0, API); keeping it in dependencies as ^4.9.0',
+    }]);
+  });
+});
+
+describe('renderGeneratedFiles', () => {
+  it('should apply the planned ranges to a package.json a template renders', async () => {
+    const context = mapConfigToContext(createProjectConfig('app', { type: 'nextjs', port: 3000 }));
+    const plan = createGenerationPlan([
+      getFragmentById('base')!,
+      getFragmentById('nextjs')!,
+      fragment('legacy', {
+        dependencies: { react: '^18.2.0', next: '^15.2.0', eslint: '^9.20.0' },
+        devDependencies: { typescript: '~5.4.0' },
+      }),
+    ], context);
+
+    expect(plan.conflicts.map(c => c.reason)).toEqual([
+      'react ^19.0.0 (Next.js) and ^18.2.0 (LEGACY) have no version in common; using ^18.2.0',
+      'typescript ^5.7.2 (Next.js) and ~5.4.0 (LEGACY) have no version in common; using ~5.4.0',
+      'eslint is in both dependencies (^9.20.0, LEGACY) and devDependencies (^9.17.0, Next.js); keeping it in dependencies',
+    ]);
+
+    const pkg = JSON.parse((await renderGeneratedFiles(plan, context, getTemplatesDir())).get('package.json') as string);
+    expect(pkg.scripts.dev).toBe('next dev -p 3000');
+    expect(pkg.dependencies).toMatchObject({ react: '^18.2.0', next: '^15.2.0', eslint: '^9.20.0' });
+    expect(pkg.devDependencies.typescript).toBe('~5.4.0');
+    expect(pkg.devDependencies.eslint).toBeUndefined();
+  });
+
+  // The plan and --dry-run only know a template's packages through its manifest
+  it('should declare the dependencies each package.json template renders', async () => {
+    for (const owner of allFragments.filter(f => f.files.some(file => file.destination === 'package.json'))) {
+      const context = mapConfigToContext(createProjectConfig('app', { port: 3000 }));
+      const source = owner.files.find(file => file.destination === 'package.json')!.source;
+      const pkg = JSON.parse((await renderTemplate(path.join(getTemplatesDir(), owner.path, source), context)).toString());
+
+      for (const section of ['dependencies', 'devDependencies'] as const) {
+        expect(pkg[section], `${owner.id} ${section}`).toMatchObject(owner.packageJson?.[section] ?? {});
+      }
+    }
+  });
+});
+
+describe('mergePackageJson', () => {
+  it('should return the conflicts and let the incoming range win', () => {
+    const target = { dependencies: { react: '^18.3.0' } };
+    expect(mergePackageJson(target, { dependencies: { react: '^19.0.0', zod: '^3.23.0' } })).toEqual([
+      { section: 'dependencies', name: 'react', existing: '^18.3.0', incoming: '^19.0.0' },
+    ]);
+    expect(target.dependencies).toEqual({ react: '^19.0.0', zod: '^3.23.0' });
+  });
+});
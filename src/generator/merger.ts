@@ -3,16 +3,34 @@
  * Merges multiple fragments into a unified project structure
  */
 
-import * as fs from 'fs-extra';
+import fs from 'fs-extra';
 import * as path from 'path';
-import * as ejs from 'ejs';
 import type {
   TemplateFragment,
   GeneratorContext,
   PackageJsonFragment,
   EnvVarDefinition,
+  FileContribution,
   GenerationPlan,
-} from './types';
+} from './types.js';
+import { mergeFileContent } from './strategies.js';
+import { fileApplies } from './conditions.js';
+import { intersectRanges } from './ranges.js';
+import { buildTemplateContext } from '../core/ProjectScaffolder.js';
+import { renderTemplateFile } from '../core/renderers.js';
+import { createProjectConfig } from '../lib/prompter.js';
+import { createManifest, writeManifest, writeBaseline, type ManifestInput, type RenderedFiles } from '../core/manifest.js';
+import { stageOutput } from '../core/staging.js';
+
+// Every file that failed to render or merge, reported together once rendering is done
+export class GenerationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Could not render the project:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    this.name = 'GenerationError';
+  }
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
 
 // Create generation plan from fragments
 export function createGenerationPlan(
@@ -31,10 +49,27 @@ export function createGenerationPlan(
   const conflicts: Array<{ fragmentA: string; fragmentB: string; reason: string }> = [];
   const seenEnvKeys = new Set<string>();
 
+  // Fragments whose ranges make up each merged dependency
+  const requestedBy = new Map<string, TemplateFragment[]>();
+
   for (const fragment of fragments) {
     // Merge package.json
     if (fragment.packageJson) {
-      mergePackageJson(mergedPackageJson, fragment.packageJson);
+      for (const conflict of mergePackageJson(mergedPackageJson, fragment.packageJson)) {
+        const earlier = requestedBy.get(`${conflict.section}:${conflict.name}`) ?? [];
+        conflicts.push({
+          fragmentA: earlier[earlier.length - 1]?.id ?? '',
+          fragmentB: fragment.id,
+          reason: `${conflict.name} ${conflict.existing} (${earlier.map(f => f.name).join(', ')}) and ` +
+            `${conflict.incoming} (${fragment.name}) have no version in common; using ${conflict.incoming}`,
+        });
+        requestedBy.delete(`${conflict.section}:${conflict.name}`);
+      }
+      for (const section of DEPENDENCY_SECTIONS) {
+        for (const name of Object.keys(fragment.packageJson[section] ?? {})) {
+          requestedBy.set(`${section}:${name}`, [...requestedBy.get(`${section}:${name}`) ?? [], fragment]);
+        }
+      }
     }
 
     // Collect env vars
@@ -69,32 +104,110 @@ export function createGenerationPlan(
     }
   }
 
+  // A package in both sections is installed as a dependency, so that is where it stays
+  const { dependencies = {}, devDependencies = {} } = mergedPackageJson;
+  for (const [name, devRange] of Object.entries(devDependencies)) {
+    const range = dependencies[name];
+    if (range === undefined) continue;
+
+    const merged = intersectRanges(range, devRange);
+    const runtime = requestedBy.get(`dependencies:${name}`) ?? [];
+    const dev = requestedBy.get(`devDependencies:${name}`) ?? [];
+    conflicts.push({
+      fragmentA: runtime[runtime.length - 1]?.id ?? '',
+      fragmentB: dev[dev.length - 1]?.id ?? '',
+      reason: `${name} is in both dependencies (${range}, ${runtime.map(f => f.name).join(', ')}) and ` +
+        `devDependencies (${devRange}, ${dev.map(f => f.name).join(', ')}); keeping it in dependencies` +
+        (merged ? (merged === range ? '' : ` as ${merged}`) : ' although the ranges have no version in common'),
+    });
+    dependencies[name] = merged ?? range;
+    delete devDependencies[name];
+  }
+
   return {
     fragments,
     mergedPackageJson,
     allEnvVars,
     allPostInstallSteps,
     conflicts,
+    files: planFiles(fragments, context),
   };
 }
 
-// Merge package.json fragments
-function mergePackageJson(
+// A fragment's own template is authoritative for the files it renders
+function rendersFile(fragment: TemplateFragment, destination: string, context: GeneratorContext): boolean {
+  return fragment.files.some(file => file.destination === destination && fileApplies(file, context));
+}
+
+// Which fragments end up in each output file: 'replace' drops the earlier contributions, 'skip' adds nothing
+function planFiles(fragments: TemplateFragment[], context: GeneratorContext): Record<string, FileContribution[]> {
+  const files: Record<string, FileContribution[]> = {};
+
+  for (const fragment of fragments) {
+    for (const file of fragment.files) {
+      if (!fileApplies(file, context)) continue;
+
+      const strategy = file.strategy ?? 'replace';
+      const contribution = { fragment: fragment.id, source: path.posix.join(fragment.path, file.source), strategy };
+      const earlier = files[file.destination];
+      if (!earlier || strategy === 'replace') {
+        files[file.destination] = [contribution];
+      } else if (strategy !== 'skip') {
+        earlier.push(contribution);
+      }
+    }
+  }
+
+  // Dependencies and env vars of fragments that do not render package.json or .env.example themselves
+  for (const fragment of fragments) {
+    const declaresPackages = Object.values(fragment.packageJson ?? {}).some(entries => Object.keys(entries ?? {}).length > 0);
+    if (declaresPackages && !rendersFile(fragment, 'package.json', context)) {
+      (files['package.json'] ??= []).push({ fragment: fragment.id, strategy: 'merge' });
+    }
+    if (fragment.envVars?.length && !rendersFile(fragment, '.env.example', context)) {
+      (files['.env.example'] ??= []).push({ fragment: fragment.id, strategy: 'merge' });
+    }
+  }
+
+  return files;
+}
+
+// package.json sections that hold version ranges
+const DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies', 'peerDependencies'] as const;
+
+export type DependencySection = typeof DEPENDENCY_SECTIONS[number];
+
+// A package requested twice in one section with ranges no version satisfies
+export interface RangeConflict {
+  section: DependencySection;
+  name: string;
+  existing: string;
+  incoming: string;
+}
+
+// Merge package.json fragments. Ranges for the same package are intersected; when no version
+// satisfies both, the incoming range wins and the conflict is returned
+export function mergePackageJson(
   target: PackageJsonFragment,
   source: PackageJsonFragment
-): void {
-  if (source.dependencies) {
-    target.dependencies = { ...target.dependencies, ...source.dependencies };
-  }
-  if (source.devDependencies) {
-    target.devDependencies = { ...target.devDependencies, ...source.devDependencies };
+): RangeConflict[] {
+  const conflicts: RangeConflict[] = [];
+
+  for (const section of DEPENDENCY_SECTIONS) {
+    for (const [name, range] of Object.entries(source[section] ?? {})) {
+      const existing = target[section]?.[name];
+      const merged = existing === undefined ? range : intersectRanges(existing, range);
+      if (existing !== undefined && merged === null) {
+        conflicts.push({ section, name, existing, incoming: range });
+      }
+      target[section] = { ...target[section], [name]: merged ?? range };
+    }
   }
   if (source.scripts) {
     target.scripts = { ...target.scripts, ...source.scripts };
   }
-  if (source.peerDependencies) {
-    target.peerDependencies = { ...target.peerDependencies, ...source.peerDependencies };
-  }
+
+  return conflicts;
 }
 
 // Generate merged package.json content
@@ -152,83 +265,252 @@ export function generateEnvExample(envVars: EnvVarDefinition[]): string {
   return lines.join('\n');
 }
 
-// Render a template file
+// Append env vars missing from an existing .env.example
+export function mergeEnvExample(
+  existingContent: string,
+  envVars: EnvVarDefinition[],
+  sectionTitle: string
+): { content: string; added: string[] } {
+  const existingKeys = new Set<string>();
+  for (const line of existingContent.split('\n')) {
+    const match = line.match(/^#?\s*([A-Z][A-Z0-9_]*)=/);
+    if (match) {
+      existingKeys.add(match[1]);
+    }
+  }
+
+  const missing = envVars.filter(v => !existingKeys.has(v.key));
+  if (missing.length === 0) {
+    return { content: existingContent, added: [] };
+  }
+
+  const lines: string[] = [];
+  if (existingContent.length > 0) {
+    lines.push(existingContent.replace(/\n*$/, ''), '');
+  }
+  lines.push(`# ${sectionTitle}`);
+  for (const envVar of missing) {
+    lines.push(`# ${envVar.description}`);
+    lines.push(envVar.required
+      ? `${envVar.key}=${envVar.defaultValue || ''}`
+      : `# ${envVar.key}=${envVar.defaultValue || ''}`);
+  }
+  lines.push('');
+
+  return { content: lines.join('\n'), added: missing.map(v => v.key) };
+}
+
+// Render a template file with the engine its extension selects
 export async function renderTemplate(
   templatePath: string,
   context: GeneratorContext
-): Promise<string> {
-  const template = await fs.readFile(templatePath, 'utf-8');
-  return ejs.render(template, context, {
-    filename: templatePath,
-  });
+): Promise<string | Buffer> {
+  const config = context.config ?? createProjectConfig(context.projectName, { description: context.metadata.description });
+  return renderTemplateFile(templatePath, buildTemplateContext(config, context));
 }
 
-// Write generated files to output directory
-export async function writeGeneratedFiles(
-  plan: GenerationPlan,
-  context: GeneratorContext,
-  outputDir: string,
-  templatesDir: string
-): Promise<string[]> {
-  const filesCreated: string[] = [];
-
-  // Ensure output directory exists
-  await fs.ensureDir(outputDir);
+// First template directory that has the file; later directories are fallbacks
+async function findTemplate(templatesDirs: string[], fragmentPath: string, source: string): Promise<string | undefined> {
+  for (const templatesDir of templatesDirs) {
+    const sourcePath = path.join(templatesDir, fragmentPath, source);
+    if (await fs.pathExists(sourcePath)) {
+      return sourcePath;
+    }
+  }
+  return undefined;
+}
 
-  // Process each fragment
-  for (const fragment of plan.fragments) {
-    const fragmentTemplatePath = path.join(templatesDir, fragment.path);
+// Render the files of each fragment in memory, adding a message to `errors` for each file that fails
+async function renderFragments(
+  fragments: TemplateFragment[],
+  context: GeneratorContext,
+  templatesDirs: string[],
+  errors: string[]
+): Promise<RenderedFiles> {
+  const rendered: RenderedFiles = new Map();
 
+  for (const fragment of fragments) {
     for (const file of fragment.files) {
-      // Check condition
-      if (file.condition && !file.condition(context)) {
+      if (!fileApplies(file, context)) {
         continue;
       }
 
-      const sourcePath = path.join(fragmentTemplatePath, file.source);
-      const destPath = path.join(outputDir, file.destination);
-
       // Skip if source doesn't exist
-      if (!await fs.pathExists(sourcePath)) {
+      const sourcePath = await findTemplate(templatesDirs, fragment.path, file.source);
+      if (!sourcePath) {
         continue;
       }
 
-      // Ensure destination directory exists
-      await fs.ensureDir(path.dirname(destPath));
-
-      // Render and write file
       try {
         const content = await renderTemplate(sourcePath, context);
-        await fs.writeFile(destPath, content);
-        filesCreated.push(file.destination);
+        const earlier = rendered.get(file.destination);
+        rendered.set(
+          file.destination,
+          earlier === undefined ? content : mergeFileContent(file.destination, earlier, content, file.strategy ?? 'replace')
+        );
       } catch (error) {
-        console.error(`Error processing ${sourcePath}:`, error);
+        errors.push(errorMessage(error));
       }
     }
   }
 
-  // Write merged package.json (if we have dependencies/scripts)
-  const packageJsonPath = path.join(outputDir, 'package.json');
-  const hasPackageJson = plan.mergedPackageJson.dependencies &&
-    Object.keys(plan.mergedPackageJson.dependencies).length > 0 ||
-    plan.mergedPackageJson.scripts &&
-    Object.keys(plan.mergedPackageJson.scripts).length > 0;
+  return rendered;
+}
+
+/**
+ * Render the files of each fragment in memory. Every file is attempted; if any fail, a
+ * GenerationError lists them all
+ */
+export async function renderFragmentFiles(
+  fragments: TemplateFragment[],
+  context: GeneratorContext,
+  templatesDir: string | string[]
+): Promise<RenderedFiles> {
+  const errors: string[] = [];
+  const rendered = await renderFragments(fragments, context, Array.isArray(templatesDir) ? templatesDir : [templatesDir], errors);
+  if (errors.length > 0) {
+    throw new GenerationError(errors);
+  }
+  return rendered;
+}
+
+/**
+ * Render all generated files, including merged package.json and .env.example. Throws a
+ * GenerationError listing every file that failed, so nothing is written from a partial render
+ */
+export async function renderGeneratedFiles(
+  plan: GenerationPlan,
+  context: GeneratorContext,
+  templatesDir: string | string[]
+): Promise<RenderedFiles> {
+  const errors: string[] = [];
+  const rendered = await renderFragments(plan.fragments, context, Array.isArray(templatesDir) ? templatesDir : [templatesDir], errors);
 
-  if (hasPackageJson && !filesCreated.includes('package.json')) {
-    const packageJson = generatePackageJson(context, plan.mergedPackageJson);
-    await fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n');
-    filesCreated.push('package.json');
+  // Dependency ranges come from the plan, so a template cannot drop what other fragments ask for
+  const renderedPackageJson = rendered.get('package.json');
+  if (renderedPackageJson !== undefined) {
+    const scripts: Record<string, string> = {};
+    for (const fragment of plan.fragments) {
+      if (!rendersFile(fragment, 'package.json', context)) {
+        Object.assign(scripts, fragment.packageJson?.scripts);
+      }
+    }
+    try {
+      rendered.set('package.json', addToPackageJson(renderedPackageJson.toString(), { ...plan.mergedPackageJson, scripts }));
+    } catch (error) {
+      errors.push(errorMessage(error));
+    }
+  } else {
+    // Merged package.json (if we have dependencies/scripts)
+    const hasPackageJson = plan.mergedPackageJson.dependencies &&
+      Object.keys(plan.mergedPackageJson.dependencies).length > 0 ||
+      plan.mergedPackageJson.scripts &&
+      Object.keys(plan.mergedPackageJson.scripts).length > 0;
+
+    if (hasPackageJson) {
+      const packageJson = generatePackageJson(context, plan.mergedPackageJson);
+      rendered.set('package.json', JSON.stringify(packageJson, null, 2) + '\n');
+    }
   }
 
-  // Write merged .env.example
-  if (plan.allEnvVars.length > 0 && !filesCreated.includes('.env.example')) {
-    const envExamplePath = path.join(outputDir, '.env.example');
-    const envContent = generateEnvExample(plan.allEnvVars);
-    await fs.writeFile(envExamplePath, envContent);
-    filesCreated.push('.env.example');
+  const renderedEnvExample = rendered.get('.env.example');
+  if (renderedEnvExample !== undefined) {
+    let content = renderedEnvExample.toString();
+    for (const fragment of plan.fragments) {
+      if (fragment.envVars && !rendersFile(fragment, '.env.example', context)) {
+        content = mergeEnvExample(content, fragment.envVars, fragment.name).content;
+      }
+    }
+    rendered.set('.env.example', content);
+  } else if (plan.allEnvVars.length > 0) {
+    // Merged .env.example
+    rendered.set('.env.example', generateEnvExample(plan.allEnvVars));
   }
 
-  return filesCreated;
+  if (errors.length > 0) {
+    throw new GenerationError(errors);
+  }
+  return rendered;
+}
+
+// Write planned dependency ranges into a rendered package.json. Packages the plan has are set to
+// its range, in the section it chose; packages only the template declares keep theirs. Scripts
+// are only added where the template has none of that name
+export function addToPackageJson(content: string, additions: PackageJsonFragment): string {
+  let pkg: Record<string, unknown>;
+  try {
+    pkg = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`package.json does not render to valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const planned = new Set(DEPENDENCY_SECTIONS.flatMap(section => Object.keys(additions[section] ?? {})));
+  let changed = false;
+  for (const key of ['scripts', ...DEPENDENCY_SECTIONS] as const) {
+    const existing = (pkg[key] ?? {}) as Record<string, string>;
+    const merged = key === 'scripts'
+      ? { ...existing, ...Object.fromEntries(Object.entries(additions.scripts ?? {}).filter(([name]) => !(name in existing))) }
+      : sortObject({
+        ...Object.fromEntries(Object.entries(existing).filter(([name]) => !planned.has(name))),
+        ...additions[key],
+      });
+    if (JSON.stringify(merged) === JSON.stringify(existing)) continue;
+
+    if (Object.keys(merged).length > 0) {
+      pkg[key] = merged;
+    } else {
+      delete pkg[key];
+    }
+    changed = true;
+  }
+
+  return changed ? JSON.stringify(pkg, null, 2) + '\n' : content;
+}
+
+// Render and write generated files, moving them into the output directory only once all are written
+export async function writeGeneratedFiles(
+  plan: GenerationPlan,
+  context: GeneratorContext,
+  outputDir: string,
+  templatesDir: string
+): Promise<string[]> {
+  const rendered = await renderGeneratedFiles(plan, context, templatesDir);
+  return stageOutput(outputDir, stagingDir => writeRenderedFiles(rendered, stagingDir));
+}
+
+// Write rendered files to output directory
+export async function writeRenderedFiles(
+  rendered: RenderedFiles,
+  outputDir: string
+): Promise<string[]> {
+  // Ensure output directory exists
+  await fs.ensureDir(outputDir);
+
+  for (const [file, content] of rendered) {
+    const destPath = path.join(outputDir, file);
+    await fs.ensureDir(path.dirname(destPath));
+    await fs.writeFile(destPath, content);
+  }
+
+  return [...rendered.keys()];
+}
+
+/**
+ * Write a project's files along with its manifest and baseline. `files` are what gets written
+ * once collisions are resolved, while the manifest and baseline record `rendered`, what the
+ * templates produced: upgrade then sees kept or merged files as local changes, and `.kickoff-new`
+ * side files are never tracked as generated
+ */
+export async function writeProjectFiles(
+  outputDir: string,
+  rendered: RenderedFiles,
+  files: RenderedFiles,
+  manifest: Omit<ManifestInput, 'files'>
+): Promise<string[]> {
+  const written = await writeRenderedFiles(files, outputDir);
+  await writeManifest(outputDir, await createManifest(outputDir, { ...manifest, files: rendered }));
+  await writeBaseline(outputDir, rendered);
+  return written;
 }
 
 // Sort object keys alphabetically
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import semver from 'semver';
+import { intersectRanges } from './ranges.js';
+
+describe('intersectRanges', () => {
+  it('should keep the narrower of two nested ranges', () => {
+    expect(intersectRanges('^5.4.0', '^5.7.0')).toBe('^5.7.0');
+    expect(intersectRanges('~5.7.2', '^5.4.0')).toBe('~5.7.2');
+    expect(intersectRanges('*', '^1.2.0')).toBe('^1.2.0');
+    expect(intersectRanges('latest', 'latest')).toBe('latest');
+  });
+
+  it('should combine partially overlapping ranges', () => {
+    const range = intersectRanges('>=1.2.0 <3.0.0', '^2.1.0 || ^3.0.0');
+    expect(range).not.toBeNull();
+    expect(semver.satisfies('2.5.0', range!)).toBe(true);
+    expect(semver.satisfies('1.9.0', range!)).toBe(false);
+    expect(semver.satisfies('3.1.0', range!)).toBe(false);
+  });
+
+  it('should return null for ranges without a common version', () => {
+    expect(intersectRanges('^20.0.0', '^22.0.0')).toBeNull();
+    expect(intersectRanges('latest', '^1.0.0')).toBeNull();
+    expect(intersectRanges('github:acme/lib', 'github:acme/lib#v2')).toBeNull();
+  });
+});
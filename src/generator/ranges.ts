@@ -0,0 +1,33 @@
+/**
+ * Dependency Ranges
+ * Intersect the semver ranges different fragments ask for
+ */
+
+import semver from 'semver';
+
+// Comparators joined with spaces must all hold; sets joined with || are alternatives
+const formatSet = (set: readonly semver.Comparator[]) => set.map(comparator => comparator.value || '*').join(' ');
+
+/**
+ * The range satisfying both `a` and `b`, or null when no version does (or either is not a
+ * semver range, such as a git URL or dist-tag, and they differ). Prefers whichever range is
+ * already a subset of the other, so `^5.4.0` and `^5.7.0` give `^5.7.0`
+ */
+export function intersectRanges(a: string, b: string): string | null {
+  if (a.trim() === b.trim()) return a;
+  if (!semver.validRange(a) || !semver.validRange(b)) return null;
+  if (semver.subset(a, b)) return a;
+  if (semver.subset(b, a)) return b;
+  if (!semver.intersects(a, b)) return null;
+
+  // Partial overlap: every pair of comparator sets that overlaps, combined
+  const sets: string[] = [];
+  for (const left of new semver.Range(a).set) {
+    for (const right of new semver.Range(b).set) {
+      if (semver.intersects(formatSet(left), formatSet(right))) {
+        sets.push(`${formatSet(left)} ${formatSet(right)}`);
+      }
+    }
+  }
+  return sets.join(' || ');
+}
@@ -3,7 +3,7 @@
  * Central registry for all template fragments
  */
 
-import type { TemplateFragment, FragmentCategory, FragmentRegistry } from './types';
+import type { TemplateFragment, FragmentCategory, FragmentRegistry } from './types.js';
 
 // Create a fragment registry
 export function createFragmentRegistry(fragments: TemplateFragment[]): FragmentRegistry {
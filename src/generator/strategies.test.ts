@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from 'yaml';
+import { appendLines, deepMergeJson, mergeFileContent, mergeYaml, MergeError } from './strategies.js';
+import { ProjectScaffolder } from '../core/ProjectScaffolder.js';
+import { createProjectConfig } from '../lib/prompter.js';
+
+describe('merge strategies', () => {
+  it('should deep-merge JSON objects and union arrays', () => {
+    expect(deepMergeJson(
+      { compilerOptions: { strict: true, lib: ['ES2022'] }, include: ['src'] },
+      { compilerOptions: { jsx: 'react-jsx', lib: ['ES2022', 'DOM'] }, include: ['src', 'test'] }
+    )).toEqual({
+      compilerOptions: { strict: true, lib: ['ES2022', 'DOM'], jsx: 'react-jsx' },
+      include: ['src', 'test'],
+    });
+  });
+
+  it('should append only new lines, bringing their comments along', () => {
+    expect(appendLines('node_modules/\n.env\n', '# Build\ndist/\n\n# Env\n.env\n')).toBe('node_modules/\n.env\n\n# Build\ndist/\n');
+    expect(appendLines('node_modules/\n', 'node_modules/\n')).toBe('node_modules/\n');
+    // Env files are de-duplicated by key, so the first default wins
+    expect(appendLines('PORT=3000\n', 'PORT=8080\nREDIS_URL=redis://localhost:6379\n', true))
+      .toBe('PORT=3000\n\nREDIS_URL=redis://localhost:6379\n');
+  });
+
+  it('should merge YAML mappings key by key and keep comments', () => {
+    const merged = mergeYaml(
+      '# Local services\nservices:\n  app:\n    build: .\n    ports:\n      - "3000:3000"\n',
+      'services:\n  app:\n    read_only: true\n    ports:\n      - "3000:3000"\n  redis:\n    image: redis:7\n'
+    );
+
+    expect(merged.startsWith('# Local services\n')).toBe(true);
+    expect(parse(merged)).toEqual({
+      services: {
+        app: { build: '.', ports: ['3000:3000'], read_only: true },
+        redis: { image: 'redis:7' },
+      },
+    });
+  });
+
+  it('should pick the merge by extension and strategy', () => {
+    expect(mergeFileContent('a.json', '{"a":1}', '{"b":2}', 'merge')).toBe('{\n  "a": 1,\n  "b": 2\n}\n');
+    expect(mergeFileContent('notes.txt', 'one\n', 'two\n', 'merge')).toBe('one\n\ntwo\n');
+    expect(mergeFileContent('a.json', '{"a":1}', '{"b":2}', 'skip')).toBe('{"a":1}');
+    expect(mergeFileContent('a.json', '{"a":1}', '{"b":2}', 'replace')).toBe('{"b":2}');
+    expect(mergeFileContent('logo.png', Buffer.from('old'), Buffer.from('new'), 'merge')).toEqual(Buffer.from('new'));
+    expect(() => mergeFileContent('a.json', '{"a":', '{}', 'merge')).toThrow(MergeError);
+  });
+
+  it('should keep every fragment\'s part of a shared file and report who contributed', async () => {
+    const scaffolder = new ProjectScaffolder();
+    const projectPlan = scaffolder.plan(createProjectConfig('jobs', { type: 'worker', runtime: 'node', port: 3000 }));
+    const rendered = await scaffolder.renderPlan(projectPlan);
+
+    expect(projectPlan.plan.files['docker-compose.yml']).toEqual([
+      { fragment: 'worker', source: 'worker/docker-compose.yml.ejs', strategy: 'replace' },
+      { fragment: 'docker', source: 'docker/docker-compose.yml.ejs', strategy: 'merge' },
+    ]);
+    const compose = parse(String(rendered.get('docker-compose.yml')));
+    expect(Object.keys(compose.services)).toEqual(['jobs', 'redis']);
+    expect(compose.services.jobs).toMatchObject({ build: '.', depends_on: ['redis'], read_only: true });
+    expect(compose.volumes).toHaveProperty('redis_data');
+  });
+});
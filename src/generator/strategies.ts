@@ -0,0 +1,150 @@
+/**
+ * File Merge Strategies
+ * Combine what several fragments render to the same output path
+ */
+
+import * as path from 'path';
+import { isMap, isSeq, parseDocument, type Node } from 'yaml';
+import type { MergeStrategy } from './types.js';
+
+export class MergeError extends Error {
+  constructor(
+    public readonly destination: string,
+    public readonly reason: string
+  ) {
+    super(`Cannot merge ${destination}: ${reason}`);
+    this.name = 'MergeError';
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Deep-merge JSON values: objects key by key, arrays as a de-duplicated union,
+ * and the incoming value for anything else
+ */
+export function deepMergeJson(existing: unknown, incoming: unknown): unknown {
+  if (isPlainObject(existing) && isPlainObject(incoming)) {
+    const merged: Record<string, unknown> = { ...existing };
+    for (const [key, value] of Object.entries(incoming)) {
+      merged[key] = key in existing ? deepMergeJson(existing[key], value) : value;
+    }
+    return merged;
+  }
+  if (Array.isArray(existing) && Array.isArray(incoming)) {
+    const seen = new Set(existing.map(item => JSON.stringify(item)));
+    return [...existing, ...incoming.filter(item => !seen.has(JSON.stringify(item)))];
+  }
+  return incoming;
+}
+
+// What makes two lines the same entry: the key for KEY=value lines in env files, the trimmed line otherwise
+function lineKey(line: string, envFile: boolean): string {
+  const trimmed = line.trim();
+  const assignment = envFile && trimmed.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=/);
+  return assignment ? `env:${assignment[1]}` : trimmed;
+}
+
+/**
+ * Append the incoming lines the existing content does not have yet. Blank lines and comments
+ * only come along with a new entry they precede
+ */
+export function appendLines(existing: string, incoming: string, envFile = false): string {
+  const seen = new Set(existing.split('\n').map(line => lineKey(line, envFile)).filter(Boolean));
+  const added: string[] = [];
+  let pending: string[] = [];
+
+  for (const line of incoming.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      pending.push(line);
+      continue;
+    }
+    const key = lineKey(line, envFile);
+    if (!seen.has(key)) {
+      seen.add(key);
+      added.push(...pending, line);
+    }
+    pending = [];
+  }
+
+  if (added.length === 0) {
+    return existing;
+  }
+  // Keep one blank line between the existing content and the appended block
+  while (added.length > 0 && added[0].trim() === '') added.shift();
+  return `${existing.trimEnd()}\n\n${added.join('\n')}\n`;
+}
+
+// Merge incoming YAML mappings into existing ones key by key; sequences gain missing items
+function mergeYamlNodes(existing: Node, incoming: Node): Node {
+  if (isMap(existing) && isMap(incoming)) {
+    for (const pair of incoming.items) {
+      const key = pair.key as Node;
+      const value = pair.value as Node | null;
+      const current = existing.get(key, true) as Node | undefined;
+      if (current && value) {
+        existing.set(key, mergeYamlNodes(current, value));
+      } else if (!current) {
+        existing.set(key, value);
+      }
+    }
+    return existing;
+  }
+  if (isSeq(existing) && isSeq(incoming)) {
+    const seen = new Set(existing.items.map(item => JSON.stringify((item as Node).toJSON())));
+    for (const item of incoming.items) {
+      if (!seen.has(JSON.stringify((item as Node).toJSON()))) existing.items.push(item);
+    }
+    return existing;
+  }
+  return incoming;
+}
+
+/**
+ * Key-level merge of YAML documents such as docker-compose files and workflows, keeping the
+ * existing document's comments and layout
+ */
+export function mergeYaml(existing: string, incoming: string): string {
+  const base = parseDocument(existing);
+  const addition = parseDocument(incoming);
+  const error = base.errors[0] ?? addition.errors[0];
+  if (error) {
+    throw new Error(error.message.split('\n')[0]);
+  }
+  if (!base.contents) return incoming;
+  if (addition.contents) {
+    base.contents = mergeYamlNodes(base.contents, addition.contents) as typeof base.contents;
+  }
+  return base.toString();
+}
+
+/**
+ * Combine a fragment's rendered file with the content earlier fragments produced for the same
+ * path. `merge` is structural for JSON and YAML and falls back to `append` for other text;
+ * binary content can only be replaced or skipped
+ */
+export function mergeFileContent(
+  destination: string,
+  existing: string | Buffer,
+  incoming: string | Buffer,
+  strategy: MergeStrategy
+): string | Buffer {
+  if (strategy === 'skip') return existing;
+  if (strategy === 'replace' || Buffer.isBuffer(existing) || Buffer.isBuffer(incoming)) return incoming;
+
+  const extension = path.extname(destination).toLowerCase();
+  const envFile = path.basename(destination).startsWith('.env');
+  try {
+    if (strategy === 'merge' && extension === '.json') {
+      return JSON.stringify(deepMergeJson(JSON.parse(existing), JSON.parse(incoming)), null, 2) + '\n';
+    }
+    if (strategy === 'merge' && (extension === '.yml' || extension === '.yaml')) {
+      return mergeYaml(existing, incoming);
+    }
+  } catch (error) {
+    throw new MergeError(destination, error instanceof Error ? error.message : String(error));
+  }
+  return appendLines(existing, incoming, envFile);
+}
@@ -3,7 +3,8 @@
  * Interfaces for composable template fragments and generation context
  */
 
-import type { StackOption, Runtime, ProjectType } from '../knowledge/types';
+import type { StackOption, Runtime, ProjectType } from '../knowledge/types.js';
+import type { ProjectConfig } from '../lib/types.js';
 
 // Fragment categories
 export type FragmentCategory =
@@ -18,11 +19,28 @@ export type FragmentCategory =
   | 'deployment'
   | 'tooling';
 
+// How a fragment file combines with what earlier fragments rendered to the same destination:
+// 'merge' is a deep merge for JSON, a key-level merge for YAML and 'append' for other text,
+// 'append' adds the lines not there yet, 'skip' keeps the earlier file
+export type MergeStrategy = 'replace' | 'merge' | 'append' | 'skip';
+
 // File mapping within a fragment
 export interface FragmentFile {
   source: string;
   destination: string;
-  condition?: (context: GeneratorContext) => boolean;
+  // Expression over the generator context, e.g. `features.docker && selections.orm == 'prisma'`;
+  // the file is only rendered when it holds (see conditions.ts)
+  condition?: string;
+  // Defaults to 'replace'
+  strategy?: MergeStrategy;
+}
+
+// A fragment's part in an output file
+export interface FileContribution {
+  fragment: string;
+  // Template path; absent for dependencies and env vars merged into package.json and .env.example
+  source?: string;
+  strategy: MergeStrategy;
 }
 
 // Package.json modifications
@@ -77,6 +95,8 @@ export interface GeneratorContext {
     repository?: string;
     license?: string;
   };
+  // Full project configuration, exposed to templates via buildContext
+  config?: ProjectConfig;
 }
 
 // Fragment registry for looking up fragments
@@ -94,6 +114,29 @@ export interface GenerationPlan {
   allEnvVars: EnvVarDefinition[];
   allPostInstallSteps: string[];
   conflicts: Array<{ fragmentA: string; fragmentB: string; reason: string }>;
+  // Output path -> the fragments that end up in it, in the order they are applied
+  files: Record<string, FileContribution[]>;
+}
+
+// What happens to a generated file whose path already exists with other content:
+// 'kickoff-new' writes it next to the existing one as `<file>.kickoff-new`, 'merge' combines
+// the two with the file's 'merge' strategy
+export type CollisionResolution = 'keep' | 'overwrite' | 'kickoff-new' | 'merge';
+
+// A generated file that would replace a different file already in the output directory
+export interface FileCollision {
+  file: string;
+  existing: Buffer;
+  generated: string | Buffer;
+  // The merged content; absent when the two cannot be merged (binary or unparseable files)
+  merged?: string;
+}
+
+export interface CollisionDecision {
+  file: string;
+  resolution: CollisionResolution;
+  // Where the generated content went, when that is not `file`
+  writtenTo?: string;
 }
 
 // Generation result
@@ -101,26 +144,32 @@ export interface GenerationResult {
   success: boolean;
   outputPath: string;
   filesCreated: string[];
+  // What was done with each generated file that already existed
+  collisions: CollisionDecision[];
   warnings: string[];
   errors: string[];
   nextSteps: string[];
 }
 
-// Template merge strategy
-export type MergeStrategy = 'replace' | 'merge' | 'append' | 'skip';
-
 // File generation options
 export interface FileGenerationOptions {
-  overwrite: boolean;
-  dryRun: boolean;
-  verbose: boolean;
+  // Replace files that already exist in the output directory
+  overwrite?: boolean;
+  // Keep files that already exist and only add the new ones
+  skipExisting?: boolean;
+  // Decide file by file; without this or one of the flags above, an existing file fails generation
+  resolveCollision?: (collision: FileCollision) => Promise<CollisionResolution>;
+  // Render and resolve collisions without writing anything
+  dryRun?: boolean;
+  verbose?: boolean;
 }
 
-// Fragment loader interface
+// Reads fragment definitions from the fragment.yaml / fragment.json manifests in a templates directory
 export interface FragmentLoader {
   loadFragment(id: string): Promise<TemplateFragment>;
   loadAllFragments(): Promise<TemplateFragment[]>;
-  validateFragment(fragment: TemplateFragment): boolean;
+  // Problems with a manifest's contents; empty when it is a valid fragment
+  validateFragment(manifest: unknown): string[];
 }
 
 // Template engine interface
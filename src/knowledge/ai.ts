@@ -3,7 +3,7 @@
  * Comprehensive data for AI frameworks, vector DBs, embeddings, and local AI
  */
 
-import { AIOption, VectorDBOption, EmbeddingOption, LocalAIOption } from './types';
+import { AIOption, VectorDBOption, EmbeddingOption, LocalAIOption } from './types.js';
 
 // AI SDK and Framework options
 export const aiFrameworks: AIOption[] = [
@@ -3,7 +3,7 @@
  * Comprehensive data for all supported authentication providers
  */
 
-import { AuthOption } from './types';
+import { AuthOption } from './types.js';
 
 export const authProviders: AuthOption[] = [
   // Hosted Auth Providers
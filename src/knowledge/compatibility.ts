@@ -3,7 +3,7 @@
  * Defines which stack options work together and which conflict
  */
 
-import { CompatibilityMatrix, CompatibilityRule } from './types';
+import { CompatibilityMatrix, CompatibilityRule } from './types.js';
 
 // Main compatibility matrix
 export const compatibilityMatrix: CompatibilityMatrix = {
@@ -271,6 +271,30 @@ export const getCompatibilityNote = (source: string, target: string): string | u
   return compatibilityMatrix[source]?.notes?.[target];
 };
 
+// Collect compatibility notes for an option, limited to `stack` when given
+export const getCompatibilityNotes = (
+  optionId: string,
+  stack?: string[]
+): Array<{ target: string; compatible: boolean; note?: string }> => {
+  const targets = stack ?? [
+    ...Object.keys(compatibilityMatrix[optionId]?.notes ?? {}),
+    ...getIncompatibleOptions(optionId),
+    ...Object.keys(compatibilityMatrix).filter(id => compatibilityMatrix[id].notes?.[optionId]),
+  ];
+
+  const results: Array<{ target: string; compatible: boolean; note?: string }> = [];
+  for (const target of new Set(targets)) {
+    if (target === optionId || target === 'none') continue;
+    const compatible = areCompatible(optionId, target);
+    const note = getCompatibilityNote(optionId, target) ?? getCompatibilityNote(target, optionId);
+    if (!compatible || note) {
+      results.push({ target, compatible, note });
+    }
+  }
+
+  return results;
+};
+
 // Validate a full stack selection
 export const validateStackSelection = (
   selection: Record<string, string>
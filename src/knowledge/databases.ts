@@ -3,7 +3,7 @@
  * Comprehensive data for all supported database options
  */
 
-import { DatabaseOption } from './types';
+import { DatabaseOption } from './types.js';
 
 export const databases: DatabaseOption[] = [
   // Serverless PostgreSQL
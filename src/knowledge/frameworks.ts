@@ -3,7 +3,7 @@
  * Frontend and Backend framework options
  */
 
-import { FrontendOption, BackendOption } from './types';
+import { FrontendOption, BackendOption } from './types.js';
 
 export const frontends: FrontendOption[] = [
   {
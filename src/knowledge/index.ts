@@ -4,12 +4,12 @@
  */
 
 // Types
-export * from './types';
+export * from './types.js';
 
 // Data
-export { databases, getDatabaseById, getDatabasesByType, getDatabasesByHosting } from './databases';
-export { orms, getORMById, getORMsByRuntime, getORMsByDatabase } from './orms';
-export { authProviders, getAuthById, getAuthByType, getHostedAuthProviders, getSelfHostedAuthProviders } from './auth';
+export { databases, getDatabaseById, getDatabasesByType, getDatabasesByHosting } from './databases.js';
+export { orms, getORMById, getORMsByRuntime, getORMsByDatabase } from './orms.js';
+export { authProviders, getAuthById, getAuthByType, getHostedAuthProviders, getSelfHostedAuthProviders } from './auth.js';
 export {
   frontends,
   backends,
@@ -17,7 +17,7 @@ export {
   getBackendById,
   getBackendsByRuntime,
   getEdgeCompatibleBackends,
-} from './frameworks';
+} from './frameworks.js';
 export {
   aiFrameworks,
   vectorDatabases,
@@ -29,7 +29,7 @@ export {
   getLocalAIById,
   getAIFrameworksByRuntime,
   getManagedVectorDBs,
-} from './ai';
+} from './ai.js';
 export {
   compatibilityMatrix,
   getCompatibilityRules,
@@ -37,18 +37,19 @@ export {
   getCompatibleOptions,
   getIncompatibleOptions,
   getCompatibilityNote,
+  getCompatibilityNotes,
   validateStackSelection,
   getRecommendedPairings,
-} from './compatibility';
+} from './compatibility.js';
 
 // Re-export collections for easy access
-import { databases } from './databases';
-import { orms } from './orms';
-import { authProviders } from './auth';
-import { frontends, backends } from './frameworks';
-import { aiFrameworks, vectorDatabases, embeddingProviders, localAIProviders } from './ai';
-import { compatibilityMatrix } from './compatibility';
-import type { KnowledgeBase, AnyStackOption, Runtime } from './types';
+import { databases } from './databases.js';
+import { orms } from './orms.js';
+import { authProviders } from './auth.js';
+import { frontends, backends } from './frameworks.js';
+import { aiFrameworks, vectorDatabases, embeddingProviders, localAIProviders } from './ai.js';
+import { compatibilityMatrix } from './compatibility.js';
+import type { KnowledgeBase, AnyStackOption, Runtime } from './types.js';
 
 // Complete knowledge base
 export const knowledgeBase: KnowledgeBase = {
@@ -66,20 +67,22 @@ export const knowledgeBase: KnowledgeBase = {
   compatibility: compatibilityMatrix,
 };
 
+// Utility: Get every option across all categories
+export const getAllOptions = (): AnyStackOption[] => [
+  ...databases,
+  ...orms,
+  ...authProviders,
+  ...frontends,
+  ...backends,
+  ...aiFrameworks,
+  ...vectorDatabases,
+  ...embeddingProviders,
+  ...localAIProviders,
+];
+
 // Utility: Get any option by ID across all categories
 export const getOptionById = (id: string): AnyStackOption | undefined => {
-  const allOptions: AnyStackOption[] = [
-    ...databases,
-    ...orms,
-    ...authProviders,
-    ...frontends,
-    ...backends,
-    ...aiFrameworks,
-    ...vectorDatabases,
-    ...embeddingProviders,
-    ...localAIProviders,
-  ];
-  return allOptions.find(opt => opt.id === id);
+  return getAllOptions().find(opt => opt.id === id);
 };
 
 // Utility: Get all options in a category
@@ -3,7 +3,7 @@
  * Comprehensive data for all supported ORM options
  */
 
-import { ORMOption } from './types';
+import { ORMOption } from './types.js';
 
 export const orms: ORMOption[] = [
   // JavaScript/TypeScript ORMs
@@ -0,0 +1,72 @@
+/**
+ * Collision Prompts
+ * Show how a generated file differs from the one already on disk and ask what to do with it
+ */
+
+import chalk from 'chalk';
+import { select } from '@inquirer/prompts';
+import { formatDiff } from '../core/merge3.js';
+import { NEW_FILE_SUFFIX } from '../generator/collisions.js';
+import type { CollisionDecision, CollisionResolution, FileCollision } from '../generator/types.js';
+
+// Diff lines shown before the rest is summarised
+const MAX_DIFF_LINES = 60;
+
+/**
+ * The diff from the existing file to the generated one, coloured and cut to a screenful
+ */
+export function formatCollision(collision: FileCollision): string {
+  const { existing, generated } = collision;
+  if (Buffer.isBuffer(generated) || existing.includes(0)) {
+    return chalk.dim(`Binary files differ (${existing.length} bytes on disk, ${Buffer.byteLength(generated)} generated)`);
+  }
+
+  const lines = formatDiff(existing.toString('utf-8'), generated).map(line => {
+    if (line.startsWith('@@')) return chalk.cyan(line);
+    if (line.startsWith('-')) return chalk.red(line);
+    if (line.startsWith('+')) return chalk.green(line);
+    return chalk.dim(line);
+  });
+  if (lines.length > MAX_DIFF_LINES) {
+    const hidden = lines.length - MAX_DIFF_LINES;
+    return [...lines.slice(0, MAX_DIFF_LINES), chalk.dim(`... ${hidden} more line${hidden === 1 ? '' : 's'}`)].join('\n');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Print the diff for a colliding file and ask whether to keep it, overwrite it, write the
+ * generated file next to it or merge the two (when they can be merged)
+ */
+export async function promptCollision(collision: FileCollision): Promise<CollisionResolution> {
+  console.log('\n' + chalk.bold(`${collision.file} already exists`) + chalk.dim(' (- on disk, + generated)'));
+  console.log(formatCollision(collision));
+
+  return select<CollisionResolution>({
+    message: `What should happen to ${collision.file}?`,
+    choices: [
+      { name: 'Keep the existing file', value: 'keep' },
+      { name: 'Overwrite it with the generated file', value: 'overwrite' },
+      { name: `Write the generated file as ${collision.file}${NEW_FILE_SUFFIX}`, value: 'kickoff-new' },
+      ...(collision.merged !== undefined
+        ? [{ name: 'Merge the generated file into it', value: 'merge' as const }]
+        : []),
+    ],
+  });
+}
+
+/**
+ * One line saying what was done with a file that already existed
+ */
+export function describeCollision(decision: CollisionDecision): string {
+  switch (decision.resolution) {
+    case 'keep':
+      return `Kept ${decision.file}`;
+    case 'overwrite':
+      return `Overwrote ${decision.file}`;
+    case 'kickoff-new':
+      return `Kept ${decision.file}; the generated version is in ${decision.writtenTo}`;
+    case 'merge':
+      return `Merged the generated ${decision.file} into the existing one`;
+  }
+}
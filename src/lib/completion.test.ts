@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Command } from 'commander';
+import { buildCompletionSpec, generateCompletion } from './completion.js';
+import { PRESETS } from './presets.js';
+
+function createProgram(): Command {
+  const program = new Command().name('kickoff').option('--json', 'Print JSON');
+  program
+    .command('create')
+    .argument('[name]', 'Project name')
+    .option('-p, --preset <name>', 'Use a preset')
+    .option('-d, --directory <path>', 'Output directory')
+    .option('--dry-run', 'Preview only')
+    .description('Create a new project');
+  program.command('add').argument('<fragment>', 'Fragment').description('Add a fragment');
+  program.command('validate').option('--db <provider>', 'Database provider').description('Validate a stack');
+  return program;
+}
+
+describe('buildCompletionSpec', () => {
+  it('should read commands and options from the program', () => {
+    const spec = buildCompletionSpec(createProgram());
+
+    expect(spec.commands.map(command => command.name)).toEqual(['create', 'add', 'validate']);
+    const create = spec.commands[0];
+    expect(create.options.map(option => option.long)).toEqual(['--preset', '--directory', '--dry-run', '--help']);
+    expect(create.options[1].source).toEqual({ kind: 'directory' });
+    expect(create.options[2].takesValue).toBe(false);
+  });
+
+  it('should complete presets from PRESETS and values from the knowledge base', () => {
+    const spec = buildCompletionSpec(createProgram());
+    const preset = spec.commands[0].options[0].source;
+    const fragment = spec.commands[1].args;
+    const db = spec.commands[2].options[0].source;
+
+    expect(preset.kind === 'values' && preset.values).toEqual(expect.arrayContaining(Object.keys(PRESETS)));
+    expect(fragment?.kind === 'values' && fragment.values).toContain('docker');
+    expect(db.kind === 'values' && db.values).toEqual(expect.arrayContaining(['neon', 'supabase', 'd1']));
+  });
+});
+
+describe('generateCompletion', () => {
+  const spec = buildCompletionSpec(createProgram());
+
+  it('should generate a bash completion function', () => {
+    const script = generateCompletion('bash', spec);
+    expect(script).toContain('complete -o default -F _kickoff_completion kickoff');
+    expect(script).toMatch(/-p\|--preset\) COMPREPLY=\(\$\(compgen -W "none saas-starter/);
+  });
+
+  it('should generate zsh _arguments specs', () => {
+    const script = generateCompletion('zsh', spec);
+    expect(script).toContain('#compdef kickoff');
+    expect(script).toContain("'(-d --directory)'{-d,--directory}'[Output directory]:directory:_files -/'");
+  });
+
+  it('should generate fish complete commands per subcommand', () => {
+    const script = generateCompletion('fish', spec);
+    expect(script).toContain("complete -c kickoff -n __fish_use_subcommand -a create -d 'Create a new project'");
+    expect(script).toMatch(/__fish_seen_subcommand_from add' -a '.*docker/);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Shell Completion
+ * Builds bash, zsh and fish completion scripts from the commander program
+ */
+
+import type { Command, Option } from 'commander';
+import { getPresetNames } from './presets.js';
+import { getFieldChoices } from './spec.js';
+import { SEARCH_CATEGORIES } from './search.js';
+import { LLM_PROVIDERS } from '../core/llm-validator.js';
+import { PACKAGE_MANAGERS } from '../core/installer.js';
+import { allFragments } from '../generator/fragments/index.js';
+import { getAllOptions } from '../knowledge/index.js';
+import { FLAG_FIELDS } from '../commands/validate.js';
+import { REQUIREMENT_CHOICES } from '../commands/recommend.js';
+
+export type Shell = 'bash' | 'zsh' | 'fish';
+
+export const SHELLS: Record<Shell, true> = { bash: true, zsh: true, fish: true };
+
+// What to complete after an option or in an argument position
+export type ValueSource =
+  | { kind: 'values'; values: string[] }
+  | { kind: 'file' }
+  | { kind: 'directory' }
+  | { kind: 'any' };
+
+export interface CompletionOption {
+  short?: string;
+  long?: string;
+  description: string;
+  takesValue: boolean;
+  source: ValueSource;
+}
+
+export interface CompletionCommand {
+  name: string;
+  description: string;
+  options: CompletionOption[];
+  args?: ValueSource;
+}
+
+export interface CompletionSpec {
+  program: string;
+  globalOptions: CompletionOption[];
+  commands: CompletionCommand[];
+}
+
+const values = (list: string[]): ValueSource => ({ kind: 'values', values: [...new Set(list)] });
+
+// Every knowledge base option id (databases, ORMs, auth, frameworks, AI)
+function knowledgeIds(): string[] {
+  return getAllOptions()
+    .map(option => option.id)
+    .filter(id => id !== 'none');
+}
+
+// Completion values for an option, by command then by option name
+function optionSource(command: string, option: Option): ValueSource {
+  if (!option.required && !option.optional) return { kind: 'any' };
+  const name = option.attributeName();
+
+  if (command === 'validate' && name in FLAG_FIELDS) {
+    return values(getFieldChoices(FLAG_FIELDS[name]));
+  }
+  if (['recommend', 'compare', 'search'].includes(command) && name in REQUIREMENT_CHOICES) {
+    return values(Object.keys(REQUIREMENT_CHOICES[name as keyof typeof REQUIREMENT_CHOICES]));
+  }
+
+  switch (name) {
+    case 'preset':
+      return values(getPresetNames());
+    case 'provider':
+      return values(Object.keys(LLM_PROVIDERS));
+    case 'packageManager':
+      return values(Object.keys(PACKAGE_MANAGERS));
+    case 'category':
+      return values(Object.keys(SEARCH_CATEGORIES));
+    case 'exclude':
+    case 'prefer':
+    case 'with':
+      return values(knowledgeIds());
+    case 'directory':
+      return { kind: 'directory' };
+    case 'spec':
+    case 'show':
+      return { kind: 'file' };
+    default:
+      return { kind: 'any' };
+  }
+}
+
+// Completion values for a command's positional arguments
+function argumentSource(command: Command): ValueSource | undefined {
+  if (command.commands.length > 0) return values(command.commands.map(subcommand => subcommand.name()));
+  if (command.registeredArguments.length === 0) return undefined;
+
+  switch (command.name()) {
+    case 'add':
+      return values(allFragments.map(fragment => fragment.id));
+    case 'compare':
+      return values(knowledgeIds());
+    case 'completion':
+      return values(Object.keys(SHELLS));
+    case 'validate':
+    case 'doctor':
+      return { kind: 'file' };
+    default:
+      return { kind: 'any' };
+  }
+}
+
+function toCompletionOption(command: string, option: Option): CompletionOption {
+  return {
+    short: option.short,
+    long: option.long,
+    description: option.description,
+    takesValue: option.required || option.optional,
+    source: optionSource(command, option),
+  };
+}
+
+/**
+ * Describe the program's commands, options and value sources
+ */
+export function buildCompletionSpec(program: Command): CompletionSpec {
+  const help = { long: '--help', short: '-h', description: 'Display help', takesValue: false, source: { kind: 'any' } } as const;
+
+  return {
+    program: program.name(),
+    globalOptions: [
+      ...program.options.filter(option => !option.hidden).map(option => toCompletionOption('', option)),
+      help,
+    ],
+    commands: program.commands.map(command => ({
+      name: command.name(),
+      description: command.description(),
+      options: [
+        ...command.options.filter(option => !option.hidden).map(option => toCompletionOption(command.name(), option)),
+        help,
+      ],
+      args: argumentSource(command),
+    })),
+  };
+}
+
+export function generateCompletion(shell: Shell, spec: CompletionSpec): string {
+  switch (shell) {
+    case 'bash':
+      return generateBash(spec);
+    case 'zsh':
+      return generateZsh(spec);
+    case 'fish':
+      return generateFish(spec);
+  }
+}
+
+const flagsOf = (option: CompletionOption): string[] =>
+  [option.short, option.long].filter((flag): flag is string => Boolean(flag));
+
+function bashReply(source: ValueSource): string {
+  switch (source.kind) {
+    case 'values':
+      return `COMPREPLY=($(compgen -W "${source.values.join(' ')}" -- "$cur"))`;
+    case 'file':
+      return 'COMPREPLY=($(compgen -f -- "$cur"))';
+    case 'directory':
+      return 'COMPREPLY=($(compgen -d -- "$cur"))';
+    case 'any':
+      return 'COMPREPLY=()';
+  }
+}
+
+function generateBash(spec: CompletionSpec): string {
+  const fn = `_${spec.program}_completion`;
+  const topLevel = [...spec.commands.map(command => command.name), ...spec.globalOptions.flatMap(flagsOf)];
+
+  const commandCases = spec.commands.map(command => {
+    const valued = command.options.filter(option => option.takesValue);
+    const prevCases = valued
+      .map(option => `        ${flagsOf(option).join('|')}) ${bashReply(option.source)}; return ;;`)
+      .join('\n');
+    const flags = command.options.flatMap(flagsOf).join(' ');
+    const args = command.args ? bashReply(command.args) : 'COMPREPLY=()';
+
+    return [
+      `    ${command.name})`,
+      ...(prevCases ? ['      case "$prev" in', prevCases, '      esac'] : []),
+      `      if [[ "$cur" == -* ]]; then`,
+      `        COMPREPLY=($(compgen -W "${flags}" -- "$cur"))`,
+      '      else',
+      `        ${args}`,
+      '      fi',
+      '      ;;',
+    ].join('\n');
+  });
+
+  return `# ${spec.program} completion for bash
+# Add to ~/.bashrc: eval "$(${spec.program} completion bash)"
+${fn}() {
+  local cur prev cmd i
+  cur="\${COMP_WORDS[COMP_CWORD]}"
+  prev="\${COMP_WORDS[COMP_CWORD-1]}"
+  cmd=""
+  for ((i = 1; i < COMP_CWORD; i++)); do
+    if [[ "\${COMP_WORDS[i]}" != -* ]]; then
+      cmd="\${COMP_WORDS[i]}"
+      break
+    fi
+  done
+
+  case "$cmd" in
+    "")
+      COMPREPLY=($(compgen -W "${topLevel.join(' ')}" -- "$cur"))
+      ;;
+${commandCases.join('\n')}
+  esac
+}
+complete -o default -F ${fn} ${spec.program}
+`;
+}
+
+// Escape text for a zsh _arguments spec ('...' quoted, [] and : are special)
+function zshEscape(text: string): string {
+  return text.replace(/'/g, `'\\''`).replace(/([[\]:])/g, '\\$1');
+}
+
+function zshAction(source: ValueSource, label: string): string {
+  switch (source.kind) {
+    case 'values':
+      return `:${label}:(${source.values.join(' ')})`;
+    case 'file':
+      return `:${label}:_files`;
+    case 'directory':
+      return `:${label}:_files -/`;
+    case 'any':
+      return `:${label}: `;
+  }
+}
+
+function zshOption(option: CompletionOption): string {
+  const flags = flagsOf(option);
+  const description = `[${zshEscape(option.description)}]`;
+  const action = option.takesValue ? zshAction(option.source, option.long?.replace(/^--/, '') ?? 'value') : '';
+  if (flags.length === 1) {
+    return `'${flags[0]}${description}${action}'`;
+  }
+  return `'(${flags.join(' ')})'{${flags.join(',')}}'${description}${action}'`;
+}
+
+function generateZsh(spec: CompletionSpec): string {
+  const fn = `_${spec.program}`;
+  const commandList = spec.commands
+    .map(command => `    '${command.name}:${zshEscape(command.description)}'`)
+    .join('\n');
+
+  const commandCases = spec.commands.map(command => {
+    const specs = command.options.map(zshOption);
+    if (command.args) {
+      specs.push(`'*${zshAction(command.args, 'argument')}'`);
+    }
+    return `        ${command.name})\n          _arguments -s \\\n            ${specs.join(' \\\n            ')}\n          ;;`;
+  });
+
+  return `#compdef ${spec.program}
+# ${spec.program} completion for zsh
+# Add to ~/.zshrc: eval "$(${spec.program} completion zsh)"
+${fn}() {
+  local context state line
+  local -a commands
+  commands=(
+${commandList}
+  )
+
+  _arguments -C \\
+    ${spec.globalOptions.map(zshOption).join(' \\\n    ')} \\
+    '1: :->command' \\
+    '*:: :->args'
+
+  case $state in
+    command)
+      _describe 'command' commands
+      ;;
+    args)
+      case $words[1] in
+${commandCases.join('\n')}
+      esac
+      ;;
+  esac
+}
+
+if [ "$funcstack[1]" = "${fn}" ]; then
+  ${fn} "$@"
+else
+  compdef ${fn} ${spec.program}
+fi
+`;
+}
+
+// Escape text for a single-quoted fish string
+function fishQuote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function fishValues(source: ValueSource): string {
+  switch (source.kind) {
+    case 'values':
+      return ` -x -a ${fishQuote(source.values.join(' '))}`;
+    case 'file':
+      return ' -r -F';
+    case 'directory':
+      return " -x -a '(__fish_complete_directories)'";
+    case 'any':
+      return ' -x';
+  }
+}
+
+function fishOption(prefix: string, option: CompletionOption): string {
+  const short = option.short ? ` -s ${option.short.replace(/^-/, '')}` : '';
+  const long = option.long ? ` -l ${option.long.replace(/^--/, '')}` : '';
+  const value = option.takesValue ? fishValues(option.source) : '';
+  return `${prefix}${short}${long}${value} -d ${fishQuote(option.description)}`;
+}
+
+function generateFish(spec: CompletionSpec): string {
+  const c = `complete -c ${spec.program}`;
+  const lines = [
+    `# ${spec.program} completion for fish`,
+    `# Add to ~/.config/fish/config.fish: ${spec.program} completion fish | source`,
+    `${c} -f`,
+    ...spec.globalOptions.map(option => fishOption(c, option)),
+  ];
+
+  for (const command of spec.commands) {
+    lines.push(`${c} -n __fish_use_subcommand -a ${command.name} -d ${fishQuote(command.description)}`);
+  }
+
+  for (const command of spec.commands) {
+    const prefix = `${c} -n '__fish_seen_subcommand_from ${command.name}'`;
+    lines.push(...command.options.map(option => fishOption(prefix, option)));
+    if (command.args?.kind === 'values') {
+      lines.push(`${prefix} -a ${fishQuote(command.args.values.join(' '))}`);
+    } else if (command.args?.kind === 'file') {
+      lines.push(`${prefix} -F`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -17,15 +17,16 @@ import {
   renderSuccess,
   renderOptionDetails,
   renderComparisonTable,
-} from '../questionnaire';
-import type { QuestionnaireAnswers } from '../questionnaire/types';
-import type { Question } from '../questionnaire/types';
-import { recommendStack, createScoringContext } from '../recommender';
-import type { UserRequirements } from '../recommender/types';
-import { generateProject, validateContext } from '../generator';
-import { mapAnswersToContext, contextToDisplayConfig, getSelectionReasoning } from './mapper';
-import { getOptionById, databases, orms, authProviders, frontends, backends } from '../knowledge';
-import type { StackOption } from '../knowledge/types';
+} from '../questionnaire/index.js';
+import type { QuestionnaireAnswers } from '../questionnaire/types.js';
+import type { Question } from '../questionnaire/types.js';
+import { recommendStack, createScoringContext } from '../recommender/index.js';
+import type { UserRequirements } from '../recommender/types.js';
+import { generateProject, validateContext } from '../generator/index.js';
+import { mapAnswersToContext, contextToDisplayConfig, getSelectionReasoning } from './mapper.js';
+import { describeCollision, promptCollision } from './collisions.js';
+import { getOptionById, databases, orms, authProviders, frontends, backends } from '../knowledge/index.js';
+import type { StackOption } from '../knowledge/types.js';
 import chalk from 'chalk';
 
 // Run the full interactive questionnaire flow
@@ -200,10 +201,13 @@ export async function interactiveCreate(
   console.log();
   console.log(chalk.bold('🔨 Generating project...'));
 
-  const result = await generateProject(context, outputDir);
+  const result = await generateProject(context, outputDir, { resolveCollision: promptCollision });
 
   if (result.success) {
     renderSuccess(`Created ${result.filesCreated.length} files`);
+    for (const decision of result.collisions) {
+      console.log(chalk.dim(`  ${describeCollision(decision)}`));
+    }
 
     // Show warnings if any
     for (const warning of result.warnings) {
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { mapRecommendationToConfig, selectFragmentsFromConfig } from './mapper.js';
+import { createProjectConfig } from './prompter.js';
+import { validateProjectSpec } from './spec.js';
+import { previewProject } from '../core/preview.js';
+import { getPresetNames } from './presets.js';
+import { getFragmentById } from '../generator/index.js';
+import { getOptionById } from '../knowledge/index.js';
+import { recommendStack } from '../recommender/index.js';
+import type { CategoryRecommendation, StackRecommendation, UserRequirements } from '../recommender/types.js';
+
+describe('selectFragmentsFromConfig', () => {
+  it('should compose database, ORM, auth and AI choices as fragments', () => {
+    const config = createProjectConfig('rag-app', { preset: 'ai-rag-app' });
+    const { selections, unsupported } = selectFragmentsFromConfig(config);
+
+    expect(selections.map(s => s.fragmentId)).toEqual([
+      'base', 'nextjs', 'supabase', 'drizzle', 'supabase-auth', 'vercel-ai', 'openai', 'postgres', 'docker', 'github-actions',
+    ]);
+    expect(unsupported).toEqual([]);
+  });
+
+  it('should map several config values onto one fragment', () => {
+    const config = createProjectConfig('api', { type: 'hono-api', databaseProvider: 'cockroachdb', orm: 'prisma' });
+    const ids = selectFragmentsFromConfig(config).selections.map(s => s.fragmentId);
+
+    expect(ids).toContain('postgres');
+    expect(ids).toContain('prisma');
+  });
+
+  it('should report choices without a fragment instead of dropping them', () => {
+    const config = createProjectConfig('api', { preset: 'fastapi-starter' });
+    const { selections, unsupported } = selectFragmentsFromConfig(config);
+
+    expect(selections.map(s => s.fragmentId)).not.toContain('postgres');
+    expect(unsupported).toContain("ORM 'sqlalchemy' has no fragment yet; set it up manually");
+    expect(unsupported.some(message => message.startsWith("project type 'fastapi'"))).toBe(true);
+  });
+
+  it('should only select registered fragments for every preset', () => {
+    for (const preset of getPresetNames().filter(name => name !== 'none')) {
+      const { selections } = selectFragmentsFromConfig(createProjectConfig('app', { preset }));
+      for (const selection of selections) {
+        expect(getFragmentById(selection.fragmentId), `${preset}: ${selection.fragmentId}`).toBeDefined();
+      }
+    }
+  });
+});
+
+describe('previewProject', () => {
+  it('should merge fragment dependencies and env vars into the rendered templates', async () => {
+    const preview = await previewProject(createProjectConfig('edge', { preset: 'edge-api' }));
+
+    expect(preview.fragments).toEqual(['base', 'hono', 'turso', 'drizzle', 'docker', 'github-actions']);
+    expect(preview.warnings).toEqual([]);
+    expect(preview.dependencies).toMatchObject({ '@libsql/client': '^0.14.0', 'drizzle-orm': '^0.38.3' });
+    expect(preview.devDependencies).toHaveProperty('drizzle-kit');
+    expect(preview.files.map(f => f.path)).toEqual(expect.arrayContaining(['drizzle.config.ts', 'src/db/index.ts']));
+    expect(preview.env.map(e => e.name)).toEqual(expect.arrayContaining(['TURSO_DATABASE_URL', 'TURSO_AUTH_TOKEN']));
+
+    const pkg = JSON.parse(preview.rendered.get('package.json')!.toString());
+    expect(pkg.scripts['db:migrate']).toBe('drizzle-kit migrate');
+  });
+});
+
+describe('mapRecommendationToConfig', () => {
+  const requirements = (overrides: Partial<UserRequirements> = {}): UserRequirements => ({
+    projectType: 'web-app',
+    runtime: 'node',
+    budget: 'low',
+    experience: 'intermediate',
+    scale: 'small',
+    timeline: 'normal',
+    priorities: [],
+    mustHaveFeatures: [],
+    niceToHaveFeatures: [],
+    excludeOptions: [],
+    preferredOptions: [],
+    existingStack: [],
+    ...overrides,
+  });
+
+  // A recommendation that picks the given option ids
+  const recommend = (picks: Partial<Record<keyof StackRecommendation, string>>): StackRecommendation => {
+    const rec = {} as StackRecommendation;
+    for (const [category, id] of Object.entries(picks)) {
+      const option = getOptionById(id)!;
+      const recommended = { option, score: 80, reasoning: [], warnings: [], alternatives: [], rank: 1 };
+      (rec as unknown as Record<string, CategoryRecommendation>)[category] =
+        { category, recommended, alternatives: [], explanation: '', tradeoffSummary: '' };
+    }
+    return rec;
+  };
+
+  it('should map a web app stack onto config fields', () => {
+    const rec = recommend({ frontend: 'vite-react', database: 'neon', orm: 'drizzle', auth: 'clerk' });
+
+    expect(mapRecommendationToConfig(rec, requirements())).toEqual({
+      config: { runtime: 'node', type: 'vite-react', databaseProvider: 'neon', orm: 'drizzle', authProvider: 'clerk' },
+      skipped: [],
+    });
+    // Without a frontend kickoff has a project type for, web and AI apps fall back to Next.js
+    expect(mapRecommendationToConfig(recommend({ frontend: 'fresh' }), requirements()).config.type).toBe('nextjs');
+    expect(mapRecommendationToConfig(recommend({}), requirements({ projectType: 'ai-app' })).config.type).toBe('nextjs');
+  });
+
+  it('should derive API project types from the backend', () => {
+    const hono = mapRecommendationToConfig(recommend({ backend: 'hono' }), requirements({ projectType: 'api', runtime: 'bun' }));
+    expect(hono.config).toEqual({ runtime: 'bun', type: 'hono-api', serverFramework: 'hono' });
+
+    const fastapi = mapRecommendationToConfig(recommend({ backend: 'fastapi' }), requirements({ projectType: 'api', runtime: 'python' }));
+    expect(fastapi.config).toMatchObject({ type: 'fastapi', serverFramework: 'fastapi' });
+
+    expect(mapRecommendationToConfig(recommend({}), requirements({ projectType: 'static-site' })).config.type).toBe('static');
+    expect(mapRecommendationToConfig(recommend({}), requirements({ projectType: 'mcp-server' })).config.type).toBe('mcp-server');
+  });
+
+  it('should rename AI picks and report the ones kickoff cannot scaffold', () => {
+    const mapped = mapRecommendationToConfig(recommend({ ai: 'langchain', vectorDb: 'chromadb' }), requirements({ projectType: 'ai-app' }));
+    expect(mapped.config).toMatchObject({ aiFramework: 'langchain', vectorDB: 'chroma' });
+    expect(mapped.skipped).toEqual([]);
+
+    const unsupported = mapRecommendationToConfig(recommend({ ai: 'openai-sdk' }), requirements({ projectType: 'ai-app' }));
+    expect(unsupported.config.aiFramework).toBeUndefined();
+    expect(unsupported.skipped).toEqual([`AI framework ${getOptionById('openai-sdk')!.name}`]);
+  });
+
+  it('should pick the complexity track from scale and timeline', () => {
+    const track = (overrides: Partial<UserRequirements>) =>
+      mapRecommendationToConfig(recommend({}), requirements(overrides)).config.complexityTrack;
+
+    expect(track({ scale: 'prototype' })).toBe('quick');
+    expect(track({ timeline: 'urgent', scale: 'large' })).toBe('quick');
+    expect(track({ scale: 'enterprise' })).toBe('production');
+    expect(track({ scale: 'medium' })).toBeUndefined();
+  });
+
+  it('should produce a valid spec for every project type', () => {
+    const types: UserRequirements['projectType'][] = [
+      'web-app', 'api', 'cli', 'library', 'ai-app', 'static-site', 'mcp-server', 'worker',
+    ];
+    for (const projectType of types) {
+      const reqs = requirements({ projectType, mustHaveFeatures: projectType === 'ai-app' ? ['ai'] : [] });
+      const { config } = mapRecommendationToConfig(recommendStack(reqs), reqs);
+      const spec = validateProjectSpec({ ...config, name: 'app' });
+      expect(spec.errors, projectType).toEqual([]);
+    }
+  });
+});
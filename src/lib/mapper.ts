@@ -1,12 +1,24 @@
 /**
  * Answer Mapper
- * Converts questionnaire answers to generator context
+ * Converts questionnaire answers and project configs to generator context
  */
 
-import type { GeneratorContext } from '../generator/types';
-import type { QuestionnaireAnswers } from '../questionnaire/types';
-import type { ProjectType, Runtime, StackOption } from '../knowledge/types';
-import { getOptionById } from '../knowledge';
+import type { FragmentCategory, FragmentSelection, GeneratorContext } from '../generator/types.js';
+import type { QuestionnaireAnswers } from '../questionnaire/types.js';
+import type { ProjectType, Runtime, StackOption } from '../knowledge/types.js';
+import type { StackRecommendation, UserRequirements } from '../recommender/types.js';
+import type {
+  AIFramework,
+  AuthProvider,
+  DatabaseProvider,
+  OrmChoice,
+  ProjectConfig,
+  ProjectType as ConfigProjectType,
+  ServerFramework,
+  VectorDBProvider,
+} from './types.js';
+import { getOptionById } from '../knowledge/index.js';
+import { getFragmentById } from '../generator/fragments/index.js';
 
 // Map questionnaire answers to generator context
 export function mapAnswersToContext(
@@ -102,3 +114,307 @@ export function getSelectionReasoning(context: GeneratorContext): Record<string,
 
   return reasoning;
 }
+
+// ProjectConfig types rendered by a generator frontend/backend fragment
+const projectTypeFragments: Partial<Record<ConfigProjectType, string>> = {
+  'nextjs': 'nextjs',
+  'vite-react': 'vite-react',
+  'static': 'static',
+  'hono-api': 'hono',
+  'cli': 'cli',
+  'mcp-server': 'mcp-server',
+  'worker': 'worker',
+  'library': 'library',
+};
+
+const frontendTypes: ConfigProjectType[] = ['nextjs', 'tanstack-start', 'vite-react', 'static'];
+
+const configProjectTypes: Record<ConfigProjectType, ProjectType> = {
+  'nextjs': 'web-app',
+  'tanstack-start': 'web-app',
+  'vite-react': 'web-app',
+  'static': 'static-site',
+  'hono-api': 'api',
+  'elysia-api': 'api',
+  'express-api': 'api',
+  'fresh-api': 'api',
+  'fastapi': 'api',
+  'litestar': 'api',
+  'gin-api': 'api',
+  'fiber-api': 'api',
+  'echo-api': 'api',
+  'axum-api': 'api',
+  'actix-api': 'api',
+  'cli': 'cli',
+  'mcp-server': 'mcp-server',
+  'worker': 'worker',
+  'library': 'library',
+};
+
+// Map a ProjectConfig (classic wizard/presets) to generator context
+export function mapConfigToContext(config: ProjectConfig): GeneratorContext {
+  const selections: Record<string, string> = {};
+  const options: Record<string, StackOption | undefined> = {};
+
+  const fragmentId = projectTypeFragments[config.type];
+  if (fragmentId) {
+    const category = frontendTypes.includes(config.type) ? 'frontend' : 'backend';
+    selections[category] = fragmentId;
+  }
+
+  const configSelections: Record<string, string> = {
+    database: config.databaseProvider,
+    orm: config.orm,
+    auth: config.authProvider,
+    ai: config.aiFramework,
+    vectorDb: config.vectorDB,
+    embedding: config.embeddingProvider,
+    localAi: config.localAI,
+  };
+
+  for (const [field, value] of Object.entries(configSelections)) {
+    if (!value || value === 'none') continue;
+    selections[field] = value;
+
+    const option = getOptionById(value);
+    if (option) {
+      options[field] = option;
+    }
+  }
+
+  const isTool = ['cli', 'mcp-server', 'library'].includes(config.type);
+
+  return {
+    projectName: config.name,
+    projectType: configProjectTypes[config.type],
+    runtime: config.runtime,
+    selections,
+    options,
+    features: {
+      docker: !isTool,
+      githubActions: !isTool,
+      tests: config.complexityTrack !== 'quick',
+      linting: true,
+    },
+    metadata: {
+      description: config.description,
+      repository: config.githubUsername
+        ? `https://github.com/${config.githubUsername}/${config.name}`
+        : undefined,
+    },
+    config,
+  };
+}
+
+// ProjectConfig stack fields composed as fragments: config value -> fragment id
+type IntegrationField =
+  | 'databaseProvider'
+  | 'orm'
+  | 'authProvider'
+  | 'aiFramework'
+  | 'vectorDB'
+  | 'embeddingProvider'
+  | 'localAI';
+
+const integrationFragments: Record<IntegrationField, {
+  category: FragmentCategory;
+  label: string;
+  fragments: Record<string, string>;
+}> = {
+  databaseProvider: {
+    category: 'database',
+    label: 'database',
+    fragments: {
+      'supabase': 'supabase',
+      'neon': 'neon',
+      'turso': 'turso',
+      'sqlite': 'sqlite',
+      'postgres-local': 'postgres',
+      'cockroachdb': 'postgres',
+      'mysql-local': 'mysql',
+      'planetscale': 'mysql',
+      'mongodb-local': 'mongodb',
+      'redis': 'redis',
+      'valkey': 'redis',
+      'dragonfly': 'redis',
+      'upstash': 'upstash',
+    },
+  },
+  orm: {
+    category: 'orm',
+    label: 'ORM',
+    fragments: { 'prisma': 'prisma', 'drizzle': 'drizzle', 'kysely': 'kysely' },
+  },
+  authProvider: {
+    category: 'auth',
+    label: 'auth provider',
+    fragments: {
+      'clerk': 'clerk',
+      'auth0': 'auth0',
+      'better-auth': 'better-auth',
+      'authjs': 'authjs',
+      'supabase-auth': 'supabase-auth',
+    },
+  },
+  aiFramework: {
+    category: 'ai',
+    label: 'AI framework',
+    fragments: { 'vercel-ai': 'vercel-ai', 'langchain': 'langchain', 'llamaindex': 'llamaindex', 'mastra': 'mastra' },
+  },
+  vectorDB: {
+    category: 'ai',
+    label: 'vector database',
+    fragments: { 'pinecone': 'pinecone', 'qdrant': 'qdrant', 'chroma': 'chroma', 'pgvector': 'pgvector', 'supabase-vector': 'supabase' },
+  },
+  embeddingProvider: {
+    category: 'ai',
+    label: 'embedding provider',
+    fragments: { 'openai': 'openai', 'cohere': 'cohere', 'ollama': 'ollama' },
+  },
+  localAI: {
+    category: 'ai',
+    label: 'local AI provider',
+    fragments: { 'ollama': 'ollama' },
+  },
+};
+
+// The driver fragment whose package the drizzle or kysely src/db/index.ts imports, following the
+// template's branches: Drizzle has its own clients for Neon and Turso, everything else goes through
+// better-sqlite3, mysql2 or pg
+function ormDriverFragment(config: ProjectConfig): string | undefined {
+  if (config.orm !== 'drizzle' && config.orm !== 'kysely') return undefined;
+  const provider = config.databaseProvider;
+  if (config.orm === 'drizzle' && (provider === 'neon' || provider === 'turso')) return provider;
+  if (['sqlite', 'turso', 'd1'].includes(provider)) return 'sqlite';
+  if (['mysql-local', 'planetscale'].includes(provider)) return 'mysql';
+  return 'postgres';
+}
+
+// Runtimes whose projects take npm packages, which is what the integration fragments add
+const npmRuntimes: ProjectConfig['runtime'][] = ['node', 'bun', 'deno'];
+
+/**
+ * Select the generator fragments for a ProjectConfig. Stack choices with no fragment
+ * for this project are returned in `unsupported` instead of being dropped silently
+ */
+export function selectFragmentsFromConfig(config: ProjectConfig): {
+  selections: FragmentSelection[];
+  unsupported: string[];
+} {
+  const context = mapConfigToContext(config);
+  const selections: FragmentSelection[] = [
+    { fragmentId: 'base', category: 'base', reason: 'Core project files' },
+  ];
+  const unsupported: string[] = [];
+
+  const add = (fragmentId: string, category: FragmentCategory, reason: string) => {
+    if (!selections.some(selection => selection.fragmentId === fragmentId)) {
+      selections.push({ fragmentId, category, reason });
+    }
+  };
+
+  const typeFragment = projectTypeFragments[config.type];
+  if (typeFragment) {
+    add(typeFragment, frontendTypes.includes(config.type) ? 'frontend' : 'backend', `Project type ${config.type}`);
+  } else {
+    unsupported.push(`project type '${config.type}' has no template yet; only the shared project files are generated`);
+  }
+
+  for (const [field, mapping] of Object.entries(integrationFragments) as Array<[IntegrationField, typeof integrationFragments[IntegrationField]]>) {
+    const value = config[field];
+    if (!value || value === 'none') continue;
+
+    const fragmentId = mapping.fragments[value];
+    if (!fragmentId || !getFragmentById(fragmentId)) {
+      unsupported.push(`${mapping.label} '${value}' has no fragment yet; set it up manually`);
+    } else if (!npmRuntimes.includes(config.runtime)) {
+      unsupported.push(`${mapping.label} '${value}' is only available as a fragment for node, bun and deno projects`);
+    } else {
+      add(fragmentId, mapping.category, `${mapping.label.charAt(0).toUpperCase()}${mapping.label.slice(1)} ${value}`);
+    }
+  }
+
+  const driver = ormDriverFragment(config);
+  if (driver && selections.some(selection => selection.fragmentId === config.orm)) {
+    add(driver, 'database', `Database driver for ${config.orm}`);
+  }
+
+  if (context.features.docker) {
+    add('docker', 'deployment', 'Docker containerization');
+  }
+  if (context.features.githubActions) {
+    add('github-actions', 'deployment', 'CI/CD pipeline');
+  }
+
+  return { selections, unsupported };
+}
+
+// Recommender AI ids that differ from (or are missing in) the ProjectConfig unions
+const recommendedAIFrameworks: Record<string, AIFramework | undefined> = {
+  'vercel-ai': 'vercel-ai',
+  'langchain': 'langchain',
+  'llamaindex': 'llamaindex',
+  'mastra': 'mastra',
+};
+
+const recommendedVectorDBs: Record<string, VectorDBProvider | undefined> = {
+  'pinecone': 'pinecone',
+  'chromadb': 'chroma',
+  'qdrant': 'qdrant',
+  'weaviate': 'weaviate',
+  'turbopuffer': 'turbopuffer',
+  'pgvector': 'pgvector',
+};
+
+// Map a stack recommendation to ProjectConfig fields; picks kickoff cannot scaffold are reported in `skipped`
+export function mapRecommendationToConfig(
+  rec: StackRecommendation,
+  requirements: UserRequirements
+): { config: Partial<ProjectConfig>; skipped: string[] } {
+  const config: Partial<ProjectConfig> = { runtime: requirements.runtime as ProjectConfig['runtime'] };
+  const skipped: string[] = [];
+
+  const frontend = rec.frontend?.recommended.option.id;
+  const backend = rec.backend?.recommended.option.id;
+
+  switch (requirements.projectType) {
+    case 'api':
+      if (backend) {
+        config.type = (['fastapi', 'litestar'].includes(backend) ? backend : `${backend}-api`) as ConfigProjectType;
+        config.serverFramework = backend as ServerFramework;
+      }
+      break;
+    case 'static-site':
+      config.type = 'static';
+      break;
+    case 'web-app':
+    case 'ai-app':
+      config.type = (frontend && frontendTypes.includes(frontend as ConfigProjectType) ? frontend : 'nextjs') as ConfigProjectType;
+      break;
+    default:
+      config.type = requirements.projectType;
+  }
+
+  if (rec.database) config.databaseProvider = rec.database.recommended.option.id as DatabaseProvider;
+  if (rec.orm) config.orm = rec.orm.recommended.option.id as OrmChoice;
+  if (rec.auth) config.authProvider = rec.auth.recommended.option.id as AuthProvider;
+
+  if (rec.ai) {
+    const ai = recommendedAIFrameworks[rec.ai.recommended.option.id];
+    if (ai) config.aiFramework = ai;
+    else skipped.push(`AI framework ${rec.ai.recommended.option.name}`);
+  }
+  if (rec.vectorDb) {
+    const vectorDB = recommendedVectorDBs[rec.vectorDb.recommended.option.id];
+    if (vectorDB) config.vectorDB = vectorDB;
+    else skipped.push(`vector database ${rec.vectorDb.recommended.option.name}`);
+  }
+
+  if (requirements.scale === 'prototype' || requirements.timeline === 'urgent') {
+    config.complexityTrack = 'quick';
+  } else if (requirements.scale === 'large' || requirements.scale === 'enterprise') {
+    config.complexityTrack = 'production';
+  }
+
+  return { config, skipped };
+}
@@ -1,4 +1,4 @@
-import inquirer from 'inquirer';
+import inquirer, { type DistinctQuestion } from 'inquirer';
 import type {
   ProjectConfig,
   ProjectType,
@@ -16,7 +16,7 @@ import type {
   WebServer,
 } from './types.js';
 
-function validateProjectName(input: string): boolean | string {
+export function validateProjectName(input: string): boolean | string {
   if (!input) return 'Project name is required';
   if (!/^[a-z0-9-]+$/.test(input)) {
     return 'Project name must be lowercase with hyphens only (e.g., my-project)';
@@ -295,7 +295,35 @@ export async function promptProjectConfig(options: PromptOptions = {}): Promise<
     throw new Error(`Unknown preset: ${cliPreset}. Run 'kickoff list' to see available presets.`);
   }
 
-  const answers = await inquirer.prompt([
+  // --yes: skip every prompt and take preset values and defaults
+  if (options.useDefaults && options.name) {
+    const nameCheck = validateProjectName(options.name);
+    if (typeof nameCheck === 'string') {
+      throw new Error(nameCheck);
+    }
+    return createProjectConfig(options.name, { preset: cliPreset || 'none' });
+  }
+
+  const answers = await inquirer.prompt(projectQuestions(options));
+
+  // CLI preset takes precedence over the preset question, and the preset's values over the answers
+  const preset: Preset = cliPreset || answers.preset || 'none';
+  const fixed = Object.entries(presetValues(preset)).filter(([, value]) => value !== undefined);
+  return createProjectConfig(options.name || answers.name, {
+    ...answers,
+    ...Object.fromEntries(fixed),
+    preset,
+  });
+}
+
+/**
+ * The wizard's questions, in order. Each question's `when`, `choices` and `default` only read
+ * answers to earlier questions
+ */
+export function projectQuestions(options: PromptOptions = {}): DistinctQuestion[] {
+  const cliPreset = options.preset as Preset | undefined;
+
+  return [
     {
       type: 'list',
       name: 'preset',
@@ -415,8 +443,8 @@ export async function promptProjectConfig(options: PromptOptions = {}): Promise<
       name: 'port',
       message: 'Development port:',
       default: generateRandomPort(),
-      validate: (input: number) => {
-        if (input < 1024 || input > 65535) return 'Port must be between 1024 and 65535';
+      validate: (input: number | undefined) => {
+        if (input === undefined || input < 1024 || input > 65535) return 'Port must be between 1024 and 65535';
         return true;
       },
       when: (ans) => {
@@ -862,9 +890,9 @@ export async function promptProjectConfig(options: PromptOptions = {}): Promise<
       type: 'input',
       name: 'goModulePath',
       message: 'Go module path (e.g., github.com/user/project):',
-      default: (ans: { githubUsername?: string; name: string }) => {
+      default: (ans: { githubUsername?: string; name?: string }) => {
         const username = ans.githubUsername || 'username';
-        return `github.com/${username}/${ans.name}`;
+        return `github.com/${username}/${ans.name ?? options.name}`;
       },
       when: (ans) => {
         if (cliPreset || ans.preset !== 'none') return false;
@@ -904,63 +932,74 @@ export async function promptProjectConfig(options: PromptOptions = {}): Promise<
         return isFrontend(ans.type) && ans.complexityTrack !== 'quick';
       },
     },
-  ]);
-
-  // Apply preset defaults (CLI preset takes precedence)
-  const effectivePreset = cliPreset || answers.preset || 'none';
-  let presetDefaults: Partial<ProjectConfig> = {};
-  if (effectivePreset !== 'none') {
-    const preset = PRESETS[effectivePreset as Exclude<Preset, 'none'>];
-    presetDefaults = {
-      type: preset.type,
-      complexityTrack: preset.complexityTrack,
-      runtime: preset.runtime,
-      databaseProvider: preset.databaseProvider ?? 'none',
-      orm: preset.orm ?? 'none',
-      authProvider: preset.authProvider ?? 'none',
-      useDesignSystem: preset.useDesignSystem ?? false,
-      serverFramework: preset.serverFramework,
-      vectorDB: preset.vectorDB ?? 'none',
-      embeddingProvider: preset.embeddingProvider ?? 'none',
-      localAI: preset.localAI ?? 'none',
-      aiFramework: preset.aiFramework ?? 'none',
-      webServer: preset.webServer ?? 'none',
-      pythonPackageManager: preset.pythonPackageManager,
-    };
+  ];
+}
+
+// The fields a preset sets; fields it leaves open are undefined
+function presetValues(name: Preset): Partial<ProjectConfig> {
+  if (name === 'none') {
+    return {};
   }
+  const preset = PRESETS[name as Exclude<Preset, 'none'>];
+  if (!preset) {
+    throw new Error(`Unknown preset: ${name}. Run 'kickoff list' to see available presets.`);
+  }
+  return {
+    type: preset.type,
+    complexityTrack: preset.complexityTrack,
+    runtime: preset.runtime,
+    databaseProvider: preset.databaseProvider ?? 'none',
+    orm: preset.orm ?? 'none',
+    authProvider: preset.authProvider ?? 'none',
+    useDesignSystem: preset.useDesignSystem ?? false,
+    serverFramework: preset.serverFramework,
+    vectorDB: preset.vectorDB ?? 'none',
+    embeddingProvider: preset.embeddingProvider ?? 'none',
+    localAI: preset.localAI ?? 'none',
+    aiFramework: preset.aiFramework ?? 'none',
+    webServer: preset.webServer ?? 'none',
+    pythonPackageManager: preset.pythonPackageManager,
+  };
+}
+
+/**
+ * Resolve a complete ProjectConfig from partial answers.
+ * Explicit answers win over preset values, which win over defaults.
+ */
+export function createProjectConfig(name: string, answers: Partial<ProjectConfig> = {}): ProjectConfig {
+  const effectivePreset = answers.preset ?? 'none';
+  const presetDefaults = presetValues(effectivePreset);
 
-  const finalType = presetDefaults.type ?? answers.type;
-  const finalRuntime = presetDefaults.runtime ?? answers.runtime ?? deriveRuntime(finalType);
+  const finalType = answers.type ?? presetDefaults.type ?? 'nextjs';
+  const finalRuntime = answers.runtime ?? presetDefaults.runtime ?? deriveRuntime(finalType);
 
-  const config: ProjectConfig = {
+  return {
     preset: effectivePreset,
-    complexityTrack: presetDefaults.complexityTrack ?? answers.complexityTrack ?? 'standard',
-    name: options.name || answers.name,
+    complexityTrack: answers.complexityTrack ?? presetDefaults.complexityTrack ?? 'standard',
+    name,
     description: answers.description || 'A new project scaffolded with kickoff',
     type: finalType,
     port: answers.port ?? generateRandomPort(),
     runtime: finalRuntime,
-    databaseProvider: presetDefaults.databaseProvider ?? answers.databaseProvider ?? 'none',
-    orm: presetDefaults.orm ?? answers.orm ?? 'none',
-    authProvider: presetDefaults.authProvider ?? answers.authProvider ?? 'none',
-    vectorDB: presetDefaults.vectorDB ?? answers.vectorDB ?? 'none',
-    embeddingProvider: presetDefaults.embeddingProvider ?? answers.embeddingProvider ?? 'none',
-    localAI: presetDefaults.localAI ?? answers.localAI ?? 'none',
-    aiFramework: presetDefaults.aiFramework ?? answers.aiFramework ?? 'none',
+    databaseProvider: answers.databaseProvider ?? presetDefaults.databaseProvider ?? 'none',
+    orm: answers.orm ?? presetDefaults.orm ?? 'none',
+    authProvider: answers.authProvider ?? presetDefaults.authProvider ?? 'none',
+    vectorDB: answers.vectorDB ?? presetDefaults.vectorDB ?? 'none',
+    embeddingProvider: answers.embeddingProvider ?? presetDefaults.embeddingProvider ?? 'none',
+    localAI: answers.localAI ?? presetDefaults.localAI ?? 'none',
+    aiFramework: answers.aiFramework ?? presetDefaults.aiFramework ?? 'none',
     domain: answers.domain ?? '',
     githubUsername: answers.githubUsername || 'abe238',
-    webServer: presetDefaults.webServer ?? answers.webServer ?? 'none',
-    useDesignSystem: presetDefaults.useDesignSystem ?? answers.useDesignSystem ?? false,
-    serverFramework: presetDefaults.serverFramework ?? deriveServerFramework(finalType),
+    webServer: answers.webServer ?? presetDefaults.webServer ?? 'none',
+    useDesignSystem: answers.useDesignSystem ?? presetDefaults.useDesignSystem ?? false,
+    serverFramework: answers.serverFramework ?? presetDefaults.serverFramework ?? deriveServerFramework(finalType),
     cliInteractive: answers.cliInteractive ?? true,
     cliConfigFile: answers.cliConfigFile ?? false,
     cliShellCompletion: answers.cliShellCompletion ?? false,
     mcpTransport: answers.mcpTransport ?? 'stdio',
     libraryTestFramework: answers.libraryTestFramework ?? 'vitest',
-    pythonPackageManager: presetDefaults.pythonPackageManager ?? answers.pythonPackageManager,
+    pythonPackageManager: answers.pythonPackageManager ?? presetDefaults.pythonPackageManager,
     goModulePath: answers.goModulePath,
     rustEdition: answers.rustEdition,
   };
-
-  return config;
 }
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DistinctQuestion } from 'inquirer';
+import { editField, type AskQuestion } from './review.js';
+import { createProjectConfig } from './prompter.js';
+
+// Answers each question from `replies`, failing on questions the test did not expect
+function scriptedAsk(replies: Record<string, unknown>): AskQuestion {
+  return vi.fn(async (question: DistinctQuestion) => {
+    const name = (question as { name: string }).name;
+    if (!(name in replies)) throw new Error(`unexpected question: ${name}`);
+    return replies[name];
+  });
+}
+
+describe('editField', () => {
+  const custom = createProjectConfig('shop', {
+    type: 'nextjs',
+    databaseProvider: 'neon',
+    orm: 'drizzle',
+    authProvider: 'clerk',
+    port: 3000,
+  });
+
+  it('should keep answers the edit does not affect', async () => {
+    const ask = scriptedAsk({ databaseProvider: 'postgres-local' });
+    const { config, asked } = await editField(custom, 'databaseProvider', ask);
+
+    expect(asked).toEqual(['databaseProvider']);
+    expect(config).toEqual({ ...custom, databaseProvider: 'postgres-local' });
+  });
+
+  it('should re-ask the ORM and auth when the database changes their choices', async () => {
+    const ask = scriptedAsk({ databaseProvider: 'convex', orm: 'none', authProvider: 'convex-auth' });
+    const { config, asked } = await editField(custom, 'databaseProvider', ask);
+
+    expect(asked).toEqual(['databaseProvider', 'orm', 'authProvider']);
+    expect(config).toMatchObject({ databaseProvider: 'convex', orm: 'none', authProvider: 'convex-auth' });
+  });
+
+  it('should ask newly applicable questions and reset the ones that stop applying', async () => {
+    const noDatabase = { ...custom, databaseProvider: 'none' as const, orm: 'none' as const };
+    const added = await editField(noDatabase, 'databaseProvider', scriptedAsk({ databaseProvider: 'turso', orm: 'drizzle' }));
+    expect(added.asked).toEqual(['databaseProvider', 'orm']);
+
+    const removed = await editField(custom, 'databaseProvider', scriptedAsk({ databaseProvider: 'none', authProvider: 'clerk' }));
+    expect(removed.config.orm).toBe('none');
+  });
+
+  it('should re-derive the runtime and server framework from a new type', async () => {
+    const api = createProjectConfig('api', { type: 'hono-api', runtime: 'bun', port: 3000 });
+    const { config, asked } = await editField(api, 'type', scriptedAsk({
+      type: 'fastapi',
+      databaseProvider: 'postgres-local',
+      orm: 'sqlalchemy',
+      authProvider: 'none',
+      pythonPackageManager: 'uv',
+    }));
+
+    expect(asked).toEqual(['type', 'databaseProvider', 'orm', 'authProvider', 'pythonPackageManager']);
+    expect(config).toMatchObject({ type: 'fastapi', runtime: 'python', serverFramework: 'fastapi', pythonPackageManager: 'uv' });
+  });
+
+  it('should apply a newly picked preset but keep the project identity', async () => {
+    const { config } = await editField(custom, 'preset', scriptedAsk({ preset: 'edge-api' }));
+
+    expect(config).toMatchObject({ name: 'shop', port: 3000, preset: 'edge-api', type: 'hono-api', databaseProvider: 'turso' });
+  });
+
+  it('should refuse fields without a question', async () => {
+    await expect(editField(custom, 'serverFramework', scriptedAsk({}))).rejects.toThrow('serverFramework follows the project type');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Config Review
+ * Final review screen after the wizard: edit any field, re-asking only the questions it affects
+ */
+
+import chalk from 'chalk';
+import inquirer, { type Answers, type DistinctQuestion } from 'inquirer';
+import { createProjectConfig, projectQuestions } from './prompter.js';
+import { validateStackLocal } from '../core/validator.js';
+import { formatValidationResult } from '../core/constraints.js';
+import type { ProjectConfig } from './types.js';
+
+// The parts of an inquirer question the review evaluates itself
+interface QuestionShape {
+  type: string;
+  name: string;
+  when?: boolean | ((answers: Answers) => unknown);
+  choices?: unknown[] | ((answers: Answers) => unknown[]);
+  default?: unknown;
+  validate?: (input: unknown) => boolean | string;
+}
+
+export type AskQuestion = (question: DistinctQuestion, answers: Answers) => Promise<unknown>;
+
+export interface FieldEdit {
+  config: ProjectConfig;
+  // The edited field first, then every dependent question that was re-asked
+  asked: string[];
+}
+
+// Fields without a question of their own
+const DERIVED_FIELDS: Partial<Record<keyof ProjectConfig, string>> = {
+  serverFramework: 'follows the project type',
+};
+
+const CREATE = Symbol('create');
+
+const shape = (question: DistinctQuestion) => question as unknown as QuestionShape;
+
+// Answers as the questions see them: the review edits a custom stack, whatever preset it came from
+function answersOf(config: ProjectConfig | Answers): Answers {
+  return { ...config, preset: 'none' };
+}
+
+function applies(question: DistinctQuestion, answers: Answers): boolean {
+  const { when } = shape(question);
+  return typeof when === 'function' ? Boolean(when(answersOf(answers))) : when !== false;
+}
+
+function choiceValues(question: DistinctQuestion, answers: Answers): unknown[] | undefined {
+  const { choices } = shape(question);
+  if (choices === undefined) return undefined;
+  const list = typeof choices === 'function' ? choices(answersOf(answers)) : choices;
+  return list
+    .filter(choice => !(choice instanceof inquirer.Separator))
+    .map(choice => (typeof choice === 'object' && choice !== null && 'value' in choice ? choice.value : choice));
+}
+
+function defaultValue(question: DistinctQuestion, answers: Answers): unknown {
+  const value = shape(question).default;
+  return typeof value === 'function' ? value(answersOf(answers)) : value;
+}
+
+// What the question would look like if it were asked now
+function signature(question: DistinctQuestion, answers: Answers): string {
+  const applicable = applies(question, answers);
+  return JSON.stringify({
+    applicable,
+    choices: applicable ? choiceValues(question, answers) : undefined,
+    default: applicable ? defaultValue(question, answers) : undefined,
+  });
+}
+
+/**
+ * Ask one question with the current answer (when still valid) as its default
+ */
+export const askQuestion: AskQuestion = async (question, answers) => {
+  const { name } = shape(question);
+  const current = answers[name];
+  const choices = choiceValues(question, answers);
+  const keepsCurrent = current !== undefined && (!choices || choices.includes(current));
+  const { [name]: _current, ...others } = answers;
+
+  const result = await inquirer.prompt([
+    { ...question, when: undefined, ...(keepsCurrent && { default: current }) } as DistinctQuestion,
+  ], answersOf(others));
+  return result[name];
+};
+
+/**
+ * Edit one field, then walk the later questions: one that no longer applies falls back to its
+ * default, and one whose applicability, choices or default changed is asked again
+ */
+export async function editField(
+  config: ProjectConfig,
+  field: keyof ProjectConfig,
+  ask: AskQuestion = askQuestion
+): Promise<FieldEdit> {
+  const questions = projectQuestions();
+  const index = questions.findIndex(question => shape(question).name === field);
+  if (index === -1) {
+    throw new Error(`${field} ${DERIVED_FIELDS[field] ?? 'cannot be edited'}`);
+  }
+
+  if (field === 'preset') {
+    const preset = await ask(questions[index], config) as ProjectConfig['preset'];
+    const edited = preset === 'none'
+      ? { ...config, preset }
+      : createProjectConfig(config.name, {
+        preset,
+        description: config.description,
+        port: config.port,
+        domain: config.domain,
+        githubUsername: config.githubUsername,
+      });
+    return { config: edited, asked: [field] };
+  }
+
+  const before: Answers = { ...config };
+  const after: Answers = { ...config, [field]: await ask(questions[index], config) };
+  const asked: string[] = [field];
+
+  for (const question of questions.slice(index + 1)) {
+    const { name } = shape(question);
+    if (!applies(question, after)) {
+      // Unset answers fall back to createProjectConfig's defaults (e.g. runtime from the type)
+      if (applies(question, before)) after[name] = undefined;
+      continue;
+    }
+    if (signature(question, before) !== signature(question, after)) {
+      after[name] = await ask(question, after);
+      asked.push(name);
+    }
+  }
+
+  if (after.type !== before.type) {
+    after.serverFramework = undefined;
+  }
+
+  const edited = createProjectConfig(after.name, { ...after, preset: 'none' });
+  return { config: { ...edited, preset: config.preset }, asked };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return chalk.dim('(not set)');
+  if (value === '') return chalk.dim('(empty)');
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+}
+
+/**
+ * List every field with live stack validation until the user creates the project
+ */
+export async function reviewProjectConfig(config: ProjectConfig): Promise<ProjectConfig> {
+  const questions = projectQuestions();
+  const fields = Object.keys(config) as Array<keyof ProjectConfig>;
+  const width = Math.max(...fields.map(field => field.length)) + 2;
+
+  while (true) {
+    const validation = validateStackLocal(config);
+    console.log('\n' + chalk.bold('Review:'));
+    console.log(formatValidationResult(validation) + '\n');
+
+    const choices = fields.map(field => {
+      const question = questions.find(q => shape(q).name === field);
+      const name = `${field.padEnd(width)}${formatValue(config[field])}`;
+      if (!question) {
+        return { name, value: field, disabled: DERIVED_FIELDS[field] ?? true };
+      }
+      return applies(question, config)
+        ? { name, value: field }
+        : { name: chalk.dim(name), value: field, disabled: 'does not apply to this stack' };
+    });
+
+    const { action }: { action: keyof ProjectConfig | typeof CREATE } = await inquirer.prompt([{
+      type: 'list',
+      name: 'action',
+      message: 'Create the project, or pick a field to change:',
+      pageSize: 20,
+      loop: false,
+      choices: [
+        validation.valid
+          ? { name: chalk.green('Create project'), value: CREATE }
+          : { name: 'Create project', value: CREATE, disabled: 'fix the stack errors above first' },
+        new inquirer.Separator(),
+        ...choices,
+      ],
+    }]);
+
+    if (action === CREATE) {
+      return config;
+    }
+
+    const edit = await editField(config, action);
+    config = edit.config;
+    if (edit.asked.length > 1) {
+      console.log(chalk.dim(`Also asked again: ${edit.asked.slice(1).join(', ')}`));
+    }
+  }
+}
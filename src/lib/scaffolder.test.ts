@@ -221,6 +221,7 @@ describe('buildContext', () => {
         const config = createBaseConfig({ orm });
         const context = buildContext(config);
         expect(context.orm).toBe(orm);
+        expect(context.usesPrisma).toBe(orm === 'prisma');
       });
     });
   });
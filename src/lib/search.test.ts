@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { searchCatalog } from './search.js';
+import { PRESETS } from './presets.js';
+
+describe('searchCatalog', () => {
+  it('should rank exact name matches above description matches', () => {
+    const results = searchCatalog('drizzle');
+
+    expect(results[0].id).toBe('drizzle');
+    expect(results[0].matched[0]).toBe('name');
+    // Presets that pick drizzle match through their tags
+    expect(results.map(result => result.id)).toContain('saas-starter');
+  });
+
+  it('should require every word of the query to match', () => {
+    const results = searchCatalog('vector search');
+
+    expect(results.length).toBeGreaterThan(0);
+    for (const result of results) {
+      const text = `${result.id} ${result.name} ${result.description}`.toLowerCase();
+      expect(result.tags.includes('vector-db') || text.includes('vector')).toBe(true);
+    }
+  });
+
+  it('should apply category, runtime and free filters', () => {
+    const results = searchCatalog('orm', { category: 'orm', runtime: 'python', free: true });
+
+    expect(results.map(result => result.id).sort()).toEqual(['sqlalchemy', 'sqlmodel', 'tortoise']);
+    expect(results.every(result => result.free)).toBe(true);
+  });
+
+  it('should list every preset in PRESETS order for an empty query', () => {
+    const results = searchCatalog('', { category: 'preset' });
+
+    expect(results.map(result => result.id)).toEqual(Object.keys(PRESETS));
+    expect(results.find(result => result.id === 'fastapi-starter')?.description).toContain('FastAPI + PostgreSQL');
+  });
+
+  it('should return nothing for unknown terms', () => {
+    expect(searchCatalog('xyzzy')).toEqual([]);
+  });
+});
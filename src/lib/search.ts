@@ -0,0 +1,253 @@
+/**
+ * Catalog Search
+ * Ranked full-text search across presets and the knowledge base
+ */
+
+import { PRESETS, PRESET_CHOICES, type PresetConfig } from './presets.js';
+import type { Preset } from './types.js';
+import { getAllOptions, getOptionById } from '../knowledge/index.js';
+import type { AnyStackOption, Runtime } from '../knowledge/types.js';
+
+export type SearchCategory = 'preset' | Exclude<AnyStackOption['category'], 'web-server'>;
+
+export const SEARCH_CATEGORIES: Record<SearchCategory, true> = {
+  preset: true,
+  database: true,
+  orm: true,
+  auth: true,
+  frontend: true,
+  backend: true,
+  ai: true,
+  'vector-db': true,
+  embedding: true,
+  'local-ai': true,
+};
+
+export interface SearchFilters {
+  category?: SearchCategory;
+  runtime?: Runtime;
+  free?: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  name: string;
+  category: SearchCategory;
+  description: string;
+  score: number;
+  // Fields that matched the search terms, best first
+  matched: string[];
+  tags: string[];
+  free: boolean;
+}
+
+// A preset or option flattened into searchable text
+interface SearchEntry {
+  id: string;
+  name: string;
+  category: SearchCategory;
+  description: string;
+  pros: string[];
+  bestFor: string[];
+  tags: string[];
+  // Undefined when the entry works with any runtime
+  runtimes?: Runtime[];
+  free: boolean;
+}
+
+// Points per field for a search term found in it
+const FIELD_WEIGHTS = {
+  name: 40,
+  tags: 25,
+  bestFor: 15,
+  description: 10,
+  pros: 5,
+};
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Boolean capabilities exposed as tags, e.g. `realtimeSupport: true` → 'realtime'
+const FEATURE_TAGS: Record<string, string> = {
+  realtimeSupport: 'realtime',
+  branchingSupport: 'branching',
+  connectionPooling: 'pooling',
+  typeSafety: 'type-safe',
+  typeSafe: 'type-safe',
+  migrations: 'migrations',
+  socialLogin: 'social-login',
+  mfa: 'mfa',
+  sso: 'sso',
+  prebuiltComponents: 'components',
+  ssr: 'ssr',
+  ssg: 'ssg',
+  serverComponents: 'server-components',
+  edgeSupport: 'edge',
+  websocketSupport: 'websockets',
+  openApiSupport: 'openapi',
+  streaming: 'streaming',
+  structuredOutput: 'structured-output',
+  agentSupport: 'agents',
+  hybridSearch: 'hybrid-search',
+  gpuRequired: 'gpu',
+};
+
+// Category-specific string fields whose values are also tags
+const VALUE_TAGS = ['type', 'hosting', 'queryStyle', 'platform', 'runtime', 'performanceRating', 'bundler'];
+
+const JS_RUNTIMES: Runtime[] = ['node', 'bun', 'deno'];
+
+// Config fields of a preset that name knowledge base options
+const PRESET_STACK_FIELDS: Array<keyof PresetConfig> = [
+  'databaseProvider',
+  'orm',
+  'authProvider',
+  'serverFramework',
+  'vectorDB',
+  'embeddingProvider',
+  'localAI',
+  'aiFramework',
+];
+
+// Category, notable field values and capabilities of an option, e.g. ['database', 'sql', 'serverless', 'branching']
+export function optionTags(option: AnyStackOption): string[] {
+  const fields = option as unknown as Record<string, unknown>;
+  const tags: string[] = [option.category];
+  for (const field of VALUE_TAGS) {
+    if (typeof fields[field] === 'string') tags.push(fields[field] as string);
+  }
+  for (const [field, tag] of Object.entries(FEATURE_TAGS)) {
+    if (fields[field] === true) tags.push(tag);
+  }
+  if (option.monthlyCost.free) tags.push('free');
+  return [...new Set(tags)];
+}
+
+function optionRuntimes(option: AnyStackOption): Runtime[] | undefined {
+  if ('supportedRuntimes' in option) return option.supportedRuntimes;
+  if (option.category === 'backend') return [option.runtime];
+  if (option.category === 'frontend') return JS_RUNTIMES;
+  // Local AI servers are reached over HTTP from any runtime
+  return undefined;
+}
+
+function optionEntry(option: AnyStackOption): SearchEntry {
+  return {
+    id: option.id,
+    name: option.name,
+    category: option.category as SearchCategory,
+    description: option.description,
+    pros: option.pros,
+    bestFor: option.bestFor,
+    tags: optionTags(option),
+    runtimes: optionRuntimes(option),
+    free: option.monthlyCost.free,
+  };
+}
+
+function presetEntry(id: Exclude<Preset, 'none'>, config: PresetConfig): SearchEntry {
+  const choice = PRESET_CHOICES.find(preset => preset.value === id);
+  const [title, summary] = choice ? choice.name.split(' - ') : [id, ''];
+  const stack = PRESET_STACK_FIELDS.flatMap(field => {
+    const value = config[field];
+    return typeof value === 'string' && value !== 'none' ? [value] : [];
+  });
+  // A preset is free when every option it picks from the knowledge base has a free tier
+  const free = stack.every(optionId => getOptionById(optionId)?.monthlyCost.free ?? true);
+
+  return {
+    id,
+    name: title,
+    category: 'preset',
+    description: [summary, choice?.description].filter(Boolean).join('. '),
+    pros: [],
+    bestFor: [],
+    tags: [...new Set(['preset', config.type, config.runtime, config.complexityTrack, ...stack, ...(free ? ['free'] : [])])],
+    runtimes: [config.runtime],
+    free,
+  };
+}
+
+function catalog(): SearchEntry[] {
+  const presets = (Object.entries(PRESETS) as Array<[Exclude<Preset, 'none'>, PresetConfig]>)
+    .map(([id, config]) => presetEntry(id, config));
+  const options = getAllOptions()
+    .filter(option => option.id !== 'none')
+    .map(optionEntry);
+  return [...presets, ...options];
+}
+
+function matchesFilters(entry: SearchEntry, filters: SearchFilters): boolean {
+  if (filters.category && entry.category !== filters.category) return false;
+  if (filters.runtime && entry.runtimes && !entry.runtimes.includes(filters.runtime)) return false;
+  if (filters.free && !entry.free) return false;
+  return true;
+}
+
+// Score one term against an entry, or null when it appears nowhere
+function scoreTerm(entry: SearchEntry, term: string): { score: number; fields: SearchField[] } | null {
+  const contains = (text: string) => text.toLowerCase().includes(term);
+  const fields: SearchField[] = [];
+  let score = 0;
+
+  const id = entry.id.toLowerCase();
+  const name = entry.name.toLowerCase();
+  if (id === term || name === term) {
+    score += 100;
+    fields.push('name');
+  } else if (contains(entry.id) || contains(entry.name)) {
+    score += FIELD_WEIGHTS.name + (id.startsWith(term) || name.startsWith(term) ? 10 : 0);
+    fields.push('name');
+  }
+
+  const checks: Array<[SearchField, boolean]> = [
+    ['tags', entry.tags.some(tag => tag === term)],
+    ['bestFor', entry.bestFor.some(contains)],
+    ['description', contains(entry.description)],
+    ['pros', entry.pros.some(contains)],
+  ];
+  for (const [field, hit] of checks) {
+    if (hit) {
+      score += FIELD_WEIGHTS[field];
+      fields.push(field);
+    }
+  }
+
+  return fields.length > 0 ? { score, fields } : null;
+}
+
+/**
+ * Search presets and knowledge base options; every word of the query must match.
+ * An empty query returns everything that passes the filters
+ */
+export function searchCatalog(query: string, filters: SearchFilters = {}): SearchResult[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const results: SearchResult[] = [];
+
+  for (const entry of catalog()) {
+    if (!matchesFilters(entry, filters)) continue;
+
+    let score = 0;
+    const matched = new Set<SearchField>();
+    const scored = terms.map(term => scoreTerm(entry, term));
+    if (scored.some(hit => hit === null)) continue;
+    for (const hit of scored) {
+      score += hit!.score;
+      hit!.fields.forEach(field => matched.add(field));
+    }
+
+    results.push({
+      id: entry.id,
+      name: entry.name,
+      category: entry.category,
+      description: entry.description,
+      score,
+      matched: (Object.keys(FIELD_WEIGHTS) as SearchField[]).filter(field => matched.has(field)),
+      tags: entry.tags,
+      free: entry.free,
+    });
+  }
+
+  // Without terms everything scores zero, so keep catalog order (presets first)
+  if (terms.length === 0) return results;
+  return results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { validateProjectSpec } from './spec.js';
+
+describe('validateProjectSpec', () => {
+  it('should build a full config from a minimal spec', () => {
+    const result = validateProjectSpec({ name: 'my-api', type: 'fastapi', pythonPackageManager: 'uv' });
+    expect(result.valid).toBe(true);
+    expect(result.config?.name).toBe('my-api');
+    expect(result.config?.runtime).toBe('python');
+    expect(result.config?.pythonPackageManager).toBe('uv');
+    expect(result.config?.databaseProvider).toBe('none');
+  });
+
+  it('should layer spec fields over a preset', () => {
+    const result = validateProjectSpec({ name: 'saas', preset: 'saas-starter', authProvider: 'clerk' });
+    expect(result.config?.type).toBe('nextjs');
+    expect(result.config?.databaseProvider).toBe('supabase');
+    expect(result.config?.authProvider).toBe('clerk');
+  });
+
+  it('should let overrides replace spec values', () => {
+    const result = validateProjectSpec({ name: 'from-spec' }, { name: 'from-cli' });
+    expect(result.config?.name).toBe('from-cli');
+  });
+
+  it('should reject values outside the union types with their path', () => {
+    const result = validateProjectSpec({
+      name: 'bad',
+      type: 'rails',
+      rustEdition: 2021,
+      mcpTransport: 'http',
+      port: 70000,
+      useDesignSystem: 'yes',
+    });
+    expect(result.valid).toBe(false);
+    expect(result.config).toBeUndefined();
+    expect(result.errors.map(e => e.path)).toEqual(['type', 'rustEdition', 'mcpTransport', 'port', 'useDesignSystem']);
+    expect(result.errors[0].message).toContain("(got 'rails')");
+    expect(result.errors[1].message).toContain("'2021', '2024'");
+  });
+
+  it('should reject unknown fields', () => {
+    const result = validateProjectSpec({ name: 'typo', databse: 'neon' });
+    expect(result.errors).toEqual([{ path: 'databse', message: 'unknown field' }]);
+  });
+
+  it('should require a valid name', () => {
+    expect(validateProjectSpec({}).errors[0].path).toBe('name');
+    expect(validateProjectSpec({ name: 'My App' }).errors[0].path).toBe('name');
+  });
+
+  it('should reject a spec that is not a mapping', () => {
+    expect(validateProjectSpec(['nextjs']).errors[0].path).toBe('(root)');
+  });
+});
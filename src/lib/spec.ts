@@ -0,0 +1,259 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { createProjectConfig, validateProjectName } from './prompter.js';
+import type {
+  ProjectConfig,
+  ProjectType,
+  ComplexityTrack,
+  Preset,
+  DatabaseProvider,
+  OrmChoice,
+  AuthProvider,
+  Runtime,
+  ServerFramework,
+  VectorDBProvider,
+  EmbeddingProvider,
+  LocalAIProvider,
+  AIFramework,
+  WebServer,
+} from './types.js';
+
+// Declarative project spec: any subset of ProjectConfig, checked into a repo as
+// kickoff.yaml / kickoff.json and used by `kickoff create --spec`.
+export type ProjectSpec = Partial<ProjectConfig>;
+
+export interface SpecIssue {
+  path: string;
+  message: string;
+}
+
+export interface SpecValidationResult {
+  valid: boolean;
+  errors: SpecIssue[];
+  config?: ProjectConfig;
+}
+
+// Allowed values, keyed so the compiler flags any union member that is missing
+const PRESET_NAMES: Record<Preset, true> = {
+  'none': true, 'saas-starter': true, 'api-microservice': true, 'tanstack-hono': true,
+  'edge-api': true, 'fastapi-starter': true, 'python-ml-api': true, 'go-microservice': true,
+  'rust-api': true, 'ai-rag-app': true, 'ai-agent': true, 'mlx-local': true,
+  'quick-cli': true, 'landing-page': true, 'mcp-tool': true,
+};
+
+const COMPLEXITY_TRACKS: Record<ComplexityTrack, true> = {
+  quick: true, standard: true, production: true,
+};
+
+const PROJECT_TYPES: Record<ProjectType, true> = {
+  'nextjs': true, 'tanstack-start': true, 'vite-react': true, 'static': true,
+  'hono-api': true, 'elysia-api': true, 'express-api': true, 'fresh-api': true,
+  'fastapi': true, 'litestar': true, 'gin-api': true, 'fiber-api': true, 'echo-api': true,
+  'axum-api': true, 'actix-api': true, 'cli': true, 'mcp-server': true, 'worker': true,
+  'library': true,
+};
+
+const DATABASE_PROVIDERS: Record<DatabaseProvider, true> = {
+  'none': true, 'supabase': true, 'neon': true, 'turso': true, 'd1': true, 'sqlite': true,
+  'convex': true, 'pocketbase': true, 'firebase': true, 'postgres-local': true,
+  'mysql-local': true, 'mongodb-local': true, 'redis': true, 'upstash': true, 'valkey': true,
+  'dragonfly': true, 'planetscale': true, 'cockroachdb': true,
+};
+
+const ORMS: Record<OrmChoice, true> = {
+  'drizzle': true, 'prisma': true, 'kysely': true, 'sqlalchemy': true, 'tortoise': true,
+  'sqlmodel': true, 'gorm': true, 'sqlx-go': true, 'diesel': true, 'sqlx-rust': true,
+  'sea-orm': true, 'none': true,
+};
+
+const SERVER_FRAMEWORKS: Record<ServerFramework, true> = {
+  'hono': true, 'elysia': true, 'express': true, 'fastify': true, 'fresh': true, 'oak': true,
+  'fastapi': true, 'litestar': true, 'flask': true, 'django': true, 'gin': true, 'fiber': true,
+  'echo': true, 'axum': true, 'actix': true, 'rocket': true,
+};
+
+const AUTH_PROVIDERS: Record<AuthProvider, true> = {
+  'none': true, 'clerk': true, 'kinde': true, 'auth0': true, 'workos': true,
+  'better-auth': true, 'lucia': true, 'authjs': true, 'supabase-auth': true,
+  'convex-auth': true, 'firebase-auth': true, 'pocketbase-auth': true,
+};
+
+const RUNTIMES: Record<Runtime, true> = {
+  node: true, bun: true, deno: true, python: true, go: true, rust: true,
+};
+
+const WEB_SERVERS: Record<WebServer, true> = {
+  none: true, caddy: true, nginx: true, traefik: true,
+};
+
+const VECTOR_DBS: Record<VectorDBProvider, true> = {
+  'none': true, 'pinecone': true, 'weaviate': true, 'qdrant': true, 'chroma': true,
+  'pgvector': true, 'supabase-vector': true, 'turbopuffer': true, 'milvus': true,
+};
+
+const EMBEDDING_PROVIDERS: Record<EmbeddingProvider, true> = {
+  none: true, openai: true, cohere: true, voyage: true, ollama: true, huggingface: true,
+  together: true, google: true, fastembed: true,
+};
+
+const LOCAL_AI_PROVIDERS: Record<LocalAIProvider, true> = {
+  'none': true, 'ollama': true, 'lmstudio': true, 'jan': true, 'mlx': true, 'mlx-lm': true,
+  'vllm': true, 'localai': true, 'tgi': true, 'llamacpp': true, 'text-gen-webui': true,
+};
+
+const AI_FRAMEWORKS: Record<AIFramework, true> = {
+  'none': true, 'vercel-ai': true, 'langchain': true, 'llamaindex': true, 'mastra': true,
+  'instructor': true, 'semantic-kernel': true,
+};
+
+const MCP_TRANSPORTS: Record<NonNullable<ProjectConfig['mcpTransport']>, true> = {
+  stdio: true, sse: true,
+};
+
+const LIBRARY_TEST_FRAMEWORKS: Record<NonNullable<ProjectConfig['libraryTestFramework']>, true> = {
+  vitest: true, jest: true,
+};
+
+const PYTHON_PACKAGE_MANAGERS: Record<NonNullable<ProjectConfig['pythonPackageManager']>, true> = {
+  pip: true, poetry: true, uv: true, pipenv: true,
+};
+
+const RUST_EDITIONS: Record<NonNullable<ProjectConfig['rustEdition']>, true> = {
+  '2021': true, '2024': true,
+};
+
+type FieldRule =
+  | { kind: 'string' }
+  | { kind: 'boolean' }
+  | { kind: 'port' }
+  | { kind: 'enum'; values: Record<string, true> };
+
+// Every ProjectConfig field a spec may set
+const SPEC_FIELDS: Record<keyof ProjectConfig, FieldRule> = {
+  name: { kind: 'string' },
+  description: { kind: 'string' },
+  preset: { kind: 'enum', values: PRESET_NAMES },
+  complexityTrack: { kind: 'enum', values: COMPLEXITY_TRACKS },
+  type: { kind: 'enum', values: PROJECT_TYPES },
+  port: { kind: 'port' },
+  databaseProvider: { kind: 'enum', values: DATABASE_PROVIDERS },
+  orm: { kind: 'enum', values: ORMS },
+  authProvider: { kind: 'enum', values: AUTH_PROVIDERS },
+  vectorDB: { kind: 'enum', values: VECTOR_DBS },
+  embeddingProvider: { kind: 'enum', values: EMBEDDING_PROVIDERS },
+  localAI: { kind: 'enum', values: LOCAL_AI_PROVIDERS },
+  aiFramework: { kind: 'enum', values: AI_FRAMEWORKS },
+  domain: { kind: 'string' },
+  githubUsername: { kind: 'string' },
+  webServer: { kind: 'enum', values: WEB_SERVERS },
+  useDesignSystem: { kind: 'boolean' },
+  runtime: { kind: 'enum', values: RUNTIMES },
+  serverFramework: { kind: 'enum', values: SERVER_FRAMEWORKS },
+  cliInteractive: { kind: 'boolean' },
+  cliConfigFile: { kind: 'boolean' },
+  cliShellCompletion: { kind: 'boolean' },
+  mcpTransport: { kind: 'enum', values: MCP_TRANSPORTS },
+  libraryTestFramework: { kind: 'enum', values: LIBRARY_TEST_FRAMEWORKS },
+  pythonPackageManager: { kind: 'enum', values: PYTHON_PACKAGE_MANAGERS },
+  goModulePath: { kind: 'string' },
+  rustEdition: { kind: 'enum', values: RUST_EDITIONS },
+};
+
+// Allowed values of an enum ProjectConfig field (empty for free-form fields)
+export function getFieldChoices(field: keyof ProjectConfig): string[] {
+  const rule = SPEC_FIELDS[field];
+  return rule.kind === 'enum' ? Object.keys(rule.values) : [];
+}
+
+// Read and parse a kickoff.yaml / kickoff.json spec file
+export async function readProjectSpec(specPath: string): Promise<unknown> {
+  if (!await fs.pathExists(specPath)) {
+    throw new Error(`Spec file not found: ${specPath}`);
+  }
+
+  const content = await fs.readFile(specPath, 'utf-8');
+  try {
+    return path.extname(specPath).toLowerCase() === '.json'
+      ? JSON.parse(content)
+      : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${specPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Check a parsed spec against the ProjectConfig unions and build the full config.
+// `overrides` (e.g. the name given on the command line) take precedence over the spec.
+export function validateProjectSpec(
+  data: unknown,
+  overrides: ProjectSpec = {}
+): SpecValidationResult {
+  const errors: SpecIssue[] = [];
+
+  if (data === null || data === undefined) {
+    data = {};
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, errors: [{ path: '(root)', message: 'spec must be a mapping of ProjectConfig fields' }] };
+  }
+
+  const spec: Record<string, unknown> = { ...data as Record<string, unknown> };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) spec[key] = value;
+  }
+
+  for (const [key, value] of Object.entries(spec)) {
+    if (!Object.prototype.hasOwnProperty.call(SPEC_FIELDS, key)) {
+      errors.push({ path: key, message: 'unknown field' });
+      continue;
+    }
+    const message = checkField(SPEC_FIELDS[key as keyof ProjectConfig], value);
+    if (message) {
+      errors.push({ path: key, message });
+    }
+  }
+
+  if (spec.name === undefined) {
+    errors.push({ path: 'name', message: 'is required (set it in the spec or pass it as an argument)' });
+  } else if (typeof spec.name === 'string') {
+    const nameCheck = validateProjectName(spec.name);
+    if (typeof nameCheck === 'string') {
+      errors.push({ path: 'name', message: nameCheck });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const { name, ...answers } = spec as ProjectSpec;
+  return { valid: true, errors, config: createProjectConfig(name as string, answers) };
+}
+
+function checkField(rule: FieldRule, value: unknown): string | null {
+  switch (rule.kind) {
+    case 'string':
+      return typeof value === 'string' ? null : `must be a string (got ${describe(value)})`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `must be true or false (got ${describe(value)})`;
+    case 'port':
+      return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535
+        ? null
+        : `must be an integer between 1 and 65535 (got ${describe(value)})`;
+    case 'enum': {
+      if (typeof value === 'string' && Object.prototype.hasOwnProperty.call(rule.values, value)) {
+        return null;
+      }
+      const allowed = Object.keys(rule.values).map(v => `'${v}'`).join(', ');
+      return `must be one of ${allowed} (got ${describe(value)})`;
+    }
+  }
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') return `'${value}'`;
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'a mapping';
+  return `${String(value)} (${typeof value})`;
+}
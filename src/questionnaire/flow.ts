@@ -14,7 +14,7 @@ import {
   ValidationResult,
   QuestionGroup,
   defaultFlowConfig,
-} from './types';
+} from './types.js';
 
 export class QuestionFlow {
   private questions: Question[];
@@ -4,10 +4,10 @@
  */
 
 // Export types
-export * from './types';
+export * from './types.js';
 
 // Export flow engine
-export { QuestionFlow, createGroupedFlow, runFlow } from './flow';
+export { QuestionFlow, createGroupedFlow, runFlow } from './flow.js';
 
 // Export renderer
 export {
@@ -24,7 +24,7 @@ export {
   renderInfo,
   renderWelcome,
   renderGoodbye,
-} from './renderer';
+} from './renderer.js';
 
 // Export questions and groups
 export {
@@ -42,4 +42,4 @@ export {
   priorityQuestions,
   getQuestionsForProjectType,
   getQuickSetupQuestions,
-} from './questions';
+} from './questions.js';
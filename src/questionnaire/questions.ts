@@ -8,7 +8,7 @@ import {
   QuestionChoice,
   QuestionGroup,
   QuestionnaireAnswers,
-} from './types';
+} from './types.js';
 import {
   databases,
   orms,
@@ -17,7 +17,7 @@ import {
   backends,
   aiFrameworks,
   vectorDatabases,
-} from '../knowledge';
+} from '../knowledge/index.js';
 
 // Helper to convert stack options to question choices
 function optionsToChoices(
@@ -13,8 +13,8 @@ import {
   ConfirmQuestion,
   InputQuestion,
   QuestionChoice,
-} from './types';
-import type { StackOption } from '../knowledge/types';
+} from './types.js';
+import type { StackOption } from '../knowledge/types.js';
 
 // Render a question and get the answer
 export async function renderQuestion(question: Question): Promise<unknown> {
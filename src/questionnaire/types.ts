@@ -3,8 +3,8 @@
  * Interfaces for the interactive question flow system
  */
 
-import { ProjectType, Runtime } from '../knowledge/types';
-import { BudgetLevel, ExperienceLevel, ScaleRequirement, TimelineUrgency } from '../recommender/types';
+import { ProjectType, Runtime } from '../knowledge/types.js';
+import { BudgetLevel, ExperienceLevel, ScaleRequirement, TimelineUrgency } from '../recommender/types.js';
 
 // Question types
 export type QuestionType = 'single' | 'multi' | 'confirm' | 'input' | 'select';
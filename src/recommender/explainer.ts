@@ -3,7 +3,7 @@
  * Generates human-readable explanations for recommendations
  */
 
-import { StackOption } from '../knowledge/types';
+import { StackOption } from '../knowledge/types.js';
 import {
   ScoredOption,
   CategoryRecommendation,
@@ -12,7 +12,7 @@ import {
   OptionComparison,
   Warning,
   UserRequirements,
-} from './types';
+} from './types.js';
 
 // Generate explanation for a single scored option
 export function generateOptionExplanation<T extends StackOption>(scored: ScoredOption<T>): string {
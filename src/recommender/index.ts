@@ -4,7 +4,7 @@
  */
 
 // Export types
-export * from './types';
+export * from './types.js';
 
 // Export scoring functions
 export {
@@ -13,7 +13,7 @@ export {
   getTopRecommendation,
   compareOptions,
   getWeightsForProfile,
-} from './scorer';
+} from './scorer.js';
 
 // Export explanation functions
 export {
@@ -25,7 +25,7 @@ export {
   generateStackSummary,
   explainChoice,
   formatWarnings,
-} from './explainer';
+} from './explainer.js';
 
 // Re-import for orchestration
 import {
@@ -36,9 +36,9 @@ import {
   StackRecommendation,
   CompatibilityIssue,
   Warning,
-} from './types';
-import { scoreAndRankOptions, getWeightsForProfile } from './scorer';
-import { generateCategoryExplanation } from './explainer';
+} from './types.js';
+import { scoreAndRankOptions, getWeightsForProfile } from './scorer.js';
+import { generateCategoryExplanation } from './explainer.js';
 import {
   databases,
   orms,
@@ -51,8 +51,8 @@ import {
   localAIProviders,
   compatibilityMatrix,
   validateStackSelection,
-} from '../knowledge';
-import type { StackOption, Complexity, CostTier } from '../knowledge/types';
+} from '../knowledge/index.js';
+import type { StackOption, Complexity, CostTier } from '../knowledge/types.js';
 
 // Create scoring context from requirements
 export function createScoringContext(
@@ -151,7 +151,8 @@ export function recommendStack(requirements: UserRequirements): StackRecommendat
 
   // 4. ORM (if database selected and not BaaS)
   if (result.database && !['convex', 'firebase', 'pocketbase'].includes(selections.database)) {
-    const ormRec = recommendForCategory('orm', orms, context);
+    const runtimeOrms = orms.filter(o => o.supportedRuntimes.includes(requirements.runtime));
+    const ormRec = recommendForCategory('orm', runtimeOrms.length > 0 ? runtimeOrms : orms, context);
     if (ormRec) {
       result.orm = ormRec;
       selections.orm = ormRec.recommended.option.id;
@@ -3,7 +3,7 @@
  * Scores stack options based on user requirements
  */
 
-import { StackOption, Complexity, CostTier } from '../knowledge/types';
+import { StackOption, Complexity, CostTier } from '../knowledge/types.js';
 import {
   ScoredOption,
   UserRequirements,
@@ -16,8 +16,8 @@ import {
   enterpriseWeights,
   BudgetLevel,
   ExperienceLevel,
-} from './types';
-import { areCompatible, getIncompatibleOptions } from '../knowledge/compatibility';
+} from './types.js';
+import { areCompatible, getIncompatibleOptions } from '../knowledge/compatibility.js';
 
 // Complexity score mapping
 const complexityScores: Record<Complexity, number> = {
@@ -3,7 +3,7 @@
  * Interfaces for scoring and recommending stack options
  */
 
-import { StackOption, Complexity, CostTier, Runtime, ProjectType } from '../knowledge/types';
+import { StackOption, Complexity, CostTier, Runtime, ProjectType } from '../knowledge/types.js';
 
 // Score weight factors
 export interface ScoreWeights {
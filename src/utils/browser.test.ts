@@ -0,0 +1,41 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { getOpenCommand, serveDirectory, type StaticServer } from './browser.js';
+
+describe('getOpenCommand', () => {
+  it('should pick the platform opener', () => {
+    expect(getOpenCommand('/tmp/a.html', 'darwin')).toEqual({ command: 'open', args: ['/tmp/a.html'] });
+    expect(getOpenCommand('C:\\a.html', 'win32')?.args).toEqual(['/c', 'start', '""', '"C:\\a.html"']);
+    expect(getOpenCommand('/tmp/a.html', 'linux', { DISPLAY: ':0' })).toEqual({ command: 'xdg-open', args: ['/tmp/a.html'] });
+  });
+
+  it('should return undefined on a headless Linux box', () => {
+    expect(getOpenCommand('/tmp/a.html', 'linux', {})).toBeUndefined();
+  });
+});
+
+describe('serveDirectory', () => {
+  let root: string;
+  let server: StaticServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    await fs.remove(root);
+  });
+
+  it('should serve the index page and refuse paths outside the directory', async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'kickoff-serve-'));
+    await fs.writeFile(path.join(root, 'USAGE.html'), '<h1>usage</h1>');
+    server = await serveDirectory(root, 'USAGE.html');
+
+    const index = await fetch(server.url);
+    expect(index.status).toBe(200);
+    expect(index.headers.get('content-type')).toContain('text/html');
+    expect(await index.text()).toBe('<h1>usage</h1>');
+
+    expect((await fetch(`${server.url}missing.html`)).status).toBe(404);
+    expect((await fetch(`${server.url}%2e%2e/%2e%2e/etc/passwd`)).status).toBe(404);
+  });
+});
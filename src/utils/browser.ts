@@ -0,0 +1,101 @@
+import http from 'http';
+import fs from 'fs-extra';
+import path from 'path';
+import { execa } from 'execa';
+
+export interface OpenCommand {
+  command: string;
+  args: string[];
+}
+
+export interface OpenResult {
+  opened: boolean;
+  command?: string;
+  error?: string;
+}
+
+export interface StaticServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+};
+
+// The platform's "open with the default app" command, or undefined on a headless Linux box
+export function getOpenCommand(
+  target: string,
+  platform: NodeJS.Platform = process.platform,
+  env: NodeJS.ProcessEnv = process.env
+): OpenCommand | undefined {
+  switch (platform) {
+    case 'darwin':
+      return { command: 'open', args: [target] };
+    case 'win32':
+      // `start` is a cmd builtin; the empty string is the window title. Passed verbatim, so quote the target
+      return { command: 'cmd', args: ['/c', 'start', '""', `"${target}"`] };
+    default:
+      if (!env.DISPLAY && !env.WAYLAND_DISPLAY) return undefined;
+      return { command: 'xdg-open', args: [target] };
+  }
+}
+
+/**
+ * Open a file or URL in the default browser
+ */
+export async function openInBrowser(target: string): Promise<OpenResult> {
+  const open = getOpenCommand(target);
+  if (!open) {
+    return { opened: false, error: 'No display available (DISPLAY and WAYLAND_DISPLAY are unset)' };
+  }
+
+  try {
+    await execa(open.command, open.args, { stdio: 'ignore', timeout: 15000, windowsVerbatimArguments: true });
+    return { opened: true, command: open.command };
+  } catch (error) {
+    const message = (error as { code?: string }).code === 'ENOENT'
+      ? `${open.command} is not installed`
+      : (error as { shortMessage?: string }).shortMessage ?? String(error);
+    return { opened: false, command: open.command, error: message };
+  }
+}
+
+/**
+ * Serve a directory over HTTP; `/` serves `index`. Only files inside the directory are reachable
+ */
+export function serveDirectory(root: string, index: string, port = 0, host = '127.0.0.1'): Promise<StaticServer> {
+  const base = path.resolve(root);
+
+  const server = http.createServer(async (req, res) => {
+    const pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    const file = path.resolve(base, '.' + (pathname === '/' ? `/${index}` : pathname));
+
+    if ((file !== base && !file.startsWith(base + path.sep)) || !(await fs.pathExists(file)) || (await fs.stat(file)).isDirectory()) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Not found');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+    fs.createReadStream(file).pipe(res);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const address = server.address();
+      const actualPort = typeof address === 'object' && address ? address.port : port;
+      const displayHost = host === '0.0.0.0' || host === '::' ? 'localhost' : host;
+      resolve({
+        url: `http://${displayHost}:${actualPort}/`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
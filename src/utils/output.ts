@@ -0,0 +1,57 @@
+import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import { logger, LogLevel } from './Logger.js';
+
+// Process exit codes shared by every command
+export const ExitCode = {
+  Success: 0,
+  // Unexpected failure (I/O, rendering, git, ...)
+  Error: 1,
+  // Bad arguments, spec, preset, fragment or project state
+  InvalidInput: 2,
+  // Stack validation rejected the configuration
+  ValidationFailed: 3,
+  // Generated files collided with existing ones (`create`), or upgrade left merge conflicts
+  Conflicts: 4,
+  // Required toolchains are missing (`doctor`, `create --require-tools`)
+  MissingTools: 5,
+} as const;
+
+export type ExitCode = typeof ExitCode[keyof typeof ExitCode];
+
+let jsonMode = false;
+
+// In JSON mode only the final JSON document is written to stdout
+export function setJsonMode(enabled: boolean): void {
+  jsonMode = enabled;
+  if (enabled) {
+    logger.setLogLevel(LogLevel.ERROR);
+  }
+}
+
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+export function createSpinner(text: string): Ora {
+  return ora({ text, isSilent: jsonMode });
+}
+
+export function emitJson(data: unknown): void {
+  console.log(JSON.stringify(data, null, 2));
+}
+
+// Report an error in the current output mode and exit
+export function exitWithError(
+  error: unknown,
+  code: ExitCode = ExitCode.Error,
+  details: Record<string, unknown> = {}
+): never {
+  if (jsonMode) {
+    const message = error instanceof Error ? error.message : String(error);
+    emitJson({ success: false, exitCode: code, error: message, ...details });
+  } else {
+    console.error(chalk.red('\nError:'), error);
+  }
+  process.exit(code);
+}
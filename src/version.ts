@@ -0,0 +1 @@
+export const VERSION = '3.0.0';